@@ -3,6 +3,10 @@ const nextConfig = {
   images: {
     domains: ['media.licdn.com'],
   },
+  experimental: {
+    // Starts the crawl scheduler with the server (src/instrumentation.ts)
+    instrumentationHook: true,
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,39 @@
+// Serves recorded job board API responses so JobBoardClient can run without the network.
+//
+//   node scripts/ats-stub-server.mjs            (listens on port 4010, or $PORT)
+//   JOB_BOARD_API_URL=http://localhost:4010 npm run dev
+//
+// Requests look like /<provider>/<provider API path>, e.g. /greenhouse/v1/boards/acme/jobs,
+// and are answered from data/fixtures/ats/<provider>/<key>.json. Recordings are written by
+// JobBoardClient when "Capture page fixtures" is enabled; the key must match recordingKey()
+// in src/lib/job-boards.ts.
+import http from 'http';
+import fs from 'fs';
+import path from 'path';
+
+const port = Number(process.env.PORT) || 4010;
+const recordingsDir = path.join(process.cwd(), 'data', 'fixtures', 'ats');
+
+const recordingKey = (apiPath) => apiPath.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${port}`);
+  const [, provider, ...rest] = url.pathname.split('/');
+  const apiPath = `/${rest.join('/')}${url.search}`;
+  const file = path.join(recordingsDir, path.basename(provider || ''), `${recordingKey(apiPath)}.json`);
+
+  if (!provider || !fs.existsSync(file)) {
+    console.log(`404 ${req.url}`);
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'No recorded response' }));
+    return;
+  }
+
+  console.log(`200 ${req.url} -> ${path.relative(process.cwd(), file)}`);
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  fs.createReadStream(file).pipe(res);
+});
+
+server.listen(port, () => {
+  console.log(`Job board stub server serving ${recordingsDir} on http://localhost:${port}`);
+});
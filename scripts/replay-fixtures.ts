@@ -0,0 +1,66 @@
+// Runs the crawler's extractors against captured page fixtures, without the app or network.
+//
+//   npm run replay-fixtures                          (every fixture under data/fixtures/)
+//   npm run replay-fixtures -- companySearch         (one page type)
+//   npm run replay-fixtures -- profile <file>...     (specific files of a page type)
+//
+// Prints what each fixture extracted and which selector strategies matched. Exits with 1
+// when a fixture fails to replay, so it can check selector changes in CI.
+import { LinkedInCrawler } from '../src/lib/linkedin-crawler';
+import { FIXTURE_PAGE_TYPES, FixtureStore } from '../src/lib/fixtures';
+import { FixturePageType } from '../src/types';
+
+async function main(): Promise<number> {
+  const [pageType, ...files] = process.argv.slice(2);
+
+  if (pageType && !FIXTURE_PAGE_TYPES.includes(pageType as FixturePageType)) {
+    console.error(`Unknown page type "${pageType}". Use one of: ${FIXTURE_PAGE_TYPES.join(', ')}`);
+    return 1;
+  }
+
+  const fixtures = files.length > 0
+    ? files.map(file => ({ pageType: pageType as FixturePageType, file }))
+    : FixtureStore.list(pageType as FixturePageType | undefined);
+
+  if (fixtures.length === 0) {
+    console.error('No fixtures found. Enable "Capture page fixtures" and run a crawl first.');
+    return 1;
+  }
+
+  const crawler = new LinkedInCrawler({ rateLimit: 0, headless: true });
+  let failures = 0;
+
+  try {
+    await crawler.initializeReplay();
+
+    for (const fixture of fixtures) {
+      try {
+        const result = await crawler.replayFixture(fixture.pageType, fixture.file);
+        const found = Array.isArray(result) ? `${result.length} results` : 'done';
+        console.log(`ok   ${fixture.pageType}/${fixture.file} (${found})`);
+        console.log(JSON.stringify(result, null, 2));
+      } catch (error) {
+        failures++;
+        console.log(`FAIL ${fixture.pageType}/${fixture.file}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    console.log('\nSelector strategies matched:');
+    for (const hit of crawler.getSelectorHits()) {
+      console.log(`  ${hit.field} => ${hit.strategy} (${hit.count})`);
+    }
+  } finally {
+    await crawler.close();
+  }
+
+  console.log(`\n${fixtures.length - failures}/${fixtures.length} fixtures replayed`);
+  return failures > 0 ? 1 : 0;
+}
+
+main().then(
+  code => process.exit(code),
+  error => {
+    console.error('Fixture replay failed:', error);
+    process.exit(1);
+  }
+);
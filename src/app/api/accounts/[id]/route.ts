@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// Renames an account; an empty name goes back to showing its email
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const db = getDatabase();
+    const accountId = decodeURIComponent(params.id);
+
+    if (!db.getAccounts().some(account => account.id === accountId)) {
+      return NextResponse.json(
+        { error: 'Account not found' },
+        { status: 404 }
+      );
+    }
+
+    const { name } = await request.json();
+    db.saveAccount({ id: accountId, name: typeof name === 'string' ? name : '' });
+    return NextResponse.json({ accounts: db.getAccounts() });
+  } catch (error) {
+    console.error('Failed to update account:', error);
+    return NextResponse.json(
+      { error: 'Failed to update account' },
+      { status: 500 }
+    );
+  }
+}
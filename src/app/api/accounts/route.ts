@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+
+// Accounts are added between requests, so this is never prerendered
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const db = getDatabase();
+    return NextResponse.json({
+      workspace: process.env.WORKSPACE || null,
+      accounts: db.getAccounts()
+    });
+  } catch (error) {
+    console.error('Failed to fetch accounts:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch accounts' },
+      { status: 500 }
+    );
+  }
+}
+
+// Adds an account without a password, e.g. to import someone's LinkedIn data export
+export async function POST(request: NextRequest) {
+  try {
+    const { id, name } = await request.json();
+
+    if (!id || typeof id !== 'string' || !id.includes('@')) {
+      return NextResponse.json(
+        { error: 'The account ID must be the LinkedIn email address' },
+        { status: 400 }
+      );
+    }
+
+    const db = getDatabase();
+    db.saveAccount({ id, name: typeof name === 'string' ? name : undefined });
+    return NextResponse.json({ accounts: db.getAccounts() });
+  } catch (error) {
+    console.error('Failed to add account:', error);
+    return NextResponse.json(
+      { error: 'Failed to add account' },
+      { status: 500 }
+    );
+  }
+}
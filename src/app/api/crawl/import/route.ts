@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, normalizeAccountId } from '@/lib/database';
+import { importLinkedInExport, InvalidExportError } from '@/lib/linkedin-export';
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const requestedAccountId = formData.get('accountId');
+    const accountId = typeof requestedAccountId === 'string' ? normalizeAccountId(requestedAccountId) : '';
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json(
+        { error: 'A Connections.csv or LinkedIn data export ZIP is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!accountId) {
+      return NextResponse.json(
+        { error: 'Account ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!getDatabase().getAccount(accountId)) {
+      return NextResponse.json(
+        { error: `Unknown account ${accountId}. Add it with the account switcher first.` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(importLinkedInExport(Buffer.from(await file.arrayBuffer()), accountId));
+  } catch (error) {
+    if (error instanceof InvalidExportError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('Failed to import LinkedIn data export:', error);
+    return NextResponse.json(
+      { error: 'Failed to import LinkedIn data export' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+import { nextCronTime } from '@/lib/cron';
+import { SCHEDULED_CRAWL_MODES } from '@/lib/crawl-scheduler';
+import { normalizeCrawlSettings } from '@/lib/crawl-settings';
+import { CrawlSchedule } from '@/types';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const db = getDatabase();
+    const schedule = db.getCrawlSchedule(params.id);
+
+    if (!schedule) {
+      return NextResponse.json(
+        { error: 'Schedule not found' },
+        { status: 404 }
+      );
+    }
+
+    const { name, mode, cron, settings, enabled } = await request.json();
+    const updates: Partial<CrawlSchedule> = {};
+
+    if (mode !== undefined) {
+      if (!SCHEDULED_CRAWL_MODES.includes(mode)) {
+        return NextResponse.json(
+          { error: 'Invalid crawl mode' },
+          { status: 400 }
+        );
+      }
+      updates.mode = mode;
+    }
+    if (name !== undefined) updates.name = String(name).trim() || schedule.name;
+    if (settings !== undefined) {
+      try {
+        updates.settings = normalizeCrawlSettings(settings);
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : 'Invalid settings' },
+          { status: 400 }
+        );
+      }
+    }
+    if (enabled !== undefined) updates.enabled = Boolean(enabled);
+
+    // A new expression, or turning the schedule back on, counts from now rather than from
+    // a run time that may have passed while it was off
+    if (cron !== undefined || (updates.enabled && !schedule.enabled)) {
+      updates.cron = cron !== undefined ? String(cron).trim() : schedule.cron;
+      try {
+        updates.nextRunAt = nextCronTime(updates.cron, new Date()).toISOString();
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : 'Invalid schedule' },
+          { status: 400 }
+        );
+      }
+    }
+
+    db.updateCrawlSchedule(params.id, updates);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to update crawl schedule:', error);
+    return NextResponse.json(
+      { error: 'Failed to update crawl schedule' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const db = getDatabase();
+    db.deleteCrawlSchedule(params.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to delete crawl schedule:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete crawl schedule' },
+      { status: 500 }
+    );
+  }
+}
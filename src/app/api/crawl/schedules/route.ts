@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, normalizeAccountId } from '@/lib/database';
+import { nextCronTime } from '@/lib/cron';
+import { SCHEDULED_CRAWL_MODES, summarizeSchedule } from '@/lib/crawl-scheduler';
+import { normalizeCrawlSettings } from '@/lib/crawl-settings';
+import { CrawlSettings } from '@/types';
+
+export async function GET(request: NextRequest) {
+  try {
+    const db = getDatabase();
+    // Optionally only the schedules of one account
+    const accountId = normalizeAccountId(request.nextUrl.searchParams.get('accountId') || '');
+    const schedules = db.getAllCrawlSchedules()
+      .filter(schedule => !accountId || schedule.accountId === accountId)
+      .map(schedule => summarizeSchedule(db, schedule));
+    return NextResponse.json(schedules);
+  } catch (error) {
+    console.error('Failed to fetch crawl schedules:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch crawl schedules' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { name, mode, cron, accountId: requestedAccountId, settings, enabled = true } = await request.json();
+
+    if (!mode || !SCHEDULED_CRAWL_MODES.includes(mode)) {
+      return NextResponse.json(
+        { error: 'Invalid crawl mode' },
+        { status: 400 }
+      );
+    }
+
+    const accountId = typeof requestedAccountId === 'string' ? normalizeAccountId(requestedAccountId) : '';
+    if (!accountId) {
+      return NextResponse.json(
+        { error: 'Account is required' },
+        { status: 400 }
+      );
+    }
+
+    const db = getDatabase();
+    if (!db.getAccount(accountId)) {
+      return NextResponse.json(
+        { error: `Unknown account ${accountId}. Add it with the account switcher first.` },
+        { status: 400 }
+      );
+    }
+
+    // Schedules keep their own copy of the settings, taken from the account's saved ones unless given
+    let scheduleSettings: CrawlSettings;
+    try {
+      scheduleSettings = settings !== undefined ? normalizeCrawlSettings(settings) : db.getCrawlSettings(accountId);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid settings' },
+        { status: 400 }
+      );
+    }
+
+    const expression = String(cron ?? '').trim();
+    let nextRunAt: string;
+    try {
+      nextRunAt = nextCronTime(expression, new Date()).toISOString();
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid schedule' },
+        { status: 400 }
+      );
+    }
+
+    const scheduleId = db.createCrawlSchedule({
+      name: name?.trim() || mode,
+      mode,
+      cron: expression,
+      accountId,
+      settings: scheduleSettings,
+      enabled: Boolean(enabled),
+      nextRunAt
+    });
+
+    return NextResponse.json({ scheduleId });
+  } catch (error) {
+    console.error('Failed to create crawl schedule:', error);
+    return NextResponse.json(
+      { error: 'Failed to create crawl schedule' },
+      { status: 500 }
+    );
+  }
+}
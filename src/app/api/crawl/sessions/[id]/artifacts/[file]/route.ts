@@ -0,0 +1,54 @@
+import fs from 'fs';
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+import { CrawlArtifactStore } from '@/lib/crawl-artifacts';
+import { CrawlArtifact } from '@/types';
+
+const CONTENT_TYPES: Record<CrawlArtifact['kind'], string> = {
+  screenshot: 'image/png',
+  html: 'text/html; charset=utf-8',
+  trace: 'application/zip'
+};
+
+interface RouteParams {
+  params: {
+    id: string;
+    file: string;
+  };
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    if (!getDatabase().getCrawlSession(params.id)) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    const filePath = CrawlArtifactStore.getFilePath(params.id, params.file);
+    if (!filePath) {
+      return NextResponse.json(
+        { error: 'Artifact not found' },
+        { status: 404 }
+      );
+    }
+
+    const kind = CrawlArtifactStore.getKind(params.file);
+    const headers: Record<string, string> = { 'Content-Type': CONTENT_TYPES[kind] };
+    if (kind === 'html') {
+      // Saved LinkedIn pages are shown as-is but must not run their scripts on this origin
+      headers['Content-Security-Policy'] = 'sandbox';
+    } else if (kind === 'trace') {
+      headers['Content-Disposition'] = `attachment; filename="${params.id}-${params.file}"`;
+    }
+
+    return new Response(fs.readFileSync(filePath), { headers });
+  } catch (error) {
+    console.error('Failed to fetch crawl artifact:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch crawl artifact' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+import { CrawlArtifactStore } from '@/lib/crawl-artifacts';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    if (!getDatabase().getCrawlSession(params.id)) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(CrawlArtifactStore.list(params.id));
+  } catch (error) {
+    console.error('Failed to list crawl artifacts:', error);
+    return NextResponse.json(
+      { error: 'Failed to list crawl artifacts' },
+      { status: 500 }
+    );
+  }
+}
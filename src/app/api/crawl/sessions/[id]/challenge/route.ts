@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPendingChallenge, respondToChallenge } from '@/lib/challenge-handoff';
+import { ChallengeResponse } from '@/types';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const challenge = getPendingChallenge(params.id);
+    
+    if (!challenge) {
+      return NextResponse.json(
+        { error: 'No pending security challenge for this session' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(challenge);
+  } catch (error) {
+    console.error('Failed to fetch security challenge:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch security challenge' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const body = await request.json();
+    let response: ChallengeResponse;
+
+    if (body.action === 'submit_code') {
+      if (!body.code || typeof body.code !== 'string') {
+        return NextResponse.json(
+          { error: 'Verification code is required' },
+          { status: 400 }
+        );
+      }
+      response = { action: 'submit_code', code: body.code };
+    } else if (body.action === 'open_browser' || body.action === 'resolved') {
+      response = { action: body.action };
+    } else {
+      return NextResponse.json(
+        { error: 'Invalid challenge action' },
+        { status: 400 }
+      );
+    }
+
+    if (!respondToChallenge(params.id, response)) {
+      return NextResponse.json(
+        { error: 'No pending security challenge for this session' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to respond to security challenge:', error);
+    return NextResponse.json(
+      { error: 'Failed to respond to security challenge' },
+      { status: 500 }
+    );
+  }
+}
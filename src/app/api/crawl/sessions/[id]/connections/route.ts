@@ -10,7 +10,11 @@ interface RouteParams {
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
     const db = getDatabase();
-    const connections = db.getCompanyConnectionsBySession(params.id);
+
+    // Enrichment sessions store history, not connections. Show the enriched session instead.
+    const session = db.getCrawlSession(params.id);
+    const sessionId = session?.mode === 'profile_enrichment' && session.sourceSessionId ? session.sourceSessionId : params.id;
+    const connections = db.getCompanyConnectionsBySession(sessionId);
     
     return NextResponse.json(connections);
   } catch (error) {
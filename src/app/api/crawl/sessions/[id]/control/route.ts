@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+import { getCrawlQueue } from '@/lib/crawl-queue';
+import { pauseCrawl, resumePausedCrawl } from '@/lib/crawl-runner';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { action } = await request.json();
+
+    if (!getDatabase().getCrawlSession(params.id)) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    let applied: boolean;
+    if (action === 'cancel') {
+      applied = getCrawlQueue().cancel(params.id);
+    } else if (action === 'pause') {
+      applied = pauseCrawl(params.id);
+    } else if (action === 'resume') {
+      applied = resumePausedCrawl(params.id);
+    } else {
+      return NextResponse.json(
+        { error: 'Invalid crawl action' },
+        { status: 400 }
+      );
+    }
+
+    if (!applied) {
+      const reasons: Record<string, string> = {
+        cancel: 'Session has no queued or running crawl',
+        pause: 'Only a running crawl can be paused',
+        resume: 'Session is not paused'
+      };
+      return NextResponse.json(
+        { error: reasons[action] },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to control crawl:', error);
+    return NextResponse.json(
+      { error: 'Failed to control crawl' },
+      { status: 500 }
+    );
+  }
+}
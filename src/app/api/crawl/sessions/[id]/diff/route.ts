@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+import { diffSessions } from '@/lib/session-diff';
+import { CrawlSession } from '@/types';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// Sessions that store connections; jobs and enrichment sessions have nothing to compare
+const COMPARABLE_MODES: CrawlSession['mode'][] = ['first_connections', 'friends_of_friends', 'data_export'];
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const db = getDatabase();
+    const session = db.getCrawlSession(params.id);
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!COMPARABLE_MODES.includes(session.mode)) {
+      return NextResponse.json(
+        { error: 'Only connection sessions can be compared' },
+        { status: 400 }
+      );
+    }
+
+    // Without ?against=, compare with the account's latest completed session of the same mode before this one
+    const againstId = request.nextUrl.searchParams.get('against');
+    const against = againstId
+      ? db.getCrawlSession(againstId)
+      : db.getAllCrawlSessions(session.accountId).find(other =>
+          other.mode === session.mode && other.status === 'completed' && other.createdAt < session.createdAt
+        );
+
+    if (!against) {
+      return NextResponse.json(
+        { error: againstId ? 'Session to compare against not found' : 'No earlier completed session of the same mode to compare against' },
+        { status: 404 }
+      );
+    }
+
+    if (against.id === session.id || against.mode !== session.mode || against.accountId !== session.accountId) {
+      return NextResponse.json(
+        { error: 'Sessions must be two different sessions of the same mode and account' },
+        { status: 400 }
+      );
+    }
+
+    const diff = diffSessions(
+      { sessionId: session.id, connections: db.getConnectionsBySession(session.id), companyPaths: db.getCompanyPathsBySession(session.id) },
+      { sessionId: against.id, connections: db.getConnectionsBySession(against.id), companyPaths: db.getCompanyPathsBySession(against.id) }
+    );
+
+    return NextResponse.json(diff);
+  } catch (error) {
+    console.error('Failed to compare sessions:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare sessions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+import { CrawlEventLevel, CrawlEventType } from '@/types';
+
+// Lowest to highest; ?level=warn returns warnings and errors
+const LEVELS: CrawlEventLevel[] = ['debug', 'info', 'warn', 'error'];
+const MAX_LIMIT = 1000;
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const db = getDatabase();
+
+    if (!db.getCrawlSession(params.id)) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const level = searchParams.get('level') as CrawlEventLevel | null;
+    if (level && !LEVELS.includes(level)) {
+      return NextResponse.json(
+        { error: `level must be one of ${LEVELS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const limit = Math.min(Number(searchParams.get('limit')) || 200, MAX_LIMIT);
+    const offset = Math.max(Number(searchParams.get('offset')) || 0, 0);
+
+    const events = db.getCrawlEvents(params.id, {
+      levels: level ? LEVELS.slice(LEVELS.indexOf(level)) : undefined,
+      type: (searchParams.get('type') as CrawlEventType | null) || undefined,
+      search: searchParams.get('search')?.trim() || undefined,
+      limit,
+      offset
+    });
+
+    return NextResponse.json({
+      events,
+      counts: db.getCrawlEventCounts(params.id),
+      hasMore: events.length === limit
+    });
+  } catch (error) {
+    console.error('Failed to fetch crawl events:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch crawl events' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const db = getDatabase();
+    const jobs = db.getJobsBySession(params.id);
+    
+    return NextResponse.json(jobs);
+  } catch (error) {
+    console.error('Failed to fetch session jobs:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch session jobs' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+import { JobScorer, scoreSessionJobs } from '@/lib/job-scoring';
+import { createOpenAIClient } from '@/lib/openai-client';
+import { getCredentialVault } from '@/lib/credential-vault';
+import { SkillProfile } from '@/types';
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { profile, rescore } = await request.json() as {
+      profile?: SkillProfile;
+      rescore?: boolean;
+    };
+
+    const openAIConfig = getCredentialVault().getOpenAIConfig();
+    if (!openAIConfig) {
+      return NextResponse.json(
+        { error: 'Save an OpenAI API key in Settings and unlock the credential vault to score jobs' },
+        { status: 400 }
+      );
+    }
+
+    if (!profile || !Array.isArray(profile.skills) || profile.skills.length === 0) {
+      return NextResponse.json(
+        { error: 'A skill profile with at least one skill is required' },
+        { status: 400 }
+      );
+    }
+
+    const session = getDatabase().getCrawlSession(params.id);
+    if (!session || session.mode !== 'jobs') {
+      return NextResponse.json(
+        { error: 'Jobs session not found' },
+        { status: 404 }
+      );
+    }
+
+    const scorer = new JobScorer(createOpenAIClient(openAIConfig.apiKey));
+    const result = await scoreSessionJobs(scorer, params.id, {
+      skills: profile.skills.map(skill => String(skill).trim()).filter(Boolean),
+      remoteOnly: Boolean(profile.remoteOnly),
+      notes: profile.notes
+    }, { rescore: Boolean(rescore) });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Failed to score session jobs:', error);
+    return NextResponse.json(
+      { error: 'Failed to score session jobs' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/lib/database';
+import { CrawlArtifactStore } from '@/lib/crawl-artifacts';
 
 interface RouteParams {
   params: {
@@ -33,6 +34,7 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
     const db = getDatabase();
     db.deleteCrawlSession(params.id);
+    CrawlArtifactStore.deleteSession(params.id);
     
     return NextResponse.json({ success: true });
   } catch (error) {
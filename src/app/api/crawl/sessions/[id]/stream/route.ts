@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+import { FINISHED_CRAWL_STATUSES, getRecentCrawlProgress, subscribeToCrawlProgress } from '@/lib/crawl-progress';
+import { CrawlProgressEvent } from '@/types';
+
+// Streams are opened per request and must never be cached
+export const dynamic = 'force-dynamic';
+
+// Comment lines sent while the crawl is quiet so proxies don't drop the connection
+const KEEP_ALIVE_MS = 15 * 1000;
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+// Server-Sent Events stream of a session's progress. It starts with the events published so far
+// and the session's current state, then sends each new event until the crawl finishes.
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const session = getDatabase().getCrawlSession(params.id);
+
+  if (!session) {
+    return NextResponse.json(
+      { error: 'Session not found' },
+      { status: 404 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+
+      const send = (event: CrawlProgressEvent) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        if (event.type === 'status' && event.status && FINISHED_CRAWL_STATUSES.includes(event.status)) {
+          cleanup();
+          controller.close();
+        }
+      };
+
+      const unsubscribe = subscribeToCrawlProgress(params.id, send);
+      const keepAlive = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(': keep-alive\n\n'));
+      }, KEEP_ALIVE_MS);
+
+      cleanup = () => {
+        closed = true;
+        unsubscribe();
+        clearInterval(keepAlive);
+      };
+      request.signal.addEventListener('abort', () => cleanup());
+
+      // Catch up on what the console missed, then confirm the state as it is now
+      getRecentCrawlProgress(params.id).forEach(send);
+      send({
+        type: 'status',
+        status: session.status,
+        progress: session.progress,
+        message: session.error || `Session is ${session.status.replace(/_/g, ' ')}`,
+        timestamp: new Date().toISOString()
+      });
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  });
+}
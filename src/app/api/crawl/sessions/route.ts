@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getDatabase } from '@/lib/database';
+import { getDatabase, normalizeAccountId } from '@/lib/database';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
     const db = getDatabase();
-    const sessions = db.getAllCrawlSessions();
+    // Optionally only the sessions of one account
+    const accountId = normalizeAccountId(request.nextUrl.searchParams.get('accountId') || '');
+    const sessions = db.getAllCrawlSessions(accountId || undefined);
     return NextResponse.json(sessions);
   } catch (error) {
     console.error('Failed to fetch crawl sessions:', error);
@@ -17,21 +19,54 @@ export async function GET() {
 
 export async function POST(request: NextRequest) {
   try {
-    const { mode } = await request.json();
+    const { mode, sourceSessionId, accountId: requestedAccountId } = await request.json();
     
-    if (!mode || !['first_connections', 'friends_of_friends'].includes(mode)) {
+    if (!mode || !['first_connections', 'friends_of_friends', 'jobs', 'profile_enrichment'].includes(mode)) {
       return NextResponse.json(
         { error: 'Invalid crawl mode' },
         { status: 400 }
       );
     }
 
+    const accountId = typeof requestedAccountId === 'string' ? normalizeAccountId(requestedAccountId) : '';
+    if (!accountId) {
+      return NextResponse.json(
+        { error: 'Account ID is required' },
+        { status: 400 }
+      );
+    }
+
     const db = getDatabase();
+    if (!db.getAccount(accountId)) {
+      return NextResponse.json(
+        { error: `Unknown account ${accountId}. Add it with the account switcher first.` },
+        { status: 400 }
+      );
+    }
+
+    // Jobs crawls search the companies found by an earlier session, and profile enrichment
+    // visits its connections
+    const usesSourceSession = mode === 'jobs' || mode === 'profile_enrichment';
+    if (usesSourceSession) {
+      const sourceSession = sourceSessionId ? db.getCrawlSession(sourceSessionId) : null;
+      if (!sourceSession || sourceSession.status !== 'completed' || sourceSession.mode === 'jobs' ||
+          sourceSession.mode === 'profile_enrichment' || sourceSession.accountId !== accountId) {
+        return NextResponse.json(
+          { error: mode === 'jobs'
+            ? 'Jobs crawls need a completed connections session to search'
+            : 'Profile enrichment needs a completed connections session to enrich' },
+          { status: 400 }
+        );
+      }
+    }
+
     const sessionId = db.createCrawlSession({
       mode,
       status: 'pending',
       progress: 0,
-      processedConnections: 0
+      processedConnections: 0,
+      sourceSessionId: usesSourceSession ? sourceSessionId : undefined,
+      accountId
     });
 
     return NextResponse.json({ sessionId });
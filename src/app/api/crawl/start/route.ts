@@ -1,18 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/lib/database';
-import { LinkedInCrawler } from '@/lib/linkedin-crawler';
-import { StorageManager } from '@/lib/storage';
-
-// Store active crawlers to manage them
-const activeCrawlers = new Map<string, LinkedInCrawler>();
+import { getCrawlQueue } from '@/lib/crawl-queue';
+import { getCredentialVault } from '@/lib/credential-vault';
+import { BrowserSessionStore } from '@/lib/session-store';
 
 export async function POST(request: NextRequest) {
   try {
-    const { sessionId, credentials } = await request.json();
+    const { sessionId, resume } = await request.json();
     
-    if (!sessionId || !credentials) {
+    if (!sessionId) {
       return NextResponse.json(
-        { error: 'Session ID and credentials are required' },
+        { error: 'Session ID is required' },
         { status: 400 }
       );
     }
@@ -27,87 +25,68 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (session.status === 'running') {
+    // A session is always crawled as the account it belongs to
+    const accountId = session.accountId;
+    if (!accountId) {
       return NextResponse.json(
-        { error: 'Session is already running' },
+        { error: 'Session has no account. Add a LinkedIn account in Settings first.' },
         { status: 400 }
       );
     }
 
-    // Get crawl settings
-    const settings = StorageManager.getCrawlSettings();
-    
-    // Create crawler
-    const crawler = new LinkedInCrawler(settings);
-    activeCrawlers.set(sessionId, crawler);
-
-    // Start crawl in the background
-    startCrawlProcess(sessionId, session.mode as 'first_connections' | 'friends_of_friends', credentials, crawler);
-    
-    return NextResponse.json({ success: true });
-  } catch (error) {
-    console.error('Failed to start crawl:', error);
-    return NextResponse.json(
-      { error: 'Failed to start crawl' },
-      { status: 500 }
-    );
-  }
-}
-
-async function startCrawlProcess(
-  sessionId: string, 
-  mode: 'first_connections' | 'friends_of_friends', 
-  credentials: { email: string; password: string }, 
-  crawler: LinkedInCrawler
-) {
-  const db = getDatabase();
-  
-  try {
-    // Update session to running
-    db.updateCrawlSession(sessionId, { status: 'running', progress: 0 });
+    const queue = getCrawlQueue();
+    if (queue.isQueued(sessionId) || ['running', 'waiting_for_user', 'paused'].includes(session.status)) {
+      return NextResponse.json(
+        { error: 'Session is already queued or running' },
+        { status: 400 }
+      );
+    }
 
-    // Initialize crawler
-    await crawler.initialize();
-    
-    // Login to LinkedIn
-    const loginSuccess = await crawler.login(credentials);
-    if (!loginSuccess) {
-      throw new Error('LinkedIn login failed');
+    if (session.mode === 'data_export') {
+      return NextResponse.json(
+        { error: 'Data export sessions are imported, not crawled' },
+        { status: 400 }
+      );
     }
 
-    db.updateCrawlSession(sessionId, { progress: 5 });
+    // Jobs and enrichment crawls work from another session's results
+    if ((session.mode === 'jobs' || session.mode === 'profile_enrichment') && !session.sourceSessionId) {
+      return NextResponse.json(
+        { error: 'Session has no source session to crawl from' },
+        { status: 400 }
+      );
+    }
 
-    // Progress callback
-    const onProgress = (progress: number) => {
-      db.updateCrawlSession(sessionId, { progress: Math.round(progress) });
-    };
+    if (resume && session.status === 'completed') {
+      return NextResponse.json(
+        { error: 'Session has already completed' },
+        { status: 400 }
+      );
+    }
 
-    // Start appropriate crawl
-    if (mode === 'first_connections') {
-      await crawler.crawlFirstDegreeConnections(sessionId, onProgress);
-    } else {
-      await crawler.crawlFriendsOfFriends(sessionId, onProgress);
+    // The crawl logs in with the saved browser session or the vault's password for the account
+    if (!BrowserSessionStore.hasStoredSession(accountId) && !getCredentialVault().getCredentials(accountId)) {
+      return NextResponse.json(
+        { error: getCredentialVault().isUnlocked()
+          ? `No LinkedIn password saved for ${accountId}`
+          : 'The credential vault is locked. Unlock it in Settings to log in to LinkedIn.' },
+        { status: 400 }
+      );
     }
 
-    // Mark as completed
-    db.updateCrawlSession(sessionId, { 
-      status: 'completed', 
-      progress: 100 
-    });
+    // The account's settings saved through /api/settings; the session records a copy when it starts
+    const settings = db.getCrawlSettings(accountId);
 
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    console.error(`Crawl failed for session ${sessionId}:`, errorMessage);
-    console.error('Full error object:', error);
+    // The queue starts the crawl once no other crawl is using this account's browser
+    queue.enqueue(session, accountId, settings, Boolean(resume));
     
-    db.updateCrawlSession(sessionId, { 
-      status: 'failed', 
-      error: errorMessage
-    });
-  } finally {
-    // Clean up
-    await crawler.close();
-    activeCrawlers.delete(sessionId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to start crawl:', error);
+    return NextResponse.json(
+      { error: 'Failed to start crawl' },
+      { status: 500 }
+    );
   }
 }
 
@@ -122,18 +101,7 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    const crawler = activeCrawlers.get(sessionId);
-    if (crawler) {
-      await crawler.close();
-      activeCrawlers.delete(sessionId);
-      
-      // Update session status
-      const db = getDatabase();
-      db.updateCrawlSession(sessionId, { 
-        status: 'failed', 
-        error: 'Cancelled by user'
-      });
-    }
+    getCrawlQueue().cancel(sessionId);
     
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { LinkedInCrawler } from '@/lib/linkedin-crawler';
+import { FIXTURE_PAGE_TYPES } from '@/lib/fixtures';
+
+// Runs the extractors against saved fixtures with no network access, to check selector
+// changes without logging into LinkedIn
+export async function POST(request: NextRequest) {
+  const crawler = new LinkedInCrawler({ rateLimit: 0, headless: true });
+
+  try {
+    const { pageType, files } = await request.json();
+
+    if (!FIXTURE_PAGE_TYPES.includes(pageType) || !Array.isArray(files) || files.length === 0) {
+      return NextResponse.json(
+        { error: 'A valid page type and list of fixture files are required' },
+        { status: 400 }
+      );
+    }
+
+    await crawler.initializeReplay();
+
+    const results = [];
+    for (const file of files) {
+      try {
+        results.push({ file, result: await crawler.replayFixture(pageType, file) });
+      } catch (error) {
+        results.push({ file, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    return NextResponse.json({ results, selectorHits: crawler.getSelectorHits() });
+  } catch (error) {
+    console.error('Failed to replay fixtures:', error);
+    return NextResponse.json(
+      { error: 'Failed to replay fixtures' },
+      { status: 500 }
+    );
+  } finally {
+    await crawler.close();
+  }
+}
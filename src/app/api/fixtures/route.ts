@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FixtureStore, FIXTURE_PAGE_TYPES } from '@/lib/fixtures';
+import { FixturePageType } from '@/types';
+
+export async function GET(request: NextRequest) {
+  try {
+    const pageType = request.nextUrl.searchParams.get('pageType') as FixturePageType | null;
+
+    if (pageType && !FIXTURE_PAGE_TYPES.includes(pageType)) {
+      return NextResponse.json(
+        { error: 'Invalid page type' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(FixtureStore.list(pageType || undefined));
+  } catch (error) {
+    console.error('Failed to list fixtures:', error);
+    return NextResponse.json(
+      { error: 'Failed to list fixtures' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase, normalizeAccountId } from '@/lib/database';
+import { normalizeCrawlSettings } from '@/lib/crawl-settings';
+
+// Each account has its own crawl settings, picked with ?accountId=
+export async function GET(request: NextRequest) {
+  try {
+    const accountId = normalizeAccountId(request.nextUrl.searchParams.get('accountId') || '');
+    if (!accountId) {
+      return NextResponse.json(
+        { error: 'Account ID is required' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(getDatabase().getCrawlSettings(accountId));
+  } catch (error) {
+    console.error('Failed to fetch settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch settings' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const accountId = normalizeAccountId(request.nextUrl.searchParams.get('accountId') || '');
+    if (!accountId) {
+      return NextResponse.json(
+        { error: 'Account ID is required' },
+        { status: 400 }
+      );
+    }
+
+    let settings;
+    try {
+      settings = normalizeCrawlSettings(await request.json());
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid settings' },
+        { status: 400 }
+      );
+    }
+
+    getDatabase().saveCrawlSettings(accountId, settings);
+    return NextResponse.json(settings);
+  } catch (error) {
+    console.error('Failed to save settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to save settings' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+import { getCredentialVault, CredentialVaultLockedError } from '@/lib/credential-vault';
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { email, password } = await request.json();
+
+    if (typeof email !== 'string' || !email.trim() || typeof password !== 'string' || !password) {
+      return NextResponse.json(
+        { error: 'Email and password are required' },
+        { status: 400 }
+      );
+    }
+
+    const vault = getCredentialVault();
+    vault.saveCredentials({ email, password });
+    getDatabase().saveAccount({ id: email });
+    return NextResponse.json(vault.getStatus());
+  } catch (error) {
+    if (error instanceof CredentialVaultLockedError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 423 }
+      );
+    }
+    console.error('Failed to save credentials:', error);
+    return NextResponse.json(
+      { error: 'Failed to save credentials' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { accountId } = await request.json();
+
+    if (!accountId) {
+      return NextResponse.json(
+        { error: 'Account ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const vault = getCredentialVault();
+    vault.removeCredentials(accountId);
+    return NextResponse.json(vault.getStatus());
+  } catch (error) {
+    if (error instanceof CredentialVaultLockedError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 423 }
+      );
+    }
+    console.error('Failed to remove credentials:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove credentials' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { getCredentialVault } from '@/lib/credential-vault';
+
+// Forgets the key and secrets. Running crawls keep the session they already logged in with.
+export async function POST() {
+  try {
+    const vault = getCredentialVault();
+    vault.lock();
+    return NextResponse.json(vault.getStatus());
+  } catch (error) {
+    console.error('Failed to lock credential vault:', error);
+    return NextResponse.json(
+      { error: 'Failed to lock credential vault' },
+      { status: 500 }
+    );
+  }
+}
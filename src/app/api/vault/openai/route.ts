@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCredentialVault, CredentialVaultLockedError } from '@/lib/credential-vault';
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { apiKey } = await request.json();
+
+    if (typeof apiKey !== 'string' || !apiKey.trim()) {
+      return NextResponse.json(
+        { error: 'API key is required' },
+        { status: 400 }
+      );
+    }
+
+    const vault = getCredentialVault();
+    vault.saveOpenAIConfig({ apiKey: apiKey.trim() });
+    return NextResponse.json(vault.getStatus());
+  } catch (error) {
+    if (error instanceof CredentialVaultLockedError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 423 }
+      );
+    }
+    console.error('Failed to save OpenAI API key:', error);
+    return NextResponse.json(
+      { error: 'Failed to save OpenAI API key' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE() {
+  try {
+    const vault = getCredentialVault();
+    vault.saveOpenAIConfig(null);
+    return NextResponse.json(vault.getStatus());
+  } catch (error) {
+    if (error instanceof CredentialVaultLockedError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 423 }
+      );
+    }
+    console.error('Failed to remove OpenAI API key:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove OpenAI API key' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { getCredentialVault } from '@/lib/credential-vault';
+
+// The lock state lives in server memory, so the status must never be prerendered or cached
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    return NextResponse.json(getCredentialVault().getStatus());
+  } catch (error) {
+    console.error('Failed to read credential vault:', error);
+    return NextResponse.json(
+      { error: 'Failed to read credential vault' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+import { getCredentialVault, IncorrectPassphraseError, MIN_PASSPHRASE_LENGTH } from '@/lib/credential-vault';
+
+// Unlocks the vault, or creates it with this passphrase the first time
+export async function POST(request: NextRequest) {
+  try {
+    const { passphrase } = await request.json();
+    const vault = getCredentialVault();
+
+    if (typeof passphrase !== 'string' || !passphrase) {
+      return NextResponse.json(
+        { error: 'Passphrase is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!vault.exists() && passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      return NextResponse.json(
+        { error: `The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    try {
+      await vault.unlock(passphrase);
+    } catch (error) {
+      if (error instanceof IncorrectPassphraseError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 401 }
+        );
+      }
+      throw error;
+    }
+
+    // Every account with a password in the vault is an account of this workspace too
+    const status = vault.getStatus();
+    for (const accountId of status.accounts) {
+      getDatabase().saveAccount({ id: accountId });
+    }
+
+    return NextResponse.json(status);
+  } catch (error) {
+    console.error('Failed to unlock credential vault:', error);
+    return NextResponse.json(
+      { error: 'Failed to unlock credential vault' },
+      { status: 500 }
+    );
+  }
+}
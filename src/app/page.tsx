@@ -1,41 +1,75 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { LinkedInCredentials, OpenAIConfig, CrawlSession } from '@/types';
+import { Account, CredentialVaultStatus, CrawlSession } from '@/types';
 import AuthManager from '@/components/auth/AuthManager';
+import AccountSwitcher from '@/components/auth/AccountSwitcher';
 import CrawlHistory from '@/components/crawl/CrawlHistory';
 import ConnectionsList from '@/components/connections/ConnectionsList';
+import SessionDiff from '@/components/connections/SessionDiff';
+import JobsList from '@/components/jobs/JobsList';
 import CrawlSettings from '@/components/crawl/CrawlSettings';
+import CrawlSchedules from '@/components/crawl/CrawlSchedules';
+import SkillProfileSettings from '@/components/jobs/SkillProfileSettings';
 import { Network, Settings } from 'lucide-react';
 import { StorageManager } from '@/lib/storage';
 
 export default function Home() {
-  const [credentials, setCredentials] = useState<LinkedInCredentials | null>(null);
-  const [, setOpenAIConfig] = useState<OpenAIConfig | null>(null);
+  const [vaultStatus, setVaultStatus] = useState<CredentialVaultStatus | null>(null);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [workspace, setWorkspace] = useState<string | null>(null);
+  const [activeAccountId, setActiveAccountId] = useState<string | null>(null);
   const [selectedSession, setSelectedSession] = useState<CrawlSession | null>(null);
   const [activeTab, setActiveTab] = useState<'connections' | 'settings'>('connections');
+  const [resultsView, setResultsView] = useState<'connections' | 'changes'>('connections');
   const [isLoaded, setIsLoaded] = useState(false);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
 
-  // Load credentials from localStorage on mount
-  useEffect(() => {
-    const storedCredentials = StorageManager.getLinkedInCredentials();
-    const storedOpenAI = StorageManager.getOpenAIConfig();
-    
-    if (storedCredentials) {
-      setCredentials(storedCredentials);
-    }
-    
-    if (storedOpenAI) {
-      setOpenAIConfig(storedOpenAI);
+  const fetchAccounts = async () => {
+    try {
+      const response = await fetch('/api/accounts');
+      if (response.ok) {
+        const data = await response.json();
+        setAccounts(data.accounts);
+        setWorkspace(data.workspace);
+      }
+    } catch (error) {
+      console.error('Failed to load accounts:', error);
     }
-    
-    setIsLoaded(true);
+  };
+
+  // Load the vault status, the accounts and the account picked in the header on mount
+  useEffect(() => {
+    setActiveAccountId(StorageManager.getActiveAccountId());
+
+    const fetchVaultStatus = fetch('/api/vault')
+      .then(response => response.ok ? response.json() : null)
+      .then((status: CredentialVaultStatus | null) => setVaultStatus(status))
+      .catch(error => console.error('Failed to load credential vault status:', error));
+
+    Promise.all([fetchVaultStatus, fetchAccounts()]).finally(() => setIsLoaded(true));
   }, []);
 
-  const handleStartCrawl = async (mode: 'first_connections' | 'friends_of_friends') => {
-    if (!credentials) {
-      alert('Please configure your LinkedIn credentials first.');
+  // Saving a password can add an account, so reload them with the new vault status
+  const handleVaultStatusChange = (status: CredentialVaultStatus) => {
+    setVaultStatus(status);
+    fetchAccounts();
+  };
+
+  const handleActiveAccountChange = (accountId: string) => {
+    StorageManager.saveActiveAccountId(accountId);
+    setActiveAccountId(accountId);
+    setSelectedSession(null);
+  };
+
+  // Falls back to the first account when none was picked yet
+  const accountId = activeAccountId && accounts.some(account => account.id === activeAccountId)
+    ? activeAccountId
+    : accounts[0]?.id ?? null;
+
+  const handleStartCrawl = async (mode: 'first_connections' | 'friends_of_friends' | 'jobs' | 'profile_enrichment', sourceSessionId?: string) => {
+    if (!accountId) {
+      alert('Please add a LinkedIn account first.');
       return;
     }
 
@@ -44,11 +78,12 @@ export default function Home() {
       const createResponse = await fetch('/api/crawl/sessions', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ mode }),
+        body: JSON.stringify({ mode, sourceSessionId, accountId }),
       });
 
       if (!createResponse.ok) {
-        throw new Error('Failed to create crawl session');
+        const { error } = await createResponse.json();
+        throw new Error(error || 'Failed to create crawl session');
       }
 
       const { sessionId } = await createResponse.json();
@@ -57,11 +92,12 @@ export default function Home() {
       const startResponse = await fetch('/api/crawl/start', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ sessionId, credentials }),
+        body: JSON.stringify({ sessionId }),
       });
 
       if (!startResponse.ok) {
-        throw new Error('Failed to start crawl');
+        const { error } = await startResponse.json();
+        throw new Error(error || 'Failed to start crawl');
       }
 
       // Trigger refresh of sessions list
@@ -72,15 +108,68 @@ export default function Home() {
     }
   };
 
+  const handleResumeCrawl = async (sessionId: string) => {
+    try {
+      const resumeResponse = await fetch('/api/crawl/start', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId, resume: true }),
+      });
+
+      if (!resumeResponse.ok) {
+        const { error } = await resumeResponse.json();
+        throw new Error(error || 'Failed to resume crawl');
+      }
+
+      setRefreshTrigger(prev => prev + 1);
+    } catch (error) {
+      console.error('Error resuming crawl:', error);
+      alert(`Failed to resume crawl: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleImportExport = async (file: File) => {
+    if (!accountId) {
+      alert('Please add a LinkedIn account first.');
+      return;
+    }
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('accountId', accountId);
+
+      const importResponse = await fetch('/api/crawl/import', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!importResponse.ok) {
+        const { error } = await importResponse.json();
+        throw new Error(error || 'Failed to import LinkedIn data export');
+      }
+
+      const { importedConnections } = await importResponse.json();
+      alert(`Imported ${importedConnections} connections from the LinkedIn data export.`);
+      setRefreshTrigger(prev => prev + 1);
+    } catch (error) {
+      console.error('Error importing LinkedIn data export:', error);
+      alert(`Failed to import: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
   const handleDeleteSession = (sessionId: string) => {
     if (selectedSession?.id === sessionId) {
       setSelectedSession(null);
     }
   };
 
-  const isConfigured = isLoaded && credentials && credentials.email && credentials.password;
+  // Jobs and enrichment sessions don't hold their own connections to compare
+  const canCompare = selectedSession !== null && ['first_connections', 'friends_of_friends', 'data_export'].includes(selectedSession.mode);
+
+  const isConfigured = accountId !== null;
 
-  // Show loading state while checking localStorage
+  // Show loading state while checking the credential vault
   if (!isLoaded) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -99,6 +188,13 @@ export default function Home() {
               <h1 className="text-xl font-semibold text-gray-900">LinkedIn Job Connection Finder</h1>
             </div>
             <div className="flex items-center gap-2">
+              <AccountSwitcher
+                accounts={accounts}
+                activeAccountId={accountId}
+                workspace={workspace}
+                onSwitch={handleActiveAccountChange}
+                onAccountsChange={setAccounts}
+              />
               <button
                 onClick={() => setActiveTab('connections')}
                 className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
@@ -128,11 +224,22 @@ export default function Home() {
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {activeTab === 'settings' ? (
           <div className="space-y-8">
-            <AuthManager
-              onCredentialsChange={setCredentials}
-              onOpenAIConfigChange={setOpenAIConfig}
-            />
-            <CrawlSettings />
+            {vaultStatus && (
+              <AuthManager
+                vaultStatus={vaultStatus}
+                accounts={accounts}
+                onVaultStatusChange={handleVaultStatusChange}
+                onAccountsChange={setAccounts}
+                onActiveAccountChange={handleActiveAccountChange}
+              />
+            )}
+            {/* Crawl settings and the skill profile belong to the account picked in the header */}
+            {accountId && (
+              <>
+                <CrawlSettings accountId={accountId} />
+                <SkillProfileSettings accountId={accountId} />
+              </>
+            )}
           </div>
         ) : (
           // Connections tab
@@ -145,7 +252,7 @@ export default function Home() {
                   </div>
                   <h3 className="text-lg font-medium text-gray-900 mb-2">Configuration Required</h3>
                   <p className="text-gray-600 mb-4">
-                    Please configure your LinkedIn credentials in the Settings tab before starting a crawl.
+                    Please add a LinkedIn account with its password in the Settings tab before starting a crawl.
                   </p>
                   <button
                     onClick={() => setActiveTab('settings')}
@@ -158,17 +265,46 @@ export default function Home() {
               </div>
             ) : (
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-                <div>
+                <div className="space-y-8">
                   <CrawlHistory
+                    accountId={accountId}
                     onSelectSession={setSelectedSession}
                     onDeleteSession={handleDeleteSession}
                     onStartNewCrawl={handleStartCrawl}
+                    onResumeCrawl={handleResumeCrawl}
+                    onImportExport={handleImportExport}
+                    onFindJobs={(sourceSessionId) => handleStartCrawl('jobs', sourceSessionId)}
+                    onEnrichProfiles={(sourceSessionId) => handleStartCrawl('profile_enrichment', sourceSessionId)}
                     selectedSessionId={selectedSession?.id}
                     refreshTrigger={refreshTrigger}
                   />
+                  <CrawlSchedules accountId={accountId} refreshTrigger={refreshTrigger} />
                 </div>
                 <div>
-                  <ConnectionsList selectedSession={selectedSession} />
+                  {canCompare && (
+                    <div className="flex items-center gap-2 mb-4">
+                      {(['connections', 'changes'] as const).map(view => (
+                        <button
+                          key={view}
+                          onClick={() => setResultsView(view)}
+                          className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                            resultsView === view
+                              ? 'bg-blue-100 text-blue-700'
+                              : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'
+                          }`}
+                        >
+                          {view === 'connections' ? 'Connections' : 'Changes'}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {selectedSession?.mode === 'jobs' ? (
+                    <JobsList selectedSession={selectedSession} hasOpenAIKey={vaultStatus?.hasOpenAIKey ?? false} />
+                  ) : canCompare && selectedSession && resultsView === 'changes' ? (
+                    <SessionDiff selectedSession={selectedSession} />
+                  ) : (
+                    <ConnectionsList selectedSession={selectedSession} />
+                  )}
                 </div>
               </div>
             )}
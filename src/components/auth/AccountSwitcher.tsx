@@ -0,0 +1,69 @@
+'use client';
+
+import { UserCircle } from 'lucide-react';
+import { Account } from '@/types';
+
+interface AccountSwitcherProps {
+  accounts: Account[];
+  activeAccountId: string | null;
+  workspace: string | null;
+  onSwitch: (accountId: string) => void;
+  onAccountsChange: (accounts: Account[]) => void;
+}
+
+const ADD_ACCOUNT = '__add__';
+
+const accountLabel = (account: Account) => account.name ? `${account.name} (${account.id})` : account.id;
+
+// Header dropdown picking whose sessions, schedules and settings the dashboard shows
+export default function AccountSwitcher({ accounts, activeAccountId, workspace, onSwitch, onAccountsChange }: AccountSwitcherProps) {
+  // Accounts can be added without a password, e.g. to import someone's LinkedIn data export
+  const handleAddAccount = async () => {
+    const email = prompt('LinkedIn email of the account to add');
+    if (!email?.trim()) return;
+
+    try {
+      const response = await fetch('/api/accounts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: email }),
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error || 'Failed to add account');
+      }
+
+      const { accounts: updated } = await response.json();
+      onAccountsChange(updated);
+      onSwitch(email.trim().toLowerCase());
+    } catch (error) {
+      console.error('Failed to add account:', error);
+      alert(`Failed to add account: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {workspace && (
+        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700" title="Workspace (WORKSPACE environment variable)">
+          {workspace}
+        </span>
+      )}
+      <UserCircle className="h-5 w-5 text-gray-400" />
+      <label htmlFor="account-switcher" className="sr-only">Account</label>
+      <select
+        id="account-switcher"
+        value={activeAccountId ?? ''}
+        onChange={(e) => e.target.value === ADD_ACCOUNT ? handleAddAccount() : onSwitch(e.target.value)}
+        className="max-w-xs px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+      >
+        {accounts.length === 0 && <option value="">No accounts</option>}
+        {accounts.map(account => (
+          <option key={account.id} value={account.id}>{accountLabel(account)}</option>
+        ))}
+        <option value={ADD_ACCOUNT}>+ Add account…</option>
+      </select>
+    </div>
+  );
+}
@@ -1,83 +1,227 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { Eye, EyeOff, Key, User, Lock, ExternalLink } from 'lucide-react';
-import { LinkedInCredentials, OpenAIConfig } from '@/types';
+import { useState } from 'react';
+import { Eye, EyeOff, Key, User, Lock, Unlock, ExternalLink, Trash2, Pencil } from 'lucide-react';
+import { Account, CredentialVaultStatus } from '@/types';
 import { StorageManager } from '@/lib/storage';
 
 interface AuthManagerProps {
-  onCredentialsChange: (credentials: LinkedInCredentials | null) => void;
-  onOpenAIConfigChange: (config: OpenAIConfig | null) => void;
+  vaultStatus: CredentialVaultStatus;
+  accounts: Account[];
+  onVaultStatusChange: (status: CredentialVaultStatus) => void;
+  onAccountsChange: (accounts: Account[]) => void;
+  onActiveAccountChange: (accountId: string) => void;
 }
 
-export default function AuthManager({ onCredentialsChange, onOpenAIConfigChange }: AuthManagerProps) {
-  const [credentials, setCredentials] = useState<LinkedInCredentials>({ email: '', password: '' });
-  const [openAIConfig, setOpenAIConfig] = useState<OpenAIConfig>({ apiKey: '' });
+export default function AuthManager({ vaultStatus, accounts, onVaultStatusChange, onAccountsChange, onActiveAccountChange }: AuthManagerProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [credentials, setCredentials] = useState({ email: '', password: '' });
+  const [apiKey, setApiKey] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [showApiKey, setShowApiKey] = useState(false);
-  const [isLoaded, setIsLoaded] = useState(false);
-
-  useEffect(() => {
-    // Load stored credentials on component mount
-    const storedCredentials = StorageManager.getLinkedInCredentials();
-    const storedOpenAI = StorageManager.getOpenAIConfig();
-    
-    if (storedCredentials) {
-      setCredentials(storedCredentials);
-      onCredentialsChange(storedCredentials);
+  const [isBusy, setIsBusy] = useState(false);
+
+  // Sends a vault request and takes the status it returns; failures are shown as alerts
+  const updateVault = async (url: string, method: string, body?: object): Promise<CredentialVaultStatus | null> => {
+    setIsBusy(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error || 'Credential vault request failed');
+      }
+
+      const status: CredentialVaultStatus = await response.json();
+      onVaultStatusChange(status);
+      return status;
+    } catch (error) {
+      console.error('Credential vault request failed:', error);
+      alert(error instanceof Error ? error.message : 'Credential vault request failed');
+      return null;
+    } finally {
+      setIsBusy(false);
     }
-    
-    if (storedOpenAI) {
-      setOpenAIConfig(storedOpenAI);
-      onOpenAIConfigChange(storedOpenAI);
+  };
+
+  // Credentials saved by earlier versions sit in plain text in localStorage. Move them into
+  // the vault and delete them from the browser.
+  const moveLegacySecrets = async () => {
+    const legacyCredentials = StorageManager.getLinkedInCredentials();
+    if (legacyCredentials?.email && legacyCredentials.password) {
+      const status = await updateVault('/api/vault/credentials', 'PUT', legacyCredentials);
+      if (status) {
+        StorageManager.removeLinkedInCredentials();
+        onActiveAccountChange(legacyCredentials.email.trim().toLowerCase());
+      }
     }
-    
-    setIsLoaded(true);
-  }, [onCredentialsChange, onOpenAIConfigChange]);
 
-  const handleLinkedInSubmit = (e: React.FormEvent) => {
+    const legacyOpenAI = StorageManager.getOpenAIConfig();
+    if (legacyOpenAI?.apiKey && await updateVault('/api/vault/openai', 'PUT', legacyOpenAI)) {
+      StorageManager.removeOpenAIConfig();
+    }
+  };
+
+  const handleUnlock = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (credentials.email && credentials.password) {
-      StorageManager.saveLinkedInCredentials(credentials);
-      onCredentialsChange(credentials);
+    if (!vaultStatus.exists && passphrase !== confirmPassphrase) {
+      alert('The passphrases do not match.');
+      return;
+    }
+
+    if (await updateVault('/api/vault/unlock', 'POST', { passphrase })) {
+      setPassphrase('');
+      setConfirmPassphrase('');
+      await moveLegacySecrets();
     }
   };
 
-  const handleOpenAISubmit = (e: React.FormEvent) => {
+  const handleLock = () => updateVault('/api/vault/lock', 'POST');
+
+  const handleLinkedInSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (openAIConfig.apiKey) {
-      StorageManager.saveOpenAIConfig(openAIConfig);
-      onOpenAIConfigChange(openAIConfig);
+    if (credentials.email && credentials.password && await updateVault('/api/vault/credentials', 'PUT', credentials)) {
+      onActiveAccountChange(credentials.email.trim().toLowerCase());
+      // The password is never shown again once it's in the vault
+      setCredentials({ email: '', password: '' });
     }
   };
 
-  const handleClearCredentials = () => {
-    StorageManager.removeLinkedInCredentials();
-    setCredentials({ email: '', password: '' });
-    onCredentialsChange(null);
+  const handleRemoveAccount = (accountId: string) => {
+    if (confirm(`Remove the saved password for ${accountId}?`)) {
+      updateVault('/api/vault/credentials', 'DELETE', { accountId });
+    }
+  };
+
+  const nameOf = (accountId: string) => accounts.find(account => account.id === accountId)?.name;
+
+  // The display name replaces "You" in this account's connection paths
+  const handleRenameAccount = async (accountId: string) => {
+    const name = prompt(`Display name for ${accountId} (leave empty to show the email)`, nameOf(accountId) ?? '');
+    if (name === null) return;
+
+    try {
+      const response = await fetch(`/api/accounts/${encodeURIComponent(accountId)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error || 'Failed to rename account');
+      }
+
+      const { accounts: updated } = await response.json();
+      onAccountsChange(updated);
+    } catch (error) {
+      console.error('Failed to rename account:', error);
+      alert(`Failed to rename account: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   };
 
-  const handleClearOpenAI = () => {
-    StorageManager.removeOpenAIConfig();
-    setOpenAIConfig({ apiKey: '' });
-    onOpenAIConfigChange(null);
+  const handleOpenAISubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (apiKey && await updateVault('/api/vault/openai', 'PUT', { apiKey })) {
+      setApiKey('');
+    }
   };
 
-  const isLinkedInConfigured = credentials.email && credentials.password;
-  const isOpenAIConfigured = openAIConfig.apiKey;
+  const handleClearOpenAI = () => updateVault('/api/vault/openai', 'DELETE');
 
-  if (!isLoaded) {
-    return <div className="animate-pulse bg-gray-200 h-64 rounded-lg"></div>;
-  }
+  const isLocked = !vaultStatus.unlocked;
 
   return (
     <div className="space-y-6">
+      {/* Credential Vault */}
+      <div className="bg-white rounded-lg border shadow-sm p-6">
+        <div className="flex items-center gap-2 mb-4">
+          {isLocked ? <Lock className="h-5 w-5 text-gray-600" /> : <Unlock className="h-5 w-5 text-green-600" />}
+          <h2 className="text-lg font-semibold">Credential Vault</h2>
+          <div className="ml-auto">
+            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+              isLocked ? 'bg-gray-100 text-gray-800' : 'bg-green-100 text-green-800'
+            }`}>
+              {!vaultStatus.exists ? 'Not set up' : isLocked ? 'Locked' : 'Unlocked'}
+            </span>
+          </div>
+        </div>
+
+        <div className="mb-4 p-4 bg-blue-50 rounded-lg border border-blue-200">
+          <div className="flex items-start gap-2">
+            <Lock className="h-4 w-4 text-blue-600 mt-0.5 flex-shrink-0" />
+            <div className="text-sm text-blue-800">
+              <p className="font-medium mb-1">Your credentials are encrypted on this computer</p>
+              <p>
+                LinkedIn passwords and your OpenAI key are stored in data/credential-vault.json, encrypted with your
+                passphrase. The app server only holds them in memory while the vault is unlocked, and they are never
+                sent back to the browser. The passphrase can&apos;t be recovered, so keep it somewhere safe.
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {isLocked ? (
+          <form onSubmit={handleUnlock} className="space-y-4">
+            <div>
+              <label htmlFor="vault-passphrase" className="block text-sm font-medium text-gray-700 mb-1">
+                {vaultStatus.exists ? 'Passphrase' : 'Choose a passphrase (at least 8 characters)'}
+              </label>
+              <input
+                type="password"
+                id="vault-passphrase"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                required
+              />
+            </div>
+            {!vaultStatus.exists && (
+              <div>
+                <label htmlFor="vault-passphrase-confirm" className="block text-sm font-medium text-gray-700 mb-1">
+                  Confirm passphrase
+                </label>
+                <input
+                  type="password"
+                  id="vault-passphrase-confirm"
+                  value={confirmPassphrase}
+                  onChange={(e) => setConfirmPassphrase(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  required
+                />
+              </div>
+            )}
+            <button
+              type="submit"
+              disabled={isBusy}
+              className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors disabled:opacity-50"
+            >
+              {vaultStatus.exists ? 'Unlock Vault' : 'Create Vault'}
+            </button>
+          </form>
+        ) : (
+          <button
+            onClick={handleLock}
+            disabled={isBusy}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors disabled:opacity-50"
+          >
+            <Lock className="h-4 w-4" />
+            Lock Vault
+          </button>
+        )}
+      </div>
+
       {/* LinkedIn Credentials */}
       <div className="bg-white rounded-lg border shadow-sm p-6">
         <div className="flex items-center gap-2 mb-4">
           <User className="h-5 w-5 text-blue-600" />
           <h2 className="text-lg font-semibold">LinkedIn Credentials</h2>
-          {isLinkedInConfigured && (
+          {vaultStatus.accounts.length > 0 && (
             <div className="ml-auto">
               <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
                 Configured
@@ -85,79 +229,93 @@ export default function AuthManager({ onCredentialsChange, onOpenAIConfigChange
             </div>
           )}
         </div>
-        
-        <div className="mb-4 p-4 bg-blue-50 rounded-lg border border-blue-200">
-          <div className="flex items-start gap-2">
-            <Lock className="h-4 w-4 text-blue-600 mt-0.5 flex-shrink-0" />
-            <div className="text-sm text-blue-800">
-              <p className="font-medium mb-1">Your credentials are stored securely</p>
-              <p>LinkedIn credentials are encrypted and stored locally on your device only. They are never sent to external servers except for direct LinkedIn authentication.</p>
-            </div>
-          </div>
-        </div>
 
-        <form onSubmit={handleLinkedInSubmit} className="space-y-4">
-          <div>
-            <label htmlFor="linkedin-email" className="block text-sm font-medium text-gray-700 mb-1">
-              LinkedIn Email
-            </label>
-            <input
-              type="email"
-              id="linkedin-email"
-              value={credentials.email}
-              onChange={(e) => setCredentials(prev => ({ ...prev, email: e.target.value }))}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-              placeholder="your.email@example.com"
-              required
-            />
-          </div>
-          
-          <div>
-            <label htmlFor="linkedin-password" className="block text-sm font-medium text-gray-700 mb-1">
-              LinkedIn Password
-            </label>
-            <div className="relative">
+        {vaultStatus.accounts.length > 0 && (
+          <ul className="mb-4 divide-y border rounded-md">
+            {vaultStatus.accounts.map(accountId => (
+              <li key={accountId} className="flex items-center gap-3 px-3 py-2 text-sm">
+                <div className="flex-1 min-w-0 text-gray-900">
+                  {nameOf(accountId) && <span className="font-medium mr-2">{nameOf(accountId)}</span>}
+                  <span className="text-gray-600">{accountId}</span>
+                </div>
+                <button
+                  onClick={() => handleRenameAccount(accountId)}
+                  className="p-1 text-gray-400 hover:text-blue-600 focus:outline-none focus:text-blue-600 transition-colors"
+                  title="Change display name"
+                >
+                  <Pencil className="h-4 w-4" />
+                </button>
+                {!isLocked && (
+                  <button
+                    onClick={() => handleRemoveAccount(accountId)}
+                    disabled={isBusy}
+                    className="p-1 text-gray-400 hover:text-red-600 focus:outline-none focus:text-red-600 transition-colors"
+                    title="Remove saved password"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {isLocked ? (
+          <p className="text-sm text-gray-600">Unlock the vault to add an account or change a password.</p>
+        ) : (
+          <form onSubmit={handleLinkedInSubmit} className="space-y-4">
+            <div>
+              <label htmlFor="linkedin-email" className="block text-sm font-medium text-gray-700 mb-1">
+                LinkedIn Email
+              </label>
               <input
-                type={showPassword ? 'text' : 'password'}
-                id="linkedin-password"
-                value={credentials.password}
-                onChange={(e) => setCredentials(prev => ({ ...prev, password: e.target.value }))}
-                className="w-full px-3 py-2 pr-10 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                placeholder="Your LinkedIn password"
+                type="email"
+                id="linkedin-email"
+                value={credentials.email}
+                onChange={(e) => setCredentials(prev => ({ ...prev, email: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="your.email@example.com"
                 required
               />
-              <button
-                type="button"
-                className="absolute inset-y-0 right-0 pr-3 flex items-center"
-                onClick={() => setShowPassword(!showPassword)}
-              >
-                {showPassword ? (
-                  <EyeOff className="h-4 w-4 text-gray-400" />
-                ) : (
-                  <Eye className="h-4 w-4 text-gray-400" />
-                )}
-              </button>
             </div>
-          </div>
 
-          <div className="flex gap-3">
+            <div>
+              <label htmlFor="linkedin-password" className="block text-sm font-medium text-gray-700 mb-1">
+                LinkedIn Password
+              </label>
+              <div className="relative">
+                <input
+                  type={showPassword ? 'text' : 'password'}
+                  id="linkedin-password"
+                  value={credentials.password}
+                  onChange={(e) => setCredentials(prev => ({ ...prev, password: e.target.value }))}
+                  className="w-full px-3 py-2 pr-10 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="Your LinkedIn password"
+                  required
+                />
+                <button
+                  type="button"
+                  className="absolute inset-y-0 right-0 pr-3 flex items-center"
+                  onClick={() => setShowPassword(!showPassword)}
+                >
+                  {showPassword ? (
+                    <EyeOff className="h-4 w-4 text-gray-400" />
+                  ) : (
+                    <Eye className="h-4 w-4 text-gray-400" />
+                  )}
+                </button>
+              </div>
+            </div>
+
             <button
               type="submit"
-              className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors"
+              disabled={isBusy}
+              className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors disabled:opacity-50"
             >
-              Save LinkedIn Credentials
+              Save to Vault
             </button>
-            {isLinkedInConfigured && (
-              <button
-                type="button"
-                onClick={handleClearCredentials}
-                className="px-4 py-2 border border-red-300 text-red-700 rounded-md hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 transition-colors"
-              >
-                Clear
-              </button>
-            )}
-          </div>
-        </form>
+          </form>
+        )}
       </div>
 
       {/* OpenAI API Key */}
@@ -165,7 +323,7 @@ export default function AuthManager({ onCredentialsChange, onOpenAIConfigChange
         <div className="flex items-center gap-2 mb-4">
           <Key className="h-5 w-5 text-green-600" />
           <h2 className="text-lg font-semibold">OpenAI API Configuration</h2>
-          {isOpenAIConfigured && (
+          {vaultStatus.hasOpenAIKey && (
             <div className="ml-auto">
               <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
                 Configured
@@ -185,59 +343,65 @@ export default function AuthManager({ onCredentialsChange, onOpenAIConfigChange
                 <li>Click &quot;Create new secret key&quot;</li>
                 <li>Copy the key and paste it below</li>
               </ol>
-              <p className="mt-2 text-xs">Your API key is stored locally and only used for job analysis features.</p>
+              <p className="mt-2 text-xs">Your API key is kept in the vault and only used for job scoring and LLM fallback extraction.</p>
             </div>
           </div>
         </div>
 
-        <form onSubmit={handleOpenAISubmit} className="space-y-4">
-          <div>
-            <label htmlFor="openai-key" className="block text-sm font-medium text-gray-700 mb-1">
-              OpenAI API Key
-            </label>
-            <div className="relative">
-              <input
-                type={showApiKey ? 'text' : 'password'}
-                id="openai-key"
-                value={openAIConfig.apiKey}
-                onChange={(e) => setOpenAIConfig(prev => ({ ...prev, apiKey: e.target.value }))}
-                className="w-full px-3 py-2 pr-10 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
-                placeholder="sk-..."
-                required
-              />
-              <button
-                type="button"
-                className="absolute inset-y-0 right-0 pr-3 flex items-center"
-                onClick={() => setShowApiKey(!showApiKey)}
-              >
-                {showApiKey ? (
-                  <EyeOff className="h-4 w-4 text-gray-400" />
-                ) : (
-                  <Eye className="h-4 w-4 text-gray-400" />
-                )}
-              </button>
+        {isLocked ? (
+          <p className="text-sm text-gray-600">Unlock the vault to save or replace your API key.</p>
+        ) : (
+          <form onSubmit={handleOpenAISubmit} className="space-y-4">
+            <div>
+              <label htmlFor="openai-key" className="block text-sm font-medium text-gray-700 mb-1">
+                {vaultStatus.hasOpenAIKey ? 'Replace OpenAI API Key' : 'OpenAI API Key'}
+              </label>
+              <div className="relative">
+                <input
+                  type={showApiKey ? 'text' : 'password'}
+                  id="openai-key"
+                  value={apiKey}
+                  onChange={(e) => setApiKey(e.target.value)}
+                  className="w-full px-3 py-2 pr-10 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                  placeholder="sk-..."
+                  required
+                />
+                <button
+                  type="button"
+                  className="absolute inset-y-0 right-0 pr-3 flex items-center"
+                  onClick={() => setShowApiKey(!showApiKey)}
+                >
+                  {showApiKey ? (
+                    <EyeOff className="h-4 w-4 text-gray-400" />
+                  ) : (
+                    <Eye className="h-4 w-4 text-gray-400" />
+                  )}
+                </button>
+              </div>
             </div>
-          </div>
 
-          <div className="flex gap-3">
-            <button
-              type="submit"
-              className="flex-1 bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 transition-colors"
-            >
-              Save OpenAI API Key
-            </button>
-            {isOpenAIConfigured && (
+            <div className="flex gap-3">
               <button
-                type="button"
-                onClick={handleClearOpenAI}
-                className="px-4 py-2 border border-red-300 text-red-700 rounded-md hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 transition-colors"
+                type="submit"
+                disabled={isBusy}
+                className="flex-1 bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 transition-colors disabled:opacity-50"
               >
-                Clear
+                Save OpenAI API Key
               </button>
-            )}
-          </div>
-        </form>
+              {vaultStatus.hasOpenAIKey && (
+                <button
+                  type="button"
+                  onClick={handleClearOpenAI}
+                  disabled={isBusy}
+                  className="px-4 py-2 border border-red-300 text-red-700 rounded-md hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 transition-colors"
+                >
+                  Clear
+                </button>
+              )}
+            </div>
+          </form>
+        )}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -2,8 +2,10 @@
 
 import { useState, useEffect } from 'react';
 import Image from 'next/image';
-import { ExternalLink, Building, User, Users, Search } from 'lucide-react';
-import { CrawlSession } from '@/types';
+import { ExternalLink, Building, User, Users, Search, History, MapPin } from 'lucide-react';
+import { CrawlSession, ExtractionMethod } from '@/types';
+import { formatTenure } from '@/lib/profile-history';
+import { companySizeRank } from '@/lib/company-details';
 
 interface CompanyConnection {
   id: string;
@@ -11,9 +13,14 @@ interface CompanyConnection {
   createdAt: string;
   companyId: string;
   companyName: string;
-  companyLinkedInUrl: string;
+  companyLinkedInUrl?: string;
   companyLogoUrl?: string;
   companyDescription?: string;
+  companyIndustry?: string;
+  companySize?: string;
+  companyHeadcount?: number;
+  companyHeadquarters?: string;
+  companyFollowerCount?: number;
   connectionId: string;
   connectionName: string;
   connectionHeadline?: string;
@@ -21,8 +28,28 @@ interface CompanyConnection {
   connectionProfileImageUrl?: string;
   connectionSource?: string;
   connectionDegree: 1 | 2;
+  mutualConnection?: string;
+  connectedOn?: string;
+  extractionMethod: ExtractionMethod;
+  tenureStart?: string; // from profile enrichment
+  previousTargetCompanies: string[]; // other companies in this session they used to work at
 }
 
+interface GroupedCompany {
+  id: string;
+  name: string;
+  linkedInUrl?: string;
+  logoUrl?: string;
+  description?: string;
+  industry?: string;
+  size?: string;
+  headcount?: number;
+  headquarters?: string;
+  followerCount?: number;
+}
+
+type CompanySort = 'name' | 'size' | 'followers';
+
 interface ConnectionsListProps {
   selectedSession: CrawlSession | null;
 }
@@ -31,6 +58,8 @@ export default function ConnectionsList({ selectedSession }: ConnectionsListProp
   const [connections, setConnections] = useState<CompanyConnection[]>([]);
   const [loading, setLoading] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
+  const [industryFilter, setIndustryFilter] = useState('');
+  const [companySort, setCompanySort] = useState<CompanySort>('name');
   const [filteredConnections, setFilteredConnections] = useState<CompanyConnection[]>([]);
 
   useEffect(() => {
@@ -43,11 +72,15 @@ export default function ConnectionsList({ selectedSession }: ConnectionsListProp
   }, [selectedSession]);
 
   useEffect(() => {
-    // Filter connections based on search term
+    // Filter connections based on industry and search term
+    const inIndustry = industryFilter
+      ? connections.filter(connection => connection.companyIndustry === industryFilter)
+      : connections;
+
     if (!searchTerm.trim()) {
-      setFilteredConnections(connections);
+      setFilteredConnections(inIndustry);
     } else {
-      const filtered = connections.filter(connection =>
+      const filtered = inIndustry.filter(connection =>
         connection.companyName.toLowerCase().includes(searchTerm.toLowerCase()) ||
         connection.connectionName.toLowerCase().includes(searchTerm.toLowerCase()) ||
         connection.connectionHeadline?.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -55,7 +88,7 @@ export default function ConnectionsList({ selectedSession }: ConnectionsListProp
       );
       setFilteredConnections(filtered);
     }
-  }, [connections, searchTerm]);
+  }, [connections, searchTerm, industryFilter]);
 
   const fetchConnections = async (sessionId: string) => {
     setLoading(true);
@@ -77,7 +110,7 @@ export default function ConnectionsList({ selectedSession }: ConnectionsListProp
   };
 
   const groupConnectionsByCompany = () => {
-    const grouped = filteredConnections.reduce((acc: Record<string, { company: { id: string; name: string; linkedInUrl: string; logoUrl?: string; description?: string }; connections: CompanyConnection[] }>, connection) => {
+    const grouped = filteredConnections.reduce((acc: Record<string, { company: GroupedCompany; connections: CompanyConnection[] }>, connection) => {
       const companyId = connection.companyId;
       if (!acc[companyId]) {
         acc[companyId] = {
@@ -86,20 +119,47 @@ export default function ConnectionsList({ selectedSession }: ConnectionsListProp
             name: connection.companyName,
             linkedInUrl: connection.companyLinkedInUrl,
             logoUrl: connection.companyLogoUrl,
-            description: connection.companyDescription
+            description: connection.companyDescription,
+            industry: connection.companyIndustry,
+            size: connection.companySize,
+            headcount: connection.companyHeadcount,
+            headquarters: connection.companyHeadquarters,
+            followerCount: connection.companyFollowerCount
           },
           connections: []
         };
       }
       acc[companyId].connections.push(connection);
       return acc;
-    }, {} as Record<string, { company: { id: string; name: string; linkedInUrl: string; logoUrl?: string; description?: string }; connections: CompanyConnection[] }>);
+    }, {} as Record<string, { company: GroupedCompany; connections: CompanyConnection[] }>);
 
-    return Object.values(grouped).sort((a, b) => (a.company.name as string).localeCompare(b.company.name as string));
+    // Largest first when sorting by size or followers; companies without details go last
+    return Object.values(grouped).sort((a, b) => {
+      if (companySort === 'size') {
+        const bySize = companySizeRank(b.company) - companySizeRank(a.company);
+        if (bySize !== 0) return bySize;
+      } else if (companySort === 'followers') {
+        const byFollowers = (b.company.followerCount ?? -1) - (a.company.followerCount ?? -1);
+        if (byFollowers !== 0) return byFollowers;
+      }
+      return a.company.name.localeCompare(b.company.name);
+    });
   };
 
-  const getConnectionPathDisplay = (connectionPath: string) => {
-    return connectionPath.replace('You ->', '').trim();
+  const industries = Array.from(
+    new Set(connections.map(connection => connection.companyIndustry).filter((industry): industry is string => Boolean(industry)))
+  ).sort();
+
+  const getCompanyDetailsDisplay = (company: GroupedCompany) => {
+    return [
+      company.industry,
+      company.headcount !== undefined && company.headcount !== null
+        ? `${company.headcount.toLocaleString()} employees`
+        : company.size,
+      company.followerCount !== undefined && company.followerCount !== null
+        ? `${company.followerCount.toLocaleString()} followers`
+        : undefined
+    ].filter(Boolean).join(' · ');
   };
 
   const getConnectionDegreeIcon = (degree: number) => {
@@ -152,15 +212,38 @@ export default function ConnectionsList({ selectedSession }: ConnectionsListProp
         </h2>
         
         {connections.length > 0 && (
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
-            <input
-              type="text"
-              placeholder="Search companies or connections..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 w-64"
-            />
+          <div className="flex items-center gap-2">
+            {industries.length > 0 && (
+              <select
+                value={industryFilter}
+                onChange={(e) => setIndustryFilter(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">All industries</option>
+                {industries.map(industry => (
+                  <option key={industry} value={industry}>{industry}</option>
+                ))}
+              </select>
+            )}
+            <select
+              value={companySort}
+              onChange={(e) => setCompanySort(e.target.value as CompanySort)}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="name">By name</option>
+              <option value="size">By company size</option>
+              <option value="followers">By followers</option>
+            </select>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <input
+                type="text"
+                placeholder="Search companies or connections..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 w-64"
+              />
+            </div>
           </div>
         )}
       </div>
@@ -184,7 +267,7 @@ export default function ConnectionsList({ selectedSession }: ConnectionsListProp
             <>
               <Search className="mx-auto h-12 w-12 text-gray-400 mb-4" />
               <h3 className="text-lg font-medium text-gray-900 mb-2">No matches found</h3>
-              <p className="text-gray-600">Try adjusting your search terms.</p>
+              <p className="text-gray-600">Try adjusting your search terms or industry filter.</p>
             </>
           )}
         </div>
@@ -211,16 +294,27 @@ export default function ConnectionsList({ selectedSession }: ConnectionsListProp
                     <div>
                       <div className="flex items-center gap-2">
                         <h3 className="text-lg font-semibold text-gray-900">{company.name}</h3>
-                        <a
-                          href={company.linkedInUrl}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="text-blue-600 hover:text-blue-800 transition-colors"
-                          title="View on LinkedIn"
-                        >
-                          <ExternalLink className="h-4 w-4" />
-                        </a>
+                        {company.linkedInUrl && (
+                          <a
+                            href={company.linkedInUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-blue-600 hover:text-blue-800 transition-colors"
+                            title="View on LinkedIn"
+                          >
+                            <ExternalLink className="h-4 w-4" />
+                          </a>
+                        )}
                       </div>
+                      {getCompanyDetailsDisplay(company) && (
+                        <p className="text-sm text-gray-700 mt-1">{getCompanyDetailsDisplay(company)}</p>
+                      )}
+                      {company.headquarters && (
+                        <div className="flex items-center gap-1 mt-1 text-sm text-gray-600">
+                          <MapPin className="h-3 w-3 text-gray-400" />
+                          <span>{company.headquarters}</span>
+                        </div>
+                      )}
                       {company.description && (
                         <p className="text-sm text-gray-600 mt-1 max-w-2xl leading-relaxed">{company.description}</p>
                       )}
@@ -273,8 +367,16 @@ export default function ConnectionsList({ selectedSession }: ConnectionsListProp
                           </h4>
                         </div>
                         
+                        {/* Connection Path (2nd degree introductions) */}
+                        {connection.connectionDegree === 2 && (
+                          <div className="w-full flex items-center justify-center gap-1 text-xs text-purple-700" title={connection.connectionPath}>
+                            {getConnectionDegreeIcon(connection.connectionDegree)}
+                            <span className="truncate">{connection.connectionPath}</span>
+                          </div>
+                        )}
+
                         {/* Connection Source Badge */}
-                        {connection.connectionSource && (
+                        {connection.connectionSource && connection.connectionDegree === 1 && (
                           <div className="w-full">
                             <span className="inline-block text-xs px-3 py-1 bg-green-100 text-green-800 rounded-full font-medium">
                               {connection.connectionSource.replace(/\d+\s+(people|person|connection)\s+/i, '').replace(/^(from|at)\s+/i, '').trim()}
@@ -282,6 +384,33 @@ export default function ConnectionsList({ selectedSession }: ConnectionsListProp
                           </div>
                         )}
                         
+                        {/* Connected On (from LinkedIn data export) */}
+                        {connection.connectedOn && (
+                          <div className="w-full text-xs text-gray-500">
+                            Connected {new Date(`${connection.connectedOn}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                          </div>
+                        )}
+
+                        {/* Tenure and past employers (from profile enrichment) */}
+                        {connection.tenureStart && (
+                          <div className="w-full text-xs text-gray-600">
+                            {formatTenure(connection.tenureStart)} at {company.name}
+                          </div>
+                        )}
+                        {connection.previousTargetCompanies.length > 0 && (
+                          <div className="w-full flex items-center justify-center gap-1 text-xs text-purple-700" title="Other companies in this session they used to work at">
+                            <History className="h-3 w-3 flex-shrink-0" />
+                            <span className="truncate">Previously at {connection.previousTargetCompanies.join(', ')}</span>
+                          </div>
+                        )}
+
+                        {/* Read by the LLM fallback instead of the selectors */}
+                        {connection.extractionMethod === 'llm' && (
+                          <div className="w-full text-xs text-amber-700" title="No selector matched this page, so it was read by the LLM fallback">
+                            Extracted by AI
+                          </div>
+                        )}
+
                         {/* LinkedIn Link */}
                         {connection.connectionProfileUrl && (
                           <div className="w-full">
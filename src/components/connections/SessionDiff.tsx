@@ -0,0 +1,219 @@
+'use client';
+
+import { useState, useEffect, ReactNode } from 'react';
+import { ExternalLink, Building, GitCompare, UserPlus, ArrowRight, Unlink } from 'lucide-react';
+import { CrawlSession, DiffCompany, DiffPerson, SessionDiff as SessionDiffResult } from '@/types';
+
+interface SessionDiffProps {
+  selectedSession: CrawlSession;
+}
+
+export default function SessionDiff({ selectedSession }: SessionDiffProps) {
+  const [candidates, setCandidates] = useState<CrawlSession[]>([]);
+  const [againstId, setAgainstId] = useState('');
+  const [diff, setDiff] = useState<SessionDiffResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchCandidates(selectedSession);
+  }, [selectedSession]);
+
+  useEffect(() => {
+    if (againstId) {
+      fetchDiff(selectedSession.id, againstId);
+    } else {
+      setDiff(null);
+    }
+  }, [selectedSession.id, againstId]);
+
+  // The account's other completed sessions of the same mode, newest first; default to the latest earlier one
+  const fetchCandidates = async (session: CrawlSession) => {
+    try {
+      const response = await fetch(`/api/crawl/sessions?accountId=${encodeURIComponent(session.accountId ?? '')}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch sessions');
+      }
+
+      const sessions: CrawlSession[] = await response.json();
+      const sameMode = sessions.filter(other =>
+        other.id !== session.id && other.mode === session.mode && other.status === 'completed'
+      );
+      const earlier = sameMode.find(other => other.createdAt < session.createdAt);
+
+      setCandidates(sameMode);
+      setAgainstId(earlier?.id || sameMode[0]?.id || '');
+    } catch (error) {
+      console.error('Error fetching sessions to compare:', error);
+      setCandidates([]);
+      setAgainstId('');
+    }
+  };
+
+  const fetchDiff = async (sessionId: string, against: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/crawl/sessions/${sessionId}/diff?against=${encodeURIComponent(against)}`);
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error || 'Failed to compare sessions');
+      }
+      setDiff(await response.json());
+    } catch (error) {
+      console.error('Error comparing sessions:', error);
+      setError(error instanceof Error ? error.message : 'Failed to compare sessions');
+      setDiff(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const renderCompany = (company: DiffCompany) => (
+    <li key={company.id} className="py-2">
+      <div className="flex items-center gap-2">
+        <span className="font-medium text-gray-900">{company.name}</span>
+        {company.linkedinUrl && (
+          <a
+            href={company.linkedinUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-blue-600 hover:text-blue-800 transition-colors"
+            title="View on LinkedIn"
+          >
+            <ExternalLink className="h-3 w-3" />
+          </a>
+        )}
+      </div>
+      <p className="text-xs text-gray-600 mt-1">
+        {/* Paths start with the account owner; the people after them are the way in */}
+        via {company.paths.map(path => path.connectionPath.split(' -> ').slice(1).join(' -> ')).join(', ')}
+      </p>
+    </li>
+  );
+
+  const renderPerson = (person: DiffPerson, detail?: ReactNode) => (
+    <li key={person.profileUrl} className="py-2 flex items-start justify-between gap-4">
+      <div className="min-w-0">
+        <div className="font-medium text-gray-900">
+          {person.name}
+          {person.connectionDegree === 2 && <span className="ml-2 text-xs font-normal text-purple-700">2nd</span>}
+        </div>
+        <div className="text-xs text-gray-600 truncate">{detail ?? person.company ?? person.headline}</div>
+      </div>
+      <a
+        href={person.profileUrl}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="flex-shrink-0 text-blue-600 hover:text-blue-800 transition-colors"
+        title="View LinkedIn Profile"
+      >
+        <ExternalLink className="h-4 w-4" />
+      </a>
+    </li>
+  );
+
+  const renderSection = (title: string, icon: ReactNode, count: number, emptyText: string, items: ReactNode) => (
+    <div className="border rounded-lg bg-white shadow-sm">
+      <div className="border-b bg-gray-50 px-4 py-3 flex items-center gap-2">
+        {icon}
+        <h3 className="font-semibold text-gray-900">{title}</h3>
+        <span className="text-sm text-gray-600">({count})</span>
+      </div>
+      <div className="px-4 py-2">
+        {count === 0 ? (
+          <p className="text-sm text-gray-500 py-2">{emptyText}</p>
+        ) : (
+          <ul className="divide-y">{items}</ul>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <GitCompare className="h-5 w-5 text-blue-600" />
+          Changes
+        </h2>
+
+        {candidates.length > 0 && (
+          <div className="flex items-center gap-2">
+            <label htmlFor="compareAgainst" className="text-sm text-gray-700">Compared with</label>
+            <select
+              id="compareAgainst"
+              value={againstId}
+              onChange={(e) => setAgainstId(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {candidates.map(candidate => (
+                <option key={candidate.id} value={candidate.id}>{formatDate(candidate.createdAt)}</option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      {candidates.length === 0 ? (
+        <div className="text-center py-12 bg-gray-50 rounded-lg border border-dashed border-gray-300">
+          <GitCompare className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Nothing to compare with</h3>
+          <p className="text-gray-600">Run another crawl of the same type to see what changed in your network.</p>
+        </div>
+      ) : loading ? (
+        <div className="animate-pulse space-y-4">
+          {[...Array(4)].map((_, i) => (
+            <div key={i} className="h-24 bg-gray-200 rounded-lg"></div>
+          ))}
+        </div>
+      ) : error ? (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-800">{error}</div>
+      ) : diff && (
+        <div className="space-y-4">
+          {renderSection(
+            'Job changes',
+            <ArrowRight className="h-4 w-4 text-green-600" />,
+            diff.jobChanges.length,
+            'Nobody moved to a different company.',
+            diff.jobChanges.map(person => renderPerson(
+              person,
+              <>{person.previousCompany} → <span className="font-medium text-gray-800">{person.company}</span></>
+            ))
+          )}
+          {renderSection(
+            'Newly reachable companies',
+            <Building className="h-4 w-4 text-blue-600" />,
+            diff.newCompanies.length,
+            'No new companies.',
+            diff.newCompanies.map(renderCompany)
+          )}
+          {renderSection(
+            'New people',
+            <UserPlus className="h-4 w-4 text-blue-600" />,
+            diff.newPeople.length,
+            'No new people.',
+            diff.newPeople.map(person => renderPerson(person))
+          )}
+          {renderSection(
+            'Lost paths',
+            <Unlink className="h-4 w-4 text-red-600" />,
+            diff.lostCompanies.length,
+            'Every company is still reachable.',
+            diff.lostCompanies.map(renderCompany)
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
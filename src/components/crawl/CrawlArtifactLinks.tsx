@@ -0,0 +1,71 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Image, FileCode, FileArchive } from 'lucide-react';
+import { CrawlArtifact } from '@/types';
+
+interface CrawlArtifactLinksProps {
+  sessionId: string;
+}
+
+const KIND_ICONS = {
+  screenshot: Image,
+  html: FileCode,
+  trace: FileArchive
+};
+
+// Links to the screenshots, page HTML and Playwright traces saved for a failed crawl
+export default function CrawlArtifactLinks({ sessionId }: CrawlArtifactLinksProps) {
+  const [artifacts, setArtifacts] = useState<CrawlArtifact[] | null>(null);
+
+  useEffect(() => {
+    const fetchArtifacts = async () => {
+      try {
+        const response = await fetch(`/api/crawl/sessions/${sessionId}/artifacts`);
+        if (response.ok) {
+          setArtifacts(await response.json());
+        }
+      } catch (error) {
+        console.error('Failed to fetch crawl artifacts:', error);
+      }
+    };
+
+    fetchArtifacts();
+  }, [sessionId]);
+
+  if (!artifacts || artifacts.length === 0) return null;
+
+  const formatSize = (bytes: number) => {
+    return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+  };
+
+  return (
+    <div className="mt-2 p-3 bg-white border border-red-200 rounded text-xs text-gray-700">
+      <div className="font-medium text-gray-900 mb-1">Saved artifacts</div>
+      <ul className="space-y-1">
+        {artifacts.map(artifact => {
+          const Icon = KIND_ICONS[artifact.kind];
+          return (
+            <li key={artifact.file}>
+              <a
+                href={`/api/crawl/sessions/${sessionId}/artifacts/${artifact.file}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-800"
+              >
+                <Icon className="h-3 w-3" />
+                {artifact.file}
+              </a>
+              <span className="ml-2 text-gray-500">{formatSize(artifact.size)}</span>
+            </li>
+          );
+        })}
+      </ul>
+      {artifacts.some(artifact => artifact.kind === 'trace') && (
+        <p className="mt-2 text-gray-500">
+          Open a trace with <code>npx playwright show-trace &lt;file&gt;</code> or at trace.playwright.dev.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { Terminal, ChevronDown, ChevronRight, Building, User } from 'lucide-react';
+import { CrawlProgressEvent, CrawlSession } from '@/types';
+
+// Lines kept in the console; older ones scroll off
+const MAX_LINES = 100;
+
+const FINISHED_STATUSES: CrawlSession['status'][] = ['completed', 'failed', 'cancelled', 'interrupted'];
+
+interface CrawlConsoleProps {
+  sessionId: string;
+  status: CrawlSession['status'];
+  onUpdate: (update: Partial<Pick<CrawlSession, 'status' | 'progress' | 'error'>>) => void;
+}
+
+// Live view of a running crawl fed by the session's progress stream
+export default function CrawlConsole({ sessionId, status, onUpdate }: CrawlConsoleProps) {
+  const [lines, setLines] = useState<CrawlProgressEvent[]>([]);
+  const [current, setCurrent] = useState<{ company?: string; person?: string }>({});
+  const [isExpanded, setIsExpanded] = useState(true);
+  const logRef = useRef<HTMLDivElement>(null);
+  // Kept in a ref so a new callback from the parent doesn't reopen the stream
+  const onUpdateRef = useRef(onUpdate);
+  onUpdateRef.current = onUpdate;
+
+  useEffect(() => {
+    setLines([]);
+    setCurrent({});
+
+    const source = new EventSource(`/api/crawl/sessions/${sessionId}/stream`);
+
+    // Every connection replays the recent events, so start over after a reconnect
+    source.onopen = () => setLines([]);
+
+    source.onmessage = (message) => {
+      const event: CrawlProgressEvent = JSON.parse(message.data);
+
+      setLines(prev => [...prev, event].slice(-MAX_LINES));
+      if (event.type === 'activity' && (event.company || event.person)) {
+        setCurrent({ company: event.company, person: event.person });
+      }
+
+      if (event.type === 'status' && event.status) {
+        onUpdateRef.current({
+          status: event.status,
+          ...(event.progress !== undefined ? { progress: event.progress } : {}),
+          ...(event.status === 'failed' ? { error: event.message } : {})
+        });
+        // The server ends the stream here; stop the browser from reconnecting
+        if (FINISHED_STATUSES.includes(event.status)) {
+          source.close();
+        }
+      } else if (event.type === 'progress' && event.progress !== undefined) {
+        onUpdateRef.current({ progress: event.progress });
+      }
+    };
+
+    source.onerror = () => {
+      console.warn(`Progress stream for session ${sessionId} dropped, reconnecting...`);
+    };
+
+    return () => source.close();
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (logRef.current) {
+      logRef.current.scrollTop = logRef.current.scrollHeight;
+    }
+  }, [lines, isExpanded]);
+
+  const formatTime = (timestamp: string) => {
+    return new Date(timestamp).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+  };
+
+  const getLineColor = (event: CrawlProgressEvent) => {
+    switch (event.type) {
+      case 'warning':
+        return 'text-amber-300';
+      case 'status':
+        return event.status === 'failed' ? 'text-red-300' : 'text-blue-300';
+      case 'progress':
+        return 'text-green-300';
+      default:
+        return 'text-gray-300';
+    }
+  };
+
+  const latest = lines.filter(line => line.type !== 'warning').slice(-1)[0];
+
+  return (
+    <div className="mt-3" onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={() => setIsExpanded(prev => !prev)}
+        className="flex items-center gap-1 text-xs font-medium text-gray-600 hover:text-gray-800 transition-colors"
+      >
+        {isExpanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        <Terminal className="h-3 w-3" />
+        Live console
+        {!isExpanded && latest && (
+          <span className="ml-1 font-normal text-gray-500 max-w-64 truncate">{latest.message}</span>
+        )}
+      </button>
+
+      {isExpanded && (
+        <div className="mt-2 rounded-md bg-gray-900 text-xs font-mono">
+          {(current.company || current.person) && status !== 'paused' && (
+            <div className="flex items-center gap-3 px-3 py-2 border-b border-gray-700 text-gray-200">
+              {current.company && (
+                <span className="flex items-center gap-1">
+                  <Building className="h-3 w-3" />
+                  {current.company}
+                </span>
+              )}
+              {current.person && (
+                <span className="flex items-center gap-1 truncate">
+                  <User className="h-3 w-3" />
+                  {current.person}
+                </span>
+              )}
+            </div>
+          )}
+          <div ref={logRef} className="max-h-48 overflow-y-auto px-3 py-2 space-y-0.5">
+            {lines.length === 0 ? (
+              <div className="text-gray-500">Connecting...</div>
+            ) : (
+              lines.map((line, index) => (
+                <div key={index} className={`whitespace-pre-wrap break-words ${getLineColor(line)}`}>
+                  <span className="text-gray-500">{formatTime(line.timestamp)}</span> {line.message}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
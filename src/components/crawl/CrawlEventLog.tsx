@@ -0,0 +1,206 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Search, ExternalLink, ChevronDown, ChevronRight } from 'lucide-react';
+import { CrawlEvent, CrawlEventLevel, CrawlEventType } from '@/types';
+
+const PAGE_SIZE = 200;
+// Wait for typing to stop before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+const LEVEL_OPTIONS: Array<{ value: CrawlEventLevel | ''; label: string }> = [
+  { value: '', label: 'All levels' },
+  { value: 'info', label: 'Info and above' },
+  { value: 'warn', label: 'Warnings and errors' },
+  { value: 'error', label: 'Errors only' }
+];
+
+interface CrawlEventCount {
+  level: CrawlEventLevel;
+  type: CrawlEventType;
+  count: number;
+}
+
+interface CrawlEventLogProps {
+  sessionId: string;
+}
+
+// A session's stored crawl log, filterable by level, type and text
+export default function CrawlEventLog({ sessionId }: CrawlEventLogProps) {
+  const [events, setEvents] = useState<CrawlEvent[]>([]);
+  const [counts, setCounts] = useState<CrawlEventCount[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [level, setLevel] = useState<CrawlEventLevel | ''>('info');
+  const [type, setType] = useState<CrawlEventType | ''>('');
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [expandedPayloads, setExpandedPayloads] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(search), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const fetchEvents = useCallback(async (offset: number) => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+      if (level) params.set('level', level);
+      if (type) params.set('type', type);
+      if (debouncedSearch) params.set('search', debouncedSearch);
+
+      const response = await fetch(`/api/crawl/sessions/${sessionId}/events?${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch crawl events');
+      }
+
+      const data = await response.json();
+      setEvents(prev => offset === 0 ? data.events : [...prev, ...data.events]);
+      setCounts(data.counts);
+      setHasMore(data.hasMore);
+    } catch (error) {
+      console.error('Failed to fetch crawl events:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sessionId, level, type, debouncedSearch]);
+
+  // Start from the first page whenever the filters change
+  useEffect(() => {
+    fetchEvents(0);
+  }, [fetchEvents]);
+
+  const togglePayload = (eventId: string) => {
+    setExpandedPayloads(prev => {
+      const next = new Set(prev);
+      if (next.has(eventId)) {
+        next.delete(eventId);
+      } else {
+        next.add(eventId);
+      }
+      return next;
+    });
+  };
+
+  const getLevelColor = (eventLevel: CrawlEventLevel) => {
+    switch (eventLevel) {
+      case 'error':
+        return 'bg-red-100 text-red-800';
+      case 'warn':
+        return 'bg-amber-100 text-amber-800';
+      case 'info':
+        return 'bg-blue-100 text-blue-800';
+      default:
+        return 'bg-gray-100 text-gray-700';
+    }
+  };
+
+  const formatTime = (timestamp: string) => {
+    return new Date(timestamp).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+  };
+
+  const typeCounts = counts.reduce<Partial<Record<CrawlEventType, number>>>((totals, { type: eventType, count }) => {
+    totals[eventType] = (totals[eventType] || 0) + count;
+    return totals;
+  }, {});
+  const warningCount = counts.filter(count => count.level === 'warn').reduce((sum, count) => sum + count.count, 0);
+  const errorCount = counts.filter(count => count.level === 'error').reduce((sum, count) => sum + count.count, 0);
+
+  return (
+    <div className="mt-3 border-t pt-3 space-y-3" onClick={(e) => e.stopPropagation()}>
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={level}
+          onChange={(e) => setLevel(e.target.value as CrawlEventLevel | '')}
+          className="px-2 py-1 border border-gray-300 rounded-md text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {LEVEL_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <select
+          value={type}
+          onChange={(e) => setType(e.target.value as CrawlEventType | '')}
+          className="px-2 py-1 border border-gray-300 rounded-md text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">All types</option>
+          {(Object.keys(typeCounts) as CrawlEventType[]).sort().map(eventType => (
+            <option key={eventType} value={eventType}>{eventType} ({typeCounts[eventType]})</option>
+          ))}
+        </select>
+        <div className="relative flex-1 min-w-32">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3 w-3 text-gray-400" />
+          <input
+            type="text"
+            placeholder="Search messages and URLs"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="w-full pl-7 pr-2 py-1 border border-gray-300 rounded-md text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <span className="text-xs text-gray-600">
+          {warningCount} warnings · {errorCount} errors
+        </span>
+      </div>
+
+      {events.length === 0 && !isLoading ? (
+        <p className="text-xs text-gray-600">
+          {counts.length === 0 ? 'No log entries were stored for this session.' : 'No log entries match these filters.'}
+        </p>
+      ) : (
+        <ul className="max-h-96 overflow-y-auto divide-y border rounded-md text-xs">
+          {events.map(event => (
+            <li key={event.id} className="px-3 py-2">
+              <div className="flex items-start gap-2">
+                <span className="text-gray-500 font-mono shrink-0">{formatTime(event.createdAt)}</span>
+                <span className={`px-1.5 rounded shrink-0 ${getLevelColor(event.level)}`}>{event.level}</span>
+                <span className="text-gray-500 shrink-0">{event.type}</span>
+                <span className="text-gray-900 whitespace-pre-wrap break-words min-w-0">{event.message}</span>
+              </div>
+              {(event.url || event.payload) && (
+                <div className="flex items-center gap-3 mt-1 ml-16">
+                  {event.url && (
+                    <a
+                      href={event.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1 text-blue-600 hover:text-blue-800 truncate"
+                    >
+                      <ExternalLink className="h-3 w-3 shrink-0" />
+                      <span className="truncate">{event.url}</span>
+                    </a>
+                  )}
+                  {event.payload && (
+                    <button
+                      onClick={() => togglePayload(event.id)}
+                      className="flex items-center gap-1 text-gray-600 hover:text-gray-800 shrink-0"
+                    >
+                      {expandedPayloads.has(event.id) ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                      Details
+                    </button>
+                  )}
+                </div>
+              )}
+              {event.payload && expandedPayloads.has(event.id) && (
+                <pre className="mt-2 ml-16 p-2 bg-gray-50 border rounded overflow-x-auto text-gray-800">
+                  {JSON.stringify(event.payload, null, 2)}
+                </pre>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {hasMore && (
+        <button
+          onClick={() => fetchEvents(events.length)}
+          disabled={isLoading}
+          className="text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+        >
+          {isLoading ? 'Loading...' : 'Load more'}
+        </button>
+      )}
+    </div>
+  );
+}
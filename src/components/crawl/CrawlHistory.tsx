@@ -1,56 +1,57 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { Trash2, Calendar, Users, Building, Play, AlertCircle, ChevronDown, ChevronRight } from 'lucide-react';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Trash2, Calendar, Users, Building, Play, Pause, Square, AlertCircle, ChevronDown, ChevronRight, RotateCcw, Upload, Briefcase, UserSearch, CalendarClock, ScrollText } from 'lucide-react';
 import { CrawlSession } from '@/types';
+import SecurityChallengePanel from './SecurityChallengePanel';
+import CrawlConsole from './CrawlConsole';
+import CrawlEventLog from './CrawlEventLog';
+import CrawlArtifactLinks from './CrawlArtifactLinks';
+
+const isActiveStatus = (status: CrawlSession['status']) =>
+  status === 'running' || status === 'pending' || status === 'waiting_for_user' || status === 'paused';
+
+// Sessions that stopped before finishing and can continue from their checkpoint
+const isResumableStatus = (status: CrawlSession['status']) =>
+  status === 'failed' || status === 'cancelled' || status === 'interrupted';
 
 interface CrawlHistoryProps {
+  accountId: string;
   onSelectSession: (session: CrawlSession) => void;
   onDeleteSession: (sessionId: string) => void;
   onStartNewCrawl: (mode: 'first_connections' | 'friends_of_friends') => void;
+  onResumeCrawl: (sessionId: string) => void;
+  onImportExport: (file: File) => Promise<void>;
+  onFindJobs: (sourceSessionId: string) => void;
+  onEnrichProfiles: (sourceSessionId: string) => void;
   selectedSessionId?: string;
   refreshTrigger?: number;
 }
 
 export default function CrawlHistory({ 
+  accountId,
   onSelectSession, 
   onDeleteSession, 
   onStartNewCrawl, 
+  onResumeCrawl,
+  onImportExport,
+  onFindJobs,
+  onEnrichProfiles,
   selectedSessionId,
   refreshTrigger 
 }: CrawlHistoryProps) {
   const [sessions, setSessions] = useState<CrawlSession[]>([]);
   const [loading, setLoading] = useState(true);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [controllingId, setControllingId] = useState<string | null>(null);
   const [expandedErrors, setExpandedErrors] = useState<Set<string>>(new Set());
+  const [openLogId, setOpenLogId] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
-  useEffect(() => {
-    fetchSessions();
-  }, [refreshTrigger]);
-
-  useEffect(() => {
-    // Set up polling only when we have active sessions
-    const hasActiveSessions = sessions.some(s => s.status === 'running' || s.status === 'pending');
-    
-    if (!hasActiveSessions) {
-      return; // No interval needed if no active sessions
-    }
-
-    console.log('Setting up polling for running sessions');
-    const interval = setInterval(() => {
-      console.log('Polling for session updates');
-      fetchSessions();
-    }, 3000);
-    
-    return () => {
-      console.log('Clearing polling interval');
-      clearInterval(interval);
-    };
-  }, [sessions.filter(s => s.status === 'running' || s.status === 'pending').length]); // Only re-run when number of active sessions changes
-
-  const fetchSessions = async () => {
+  const fetchSessions = useCallback(async () => {
     try {
-      const response = await fetch('/api/crawl/sessions');
+      const response = await fetch(`/api/crawl/sessions?accountId=${encodeURIComponent(accountId)}`);
       if (response.ok) {
         const data = await response.json();
         setSessions(data);
@@ -60,7 +61,11 @@ export default function CrawlHistory({
     } finally {
       setLoading(false);
     }
-  };
+  }, [accountId]);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions, refreshTrigger]);
 
   const handleDelete = async (sessionId: string) => {
     if (!confirm('Are you sure you want to delete this crawl session? This will remove all associated data.')) {
@@ -87,6 +92,55 @@ export default function CrawlHistory({
     }
   };
 
+  // Applies an update from a session's live console. Once the crawl ends the list is reloaded
+  // to pick up its final counts and error.
+  const handleConsoleUpdate = (sessionId: string, update: Partial<Pick<CrawlSession, 'status' | 'progress' | 'error'>>) => {
+    setSessions(prev => prev.map(session => session.id === sessionId ? { ...session, ...update } : session));
+    if (update.status && !isActiveStatus(update.status)) {
+      fetchSessions();
+    }
+  };
+
+  const handleControl = async (sessionId: string, action: 'pause' | 'resume' | 'cancel') => {
+    if (action === 'cancel' && !confirm('Cancel this crawl? It stops after the current page and can be resumed later.')) {
+      return;
+    }
+
+    setControllingId(sessionId);
+    try {
+      const response = await fetch(`/api/crawl/sessions/${sessionId}/control`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error || `Failed to ${action} crawl`);
+      }
+
+      await fetchSessions();
+    } catch (error) {
+      console.error(`Failed to ${action} crawl:`, error);
+      alert(`Failed to ${action} crawl: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setControllingId(null);
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      await onImportExport(file);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   const getStatusColor = (status: CrawlSession['status']) => {
     switch (status) {
       case 'completed':
@@ -97,13 +151,30 @@ export default function CrawlHistory({
         return 'bg-red-100 text-red-800 border-red-200';
       case 'pending':
         return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+      case 'waiting_for_user':
+        return 'bg-amber-100 text-amber-800 border-amber-200';
+      case 'paused':
+        return 'bg-indigo-100 text-indigo-800 border-indigo-200';
+      case 'interrupted':
+        return 'bg-orange-100 text-orange-800 border-orange-200';
       default:
         return 'bg-gray-100 text-gray-800 border-gray-200';
     }
   };
 
   const getModeDisplay = (mode: CrawlSession['mode']) => {
-    return mode === 'first_connections' ? '1st Connections' : 'Friends of Friends';
+    switch (mode) {
+      case 'first_connections':
+        return '1st Connections';
+      case 'friends_of_friends':
+        return 'Friends of Friends';
+      case 'data_export':
+        return 'Data Export';
+      case 'jobs':
+        return 'Job Postings';
+      case 'profile_enrichment':
+        return 'Profile Enrichment';
+    }
   };
 
   const formatDate = (dateString: string) => {
@@ -157,6 +228,26 @@ export default function CrawlHistory({
             <Play className="h-4 w-4" />
             Friends of Friends
           </button>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            disabled={isImporting}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 transition-colors flex items-center gap-2 disabled:opacity-50"
+            title="Import Connections.csv or the full LinkedIn data export ZIP"
+          >
+            {isImporting ? (
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-600"></div>
+            ) : (
+              <Upload className="h-4 w-4" />
+            )}
+            Import Export
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".zip,.csv"
+            onChange={handleImportFile}
+            className="hidden"
+          />
         </div>
       </div>
 
@@ -202,8 +293,13 @@ export default function CrawlHistory({
                         {getModeDisplay(session.mode)}
                       </span>
                       <span className={`px-2 py-1 text-xs font-medium rounded-md border ${getStatusColor(session.status)}`}>
-                        {session.status}
+                        {session.status.replace(/_/g, ' ')}
                       </span>
+                      {session.scheduleId && (
+                        <span title="Started by a schedule">
+                          <CalendarClock className="h-4 w-4 text-gray-400" />
+                        </span>
+                      )}
                     </div>
                     <div className="flex items-center gap-4 mt-1 text-sm text-gray-600">
                       <div className="flex items-center gap-1">
@@ -221,20 +317,50 @@ export default function CrawlHistory({
                 </div>
 
                 <div className="flex items-center gap-2">
-                  {session.status === 'running' && (
+                  {(session.status === 'running' || session.status === 'paused') && (
                     <div className="flex items-center gap-2">
                       <div className="w-32 bg-gray-200 rounded-full h-2">
                         <div
-                          className="bg-blue-600 h-2 rounded-full transition-all animate-pulse"
+                          className={`bg-blue-600 h-2 rounded-full transition-all ${session.status === 'running' ? 'animate-pulse' : ''}`}
                           style={{ width: `${session.progress}%` }}
                         ></div>
                       </div>
                       <span className="text-sm text-gray-600">{session.progress}%</span>
-                      <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-blue-600"></div>
+                      {session.status === 'running' && (
+                        <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-blue-600"></div>
+                      )}
                     </div>
                   )}
+
+                  {(session.status === 'running' || session.status === 'paused') && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleControl(session.id, session.status === 'paused' ? 'resume' : 'pause');
+                      }}
+                      disabled={controllingId === session.id}
+                      className="p-1 text-gray-400 hover:text-blue-600 focus:outline-none focus:text-blue-600 transition-colors disabled:opacity-50"
+                      title={session.status === 'paused' ? 'Continue crawl' : 'Pause crawl (keeps the browser open)'}
+                    >
+                      {session.status === 'paused' ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                    </button>
+                  )}
+
+                  {isActiveStatus(session.status) && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleControl(session.id, 'cancel');
+                      }}
+                      disabled={controllingId === session.id}
+                      className="p-1 text-gray-400 hover:text-red-600 focus:outline-none focus:text-red-600 transition-colors disabled:opacity-50"
+                      title="Cancel crawl"
+                    >
+                      <Square className="h-4 w-4" />
+                    </button>
+                  )}
                   
-                  {session.status === 'failed' && session.error && (
+                  {isResumableStatus(session.status) && session.error && (
                     <div className="text-red-600 text-sm">
                       <button
                         onClick={(e) => {
@@ -254,13 +380,69 @@ export default function CrawlHistory({
                         </span>
                       </button>
                       {expandedErrors.has(session.id) && (
-                        <div className="mt-2 p-3 bg-red-50 border border-red-200 rounded text-xs font-mono text-red-800 whitespace-pre-wrap">
-                          {session.error}
-                        </div>
+                        <>
+                          <div className="mt-2 p-3 bg-red-50 border border-red-200 rounded text-xs font-mono text-red-800 whitespace-pre-wrap">
+                            {session.error}
+                          </div>
+                          <CrawlArtifactLinks sessionId={session.id} />
+                        </>
                       )}
                     </div>
                   )}
 
+                  {session.status === 'completed' && session.mode !== 'jobs' && session.mode !== 'profile_enrichment' && (
+                    <>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onEnrichProfiles(session.id);
+                        }}
+                        className="p-1 text-gray-400 hover:text-purple-600 focus:outline-none focus:text-purple-600 transition-colors"
+                        title="Collect experience and education for this session's connections"
+                      >
+                        <UserSearch className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onFindJobs(session.id);
+                        }}
+                        className="p-1 text-gray-400 hover:text-green-600 focus:outline-none focus:text-green-600 transition-colors"
+                        title="Find open roles at this session's companies"
+                      >
+                        <Briefcase className="h-4 w-4" />
+                      </button>
+                    </>
+                  )}
+
+                  {isResumableStatus(session.status) && session.mode !== 'data_export' && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onResumeCrawl(session.id);
+                      }}
+                      className="p-1 text-gray-400 hover:text-blue-600 focus:outline-none focus:text-blue-600 transition-colors"
+                      title="Resume crawl from last checkpoint"
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </button>
+                  )}
+
+                  {session.mode !== 'data_export' && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setOpenLogId(openLogId === session.id ? null : session.id);
+                      }}
+                      className={`p-1 focus:outline-none transition-colors ${
+                        openLogId === session.id ? 'text-blue-600' : 'text-gray-400 hover:text-gray-600'
+                      }`}
+                      title="Browse this session's crawl log"
+                    >
+                      <ScrollText className="h-4 w-4" />
+                    </button>
+                  )}
+
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
@@ -278,6 +460,22 @@ export default function CrawlHistory({
                   </button>
                 </div>
               </div>
+
+              {session.status === 'waiting_for_user' && (
+                <SecurityChallengePanel sessionId={session.id} onResponded={fetchSessions} />
+              )}
+
+              {isActiveStatus(session.status) && session.mode !== 'data_export' && (
+                <CrawlConsole
+                  sessionId={session.id}
+                  status={session.status}
+                  onUpdate={(update) => handleConsoleUpdate(session.id, update)}
+                />
+              )}
+
+              {openLogId === session.id && (
+                <CrawlEventLog sessionId={session.id} />
+              )}
             </div>
           ))}
         </div>
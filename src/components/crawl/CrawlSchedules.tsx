@@ -0,0 +1,281 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { CalendarClock, Plus, Trash2, Pause, Play, X } from 'lucide-react';
+import { CrawlScheduleSummary, CrawlSession, ScheduledCrawlMode } from '@/types';
+
+// How often the list is refreshed to pick up runs the server started
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+const MODE_LABELS: Record<ScheduledCrawlMode, string> = {
+  first_connections: '1st Connections',
+  friends_of_friends: 'Friends of Friends',
+  jobs: 'Job Postings',
+  profile_enrichment: 'Profile Enrichment'
+};
+
+const CRON_PRESETS = [
+  { label: 'Every day at 9:00', cron: '0 9 * * *' },
+  { label: 'Weekdays at 9:00', cron: '0 9 * * 1-5' },
+  { label: 'Mondays at 9:00', cron: '0 9 * * 1' },
+  { label: 'Every 6 hours', cron: '0 */6 * * *' },
+  { label: '1st of the month at 9:00', cron: '0 9 1 * *' }
+];
+
+interface CrawlSchedulesProps {
+  accountId: string;
+  refreshTrigger?: number;
+}
+
+export default function CrawlSchedules({ accountId, refreshTrigger }: CrawlSchedulesProps) {
+  const [schedules, setSchedules] = useState<CrawlScheduleSummary[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [form, setForm] = useState<{ name: string; mode: ScheduledCrawlMode; cron: string }>({
+    name: '',
+    mode: 'first_connections',
+    cron: CRON_PRESETS[2].cron
+  });
+
+  const fetchSchedules = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/crawl/schedules?accountId=${encodeURIComponent(accountId)}`);
+      if (response.ok) {
+        setSchedules(await response.json());
+      }
+    } catch (error) {
+      console.error('Failed to fetch schedules:', error);
+    }
+  }, [accountId]);
+
+  useEffect(() => {
+    fetchSchedules();
+    const interval = setInterval(fetchSchedules, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchSchedules, refreshTrigger]);
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    try {
+      // The server gives the schedule a copy of this account's saved crawl settings
+      const response = await fetch('/api/crawl/schedules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...form, accountId }),
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error || 'Failed to create schedule');
+      }
+
+      setShowForm(false);
+      setForm(prev => ({ ...prev, name: '' }));
+      await fetchSchedules();
+    } catch (error) {
+      console.error('Error creating schedule:', error);
+      alert(`Failed to create schedule: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (schedule: CrawlScheduleSummary) => {
+    try {
+      const response = await fetch(`/api/crawl/schedules/${schedule.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled: !schedule.enabled }),
+      });
+
+      if (response.ok) {
+        await fetchSchedules();
+      }
+    } catch (error) {
+      console.error('Failed to update schedule:', error);
+    }
+  };
+
+  const handleDelete = async (scheduleId: string) => {
+    if (!confirm('Delete this schedule? Sessions it already ran are kept.')) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/crawl/schedules/${scheduleId}`, { method: 'DELETE' });
+      if (response.ok) {
+        setSchedules(prev => prev.filter(schedule => schedule.id !== scheduleId));
+      }
+    } catch (error) {
+      console.error('Failed to delete schedule:', error);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const getRunColor = (status: CrawlSession['status']) => {
+    switch (status) {
+      case 'completed':
+        return 'bg-green-100 text-green-800';
+      case 'failed':
+        return 'bg-red-100 text-red-800';
+      case 'cancelled':
+      case 'interrupted':
+        return 'bg-gray-100 text-gray-700';
+      default:
+        return 'bg-blue-100 text-blue-800';
+    }
+  };
+
+  const presetLabel = (cron: string) => CRON_PRESETS.find(preset => preset.cron === cron)?.label ?? cron;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <CalendarClock className="h-5 w-5 text-blue-600" />
+          Scheduled Crawls
+        </h2>
+        <button
+          onClick={() => setShowForm(prev => !prev)}
+          className="px-3 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 transition-colors flex items-center gap-2 text-sm"
+        >
+          {showForm ? <X className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+          {showForm ? 'Cancel' : 'New Schedule'}
+        </button>
+      </div>
+
+      {showForm && (
+        <div className="border rounded-lg bg-white p-4 space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <input
+              type="text"
+              placeholder="Name (optional)"
+              value={form.name}
+              onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <select
+              value={form.mode}
+              onChange={(e) => setForm(prev => ({ ...prev, mode: e.target.value as ScheduledCrawlMode }))}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {(Object.keys(MODE_LABELS) as ScheduledCrawlMode[]).map(mode => (
+                <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>
+              ))}
+            </select>
+            <select
+              value={CRON_PRESETS.some(preset => preset.cron === form.cron) ? form.cron : ''}
+              onChange={(e) => setForm(prev => ({ ...prev, cron: e.target.value || prev.cron }))}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {CRON_PRESETS.map(preset => (
+                <option key={preset.cron} value={preset.cron}>{preset.label}</option>
+              ))}
+              <option value="">Custom</option>
+            </select>
+            <input
+              type="text"
+              value={form.cron}
+              onChange={(e) => setForm(prev => ({ ...prev, cron: e.target.value }))}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              title="minute hour day-of-month month day-of-week, in the server's time zone"
+            />
+          </div>
+          <p className="text-xs text-gray-600">
+            Runs use the crawl settings saved now and the LinkedIn login saved by your last crawl.
+            Job Postings and Profile Enrichment use the latest completed connections session.
+            A run is skipped if the previous one is still going.
+          </p>
+          <button
+            onClick={handleCreate}
+            disabled={isSaving || !form.cron.trim()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors disabled:opacity-50 text-sm"
+          >
+            {isSaving ? 'Saving...' : 'Create Schedule'}
+          </button>
+        </div>
+      )}
+
+      {schedules.length === 0 && !showForm ? (
+        <p className="text-sm text-gray-600">No schedules yet. Add one to re-run a crawl automatically.</p>
+      ) : (
+        <div className="space-y-3">
+          {schedules.map(schedule => (
+            <div key={schedule.id} className="border rounded-lg bg-white p-4">
+              <div className="flex items-start justify-between">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-900">{schedule.name}</span>
+                    <span className="text-xs text-gray-600">{MODE_LABELS[schedule.mode]}</span>
+                    {!schedule.enabled && (
+                      <span className="px-2 py-0.5 text-xs font-medium rounded-md bg-gray-100 text-gray-700">paused</span>
+                    )}
+                  </div>
+                  <div className="text-sm text-gray-600 mt-1">
+                    {presetLabel(schedule.cron)} <span className="font-mono text-xs text-gray-500">({schedule.cron})</span>
+                  </div>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => handleToggle(schedule)}
+                    className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-md transition-colors"
+                    title={schedule.enabled ? 'Pause schedule' : 'Resume schedule'}
+                  >
+                    {schedule.enabled ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(schedule.id)}
+                    className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-md transition-colors"
+                    title="Delete schedule"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+
+              {schedule.upcomingRuns.length > 0 && (
+                <div className="text-xs text-gray-600 mt-3">
+                  <span className="font-medium text-gray-700">Next:</span> {schedule.upcomingRuns.map(formatDate).join(' · ')}
+                </div>
+              )}
+
+              {schedule.lastRunAt && (
+                <div className="text-xs text-gray-600 mt-1">
+                  <span className="font-medium text-gray-700">Last:</span> {formatDate(schedule.lastRunAt)}
+                  {schedule.lastRunResult !== 'started' && (
+                    <span className={schedule.lastRunResult === 'failed' ? 'text-red-700' : 'text-amber-700'}>
+                      {' '}({schedule.lastRunResult}{schedule.lastRunMessage ? `: ${schedule.lastRunMessage}` : ''})
+                    </span>
+                  )}
+                </div>
+              )}
+
+              {schedule.recentRuns.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {schedule.recentRuns.map(run => (
+                    <span
+                      key={run.id}
+                      className={`px-2 py-0.5 text-xs rounded-md ${getRunColor(run.status)}`}
+                      title={run.error || run.status.replace(/_/g, ' ')}
+                    >
+                      {formatDate(run.createdAt)}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,14 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Clock, Monitor, Save } from 'lucide-react';
+import { Clock, Monitor, Save, FileCode, Sparkles, Building } from 'lucide-react';
 import type { CrawlSettings } from '@/types';
-import { StorageManager } from '@/lib/storage';
 
-export default function CrawlSettings() {
+interface CrawlSettingsProps {
+  accountId: string;
+}
+
+export default function CrawlSettings({ accountId }: CrawlSettingsProps) {
   const [settings, setSettings] = useState<CrawlSettings>({
     rateLimit: 2500,
     headless: false // Set to false for debugging
@@ -14,18 +17,46 @@ export default function CrawlSettings() {
   const [isSaving, setIsSaving] = useState(false);
 
   useEffect(() => {
-    const storedSettings = StorageManager.getCrawlSettings();
-    setSettings(storedSettings);
-    setIsLoaded(true);
-  }, []);
+    const fetchSettings = async () => {
+      try {
+        const response = await fetch(`/api/settings?accountId=${encodeURIComponent(accountId)}`);
+        if (response.ok) {
+          setSettings(await response.json());
+        }
+      } catch (error) {
+        console.error('Failed to fetch settings:', error);
+      } finally {
+        setIsLoaded(true);
+      }
+    };
+
+    fetchSettings();
+  }, [accountId]);
 
-  const handleSave = () => {
+  // Saved on the server for this account, where every crawl it starts from now on reads them
+  const handleSave = async () => {
     setIsSaving(true);
-    StorageManager.saveCrawlSettings(settings);
-    
-    setTimeout(() => {
+    try {
+      const response = await fetch(`/api/settings?accountId=${encodeURIComponent(accountId)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(settings),
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error || 'Failed to save settings');
+      }
+
+      setSettings(await response.json());
+      setTimeout(() => {
+        setIsSaving(false);
+      }, 500);
+    } catch (error) {
+      console.error('Error saving settings:', error);
+      alert(`Failed to save settings: ${error instanceof Error ? error.message : 'Unknown error'}`);
       setIsSaving(false);
-    }, 500);
+    }
   };
 
   const handleRateLimitChange = (value: string) => {
@@ -85,7 +116,7 @@ export default function CrawlSettings() {
 
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
-            Maximum Connections (Friends of Friends mode)
+            Maximum Connections (Friends of Friends and Profile Enrichment)
           </label>
           <input
             type="number"
@@ -99,10 +130,128 @@ export default function CrawlSettings() {
             className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
           />
           <p className="text-xs text-gray-600 mt-1">
-            Maximum number of 1st degree connections to analyze in Friends of Friends mode
+            Maximum number of connections to analyze in Friends of Friends mode, or profiles to visit when enriching
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Maximum Search Result Pages
+          </label>
+          <input
+            type="number"
+            min="1"
+            max="100"
+            value={settings.maxPages || 10}
+            onChange={(e) => setSettings(prev => ({ 
+              ...prev, 
+              maxPages: parseInt(e.target.value, 10) || 10 
+            }))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+          />
+          <p className="text-xs text-gray-600 mt-1">
+            How many pages of company and people search results to follow before stopping
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Connections per Friend (Friends of Friends mode)
+          </label>
+          <input
+            type="number"
+            min="1"
+            max="100"
+            value={settings.maxSecondDegreePerConnection || 10}
+            onChange={(e) => setSettings(prev => ({ 
+              ...prev, 
+              maxSecondDegreePerConnection: parseInt(e.target.value, 10) || 10 
+            }))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+          />
+          <p className="text-xs text-gray-600 mt-1">
+            Maximum number of each friend&apos;s connections to visit when discovering 2nd degree introductions
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Jobs per Company (Job Postings mode)
+          </label>
+          <input
+            type="number"
+            min="1"
+            max="200"
+            value={settings.maxJobsPerCompany || 25}
+            onChange={(e) => setSettings(prev => ({ 
+              ...prev, 
+              maxJobsPerCompany: parseInt(e.target.value, 10) || 25 
+            }))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+          />
+          <p className="text-xs text-gray-600 mt-1">
+            Maximum number of open roles to collect from each company&apos;s LinkedIn job listings
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Profiles to Enrich (Profile Enrichment mode)
+          </label>
+          <input
+            type="number"
+            min="1"
+            max="500"
+            value={settings.maxEnrichedProfiles || 50}
+            onChange={(e) => setSettings(prev => ({ 
+              ...prev, 
+              maxEnrichedProfiles: parseInt(e.target.value, 10) || 50 
+            }))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+          />
+          <p className="text-xs text-gray-600 mt-1">
+            Maximum number of connections whose experience and education pages are visited per session. Each profile takes two page loads.
           </p>
         </div>
 
+        <div>
+          <div className="flex items-center gap-3">
+            <input
+              type="checkbox"
+              id="enrichCompanies"
+              checked={settings.enrichCompanies !== false}
+              onChange={(e) => setSettings(prev => ({ ...prev, enrichCompanies: e.target.checked }))}
+              className="h-4 w-4 text-purple-600 focus:ring-purple-500 border-gray-300 rounded"
+            />
+            <label htmlFor="enrichCompanies" className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <Building className="h-4 w-4" />
+              Collect company details
+            </label>
+          </div>
+          <p className="text-xs text-gray-600 mt-2 ml-7">
+            Visits each company&apos;s About page once for its industry, size, headquarters and followers.
+          </p>
+          <div className="flex items-center gap-2 mt-3 ml-7">
+            <label htmlFor="companyRefreshDays" className="text-sm text-gray-700">
+              Refresh details older than
+            </label>
+            <input
+              type="number"
+              id="companyRefreshDays"
+              min="1"
+              max="365"
+              value={settings.companyRefreshDays || 30}
+              disabled={settings.enrichCompanies === false}
+              onChange={(e) => setSettings(prev => ({
+                ...prev,
+                companyRefreshDays: parseInt(e.target.value, 10) || 30
+              }))}
+              className="w-20 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500 disabled:opacity-50"
+            />
+            <span className="text-sm text-gray-700">days</span>
+          </div>
+        </div>
+
         <div>
           <div className="flex items-center gap-3">
             <input
@@ -123,6 +272,46 @@ export default function CrawlSettings() {
           </p>
         </div>
 
+        <div>
+          <div className="flex items-center gap-3">
+            <input
+              type="checkbox"
+              id="captureFixtures"
+              checked={settings.captureFixtures || false}
+              onChange={(e) => setSettings(prev => ({ ...prev, captureFixtures: e.target.checked }))}
+              className="h-4 w-4 text-purple-600 focus:ring-purple-500 border-gray-300 rounded"
+            />
+            <label htmlFor="captureFixtures" className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <FileCode className="h-4 w-4" />
+              Capture page fixtures
+            </label>
+          </div>
+          <p className="text-xs text-gray-600 mt-2 ml-7">
+            Saves the HTML of every page the crawler extracts from to data/fixtures, so extraction
+            can be replayed offline when testing selector changes.
+          </p>
+        </div>
+
+        <div>
+          <div className="flex items-center gap-3">
+            <input
+              type="checkbox"
+              id="llmFallback"
+              checked={settings.llmFallback || false}
+              onChange={(e) => setSettings(prev => ({ ...prev, llmFallback: e.target.checked }))}
+              className="h-4 w-4 text-purple-600 focus:ring-purple-500 border-gray-300 rounded"
+            />
+            <label htmlFor="llmFallback" className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <Sparkles className="h-4 w-4" />
+              LLM fallback extraction
+            </label>
+          </div>
+          <p className="text-xs text-gray-600 mt-2 ml-7">
+            When no selector matches a results page (e.g. after a LinkedIn redesign), sends the page&apos;s
+            text and links to GPT-4o-mini to read the results. Requires an OpenAI API key.
+          </p>
+        </div>
+
         <div className="pt-4 border-t">
           <button
             onClick={handleSave}
@@ -0,0 +1,125 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { ShieldAlert, Monitor, CheckCircle } from 'lucide-react';
+import { SecurityChallenge } from '@/types';
+
+interface SecurityChallengePanelProps {
+  sessionId: string;
+  onResponded: () => void;
+}
+
+export default function SecurityChallengePanel({ sessionId, onResponded }: SecurityChallengePanelProps) {
+  const [challenge, setChallenge] = useState<SecurityChallenge | null>(null);
+  const [code, setCode] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchChallenge = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/crawl/sessions/${sessionId}/challenge`);
+      setChallenge(response.ok ? await response.json() : null);
+    } catch (error) {
+      console.error('Failed to fetch security challenge:', error);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    fetchChallenge();
+    const interval = setInterval(fetchChallenge, 3000);
+    return () => clearInterval(interval);
+  }, [fetchChallenge]);
+
+  const respond = async (body: Record<string, string>) => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/crawl/sessions/${sessionId}/challenge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error || 'Failed to respond to security challenge');
+      }
+
+      setCode('');
+      setChallenge(null);
+      onResponded();
+    } catch (error) {
+      console.error('Failed to respond to security challenge:', error);
+      alert(`Failed to respond: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmitCode = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.trim()) {
+      respond({ action: 'submit_code', code: code.trim() });
+    }
+  };
+
+  if (!challenge) {
+    return (
+      <div className="mt-3 p-3 bg-amber-50 border border-amber-200 rounded text-sm text-amber-800">
+        Waiting for LinkedIn security check...
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="mt-3 p-4 bg-amber-50 border border-amber-200 rounded-lg space-y-3"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-start gap-2">
+        <ShieldAlert className="h-4 w-4 text-amber-600 mt-0.5 flex-shrink-0" />
+        <p className="text-sm text-amber-800">{challenge.message}</p>
+      </div>
+
+      {challenge.type === 'verification_code' && (
+        <form onSubmit={handleSubmitCode} className="flex gap-2">
+          <input
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="Verification code"
+            className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+          />
+          <button
+            type="submit"
+            disabled={isSubmitting || !code.trim()}
+            className="px-4 py-2 text-sm bg-amber-600 text-white rounded-md hover:bg-amber-700 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:ring-offset-2 transition-colors disabled:opacity-50"
+          >
+            Submit Code
+          </button>
+        </form>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {challenge.headless && (
+          <button
+            onClick={() => respond({ action: 'open_browser' })}
+            disabled={isSubmitting}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm border border-amber-300 text-amber-800 rounded-md hover:bg-amber-100 transition-colors disabled:opacity-50"
+          >
+            <Monitor className="h-4 w-4" />
+            Open Browser Window
+          </button>
+        )}
+        <button
+          onClick={() => respond({ action: 'resolved' })}
+          disabled={isSubmitting}
+          className="flex items-center gap-2 px-3 py-1.5 text-sm border border-amber-300 text-amber-800 rounded-md hover:bg-amber-100 transition-colors disabled:opacity-50"
+        >
+          <CheckCircle className="h-4 w-4" />
+          I&apos;ve Completed the Check
+        </button>
+      </div>
+    </div>
+  );
+}
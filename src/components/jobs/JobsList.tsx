@@ -0,0 +1,299 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ExternalLink, Briefcase, MapPin, Calendar, Search, Sparkles } from 'lucide-react';
+import { CrawlSession, SessionJob } from '@/types';
+import { StorageManager } from '@/lib/storage';
+
+interface JobsListProps {
+  selectedSession: CrawlSession;
+  hasOpenAIKey: boolean;
+}
+
+export default function JobsList({ selectedSession, hasOpenAIKey }: JobsListProps) {
+  const [jobs, setJobs] = useState<SessionJob[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [remoteOnly, setRemoteOnly] = useState(false);
+  const [sortBy, setSortBy] = useState<'company' | 'score'>('company');
+  const [isScoring, setIsScoring] = useState(false);
+
+  useEffect(() => {
+    fetchJobs(selectedSession.id);
+  }, [selectedSession]);
+
+  const fetchJobs = async (sessionId: string) => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/crawl/sessions/${sessionId}/jobs`);
+      if (response.ok) {
+        setJobs(await response.json());
+      } else {
+        console.error('Failed to fetch jobs');
+        setJobs([]);
+      }
+    } catch (error) {
+      console.error('Error fetching jobs:', error);
+      setJobs([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleScoreJobs = async () => {
+    const profile = selectedSession.accountId ? StorageManager.getSkillProfile(selectedSession.accountId) : null;
+    if (!hasOpenAIKey) {
+      alert('Add your OpenAI API key in Settings to score jobs.');
+      return;
+    }
+    if (!profile || profile.skills.length === 0) {
+      alert('Add your skills to the Skill Profile in Settings to score jobs.');
+      return;
+    }
+
+    // Re-score everything when every job already has a score, otherwise fill in the gaps
+    const rescore = jobs.length > 0 && jobs.every(job => job.score !== undefined);
+
+    setIsScoring(true);
+    try {
+      const response = await fetch(`/api/crawl/sessions/${selectedSession.id}/jobs/score`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ profile, rescore }),
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error || 'Failed to score jobs');
+      }
+
+      const { failed } = await response.json();
+      if (failed > 0) {
+        alert(`${failed} job${failed !== 1 ? 's' : ''} could not be scored. Try again to retry them.`);
+      }
+      await fetchJobs(selectedSession.id);
+    } catch (error) {
+      console.error('Error scoring jobs:', error);
+      alert(`Failed to score jobs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsScoring(false);
+    }
+  };
+
+  const filteredJobs = jobs.filter(job => {
+    if (remoteOnly && !job.isRemote) return false;
+    if (!searchTerm.trim()) return true;
+
+    const term = searchTerm.toLowerCase();
+    return job.title.toLowerCase().includes(term) ||
+      job.companyName.toLowerCase().includes(term) ||
+      job.location?.toLowerCase().includes(term);
+  });
+
+  const groupedJobs = Object.values(
+    filteredJobs.reduce((acc: Record<string, { companyName: string; companyLinkedInUrl?: string; jobs: SessionJob[] }>, job) => {
+      if (!acc[job.companyId]) {
+        acc[job.companyId] = { companyName: job.companyName, companyLinkedInUrl: job.companyLinkedInUrl, jobs: [] };
+      }
+      acc[job.companyId].jobs.push(job);
+      return acc;
+    }, {})
+  ).sort((a, b) => a.companyName.localeCompare(b.companyName));
+
+  // Best match first; unscored jobs sink to the bottom
+  const scoredJobs = [...filteredJobs].sort((a, b) => (b.score ?? -1) - (a.score ?? -1));
+
+  const getScoreColor = (score: number) => {
+    if (score >= 75) return 'bg-green-100 text-green-800';
+    if (score >= 50) return 'bg-yellow-100 text-yellow-800';
+    return 'bg-gray-100 text-gray-700';
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(`${dateString}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  };
+
+  const renderJob = (job: SessionJob, showCompany: boolean) => (
+    <li key={job.id} className="px-6 py-3 flex items-start justify-between gap-4">
+      <div className="min-w-0">
+        <a
+          href={job.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="font-medium text-gray-900 hover:text-blue-700 hover:underline"
+        >
+          {job.title}
+        </a>
+        <div className="flex items-center gap-4 mt-1 text-sm text-gray-600">
+          {showCompany && (
+            <span className="flex items-center gap-1">
+              <Briefcase className="h-3 w-3" />
+              {job.companyName}
+            </span>
+          )}
+          {job.location && (
+            <span className="flex items-center gap-1">
+              <MapPin className="h-3 w-3" />
+              {job.location}
+            </span>
+          )}
+          {job.postedAt && (
+            <span className="flex items-center gap-1">
+              <Calendar className="h-3 w-3" />
+              {formatDate(job.postedAt)}
+            </span>
+          )}
+        </div>
+        {job.matchedSkills && job.matchedSkills.length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-2">
+            {job.matchedSkills.map(skill => (
+              <span key={skill} className="text-xs px-2 py-0.5 bg-blue-50 text-blue-700 rounded">
+                {skill}
+              </span>
+            ))}
+          </div>
+        )}
+        {job.rationale && (
+          <p className="text-sm text-gray-600 mt-1 truncate" title={job.rationale}>
+            {job.rationale}
+          </p>
+        )}
+      </div>
+      <div className="flex flex-shrink-0 items-center gap-2">
+        {job.score !== undefined && (
+          <span
+            className={`text-xs px-2 py-1 rounded-full font-semibold ${getScoreColor(job.score)}`}
+            title="Relevance to your skill profile"
+          >
+            {job.score}
+          </span>
+        )}
+        {job.isRemote && (
+          <span className="text-xs px-2 py-1 bg-green-100 text-green-800 rounded-full font-medium">
+            Remote
+          </span>
+        )}
+        <span className="text-xs px-2 py-1 bg-gray-100 text-gray-700 rounded-full font-medium capitalize">
+          {job.source === 'linkedin' ? 'LinkedIn' : job.source}
+        </span>
+      </div>
+    </li>
+  );
+
+  if (loading) {
+    return (
+      <div className="animate-pulse space-y-4">
+        <div className="h-8 bg-gray-200 rounded w-1/3"></div>
+        {[...Array(5)].map((_, i) => (
+          <div key={i} className="h-20 bg-gray-200 rounded-lg"></div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">
+          Open Roles
+          {filteredJobs.length > 0 && (
+            <span className="ml-2 text-sm font-normal text-gray-600">
+              ({filteredJobs.length} job{filteredJobs.length !== 1 ? 's' : ''} at {groupedJobs.length} compan{groupedJobs.length !== 1 ? 'ies' : 'y'})
+            </span>
+          )}
+        </h2>
+
+        {jobs.length > 0 && (
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleScoreJobs}
+              disabled={isScoring}
+              className="flex items-center gap-2 px-3 py-2 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors disabled:opacity-50"
+              title="Score each job against your skill profile"
+            >
+              <Sparkles className="h-4 w-4" />
+              {isScoring ? 'Scoring...' : 'Score with AI'}
+            </button>
+            <select
+              value={sortBy}
+              onChange={(e) => setSortBy(e.target.value as 'company' | 'score')}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="company">By company</option>
+              <option value="score">By score</option>
+            </select>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={remoteOnly}
+                onChange={(e) => setRemoteOnly(e.target.checked)}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              Remote only
+            </label>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <input
+                type="text"
+                placeholder="Search roles or companies..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 w-64"
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {groupedJobs.length === 0 ? (
+        <div className="text-center py-12 bg-gray-50 rounded-lg border border-dashed border-gray-300">
+          <Briefcase className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">
+            {jobs.length === 0 ? 'No jobs found' : 'No matches found'}
+          </h3>
+          <p className="text-gray-600">
+            {jobs.length > 0
+              ? 'Try adjusting your search or filters.'
+              : selectedSession.status === 'running'
+              ? 'Crawl is still in progress. Jobs will appear here as they are discovered.'
+              : 'No open roles were found at this session\'s companies.'}
+          </p>
+        </div>
+      ) : sortBy === 'score' ? (
+        <div className="border rounded-lg bg-white shadow-sm">
+          <ul className="divide-y">
+            {scoredJobs.map(job => renderJob(job, true))}
+          </ul>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {groupedJobs.map(({ companyName, companyLinkedInUrl, jobs: companyJobs }) => (
+            <div key={companyName} className="border rounded-lg bg-white shadow-sm">
+              <div className="border-b bg-gray-50 px-6 py-3 flex items-center gap-2">
+                <h3 className="text-lg font-semibold text-gray-900">{companyName}</h3>
+                {companyLinkedInUrl && (
+                  <a
+                    href={companyLinkedInUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-blue-600 hover:text-blue-800 transition-colors"
+                    title="View on LinkedIn"
+                  >
+                    <ExternalLink className="h-4 w-4" />
+                  </a>
+                )}
+                <span className="text-sm text-gray-600">
+                  {companyJobs.length} role{companyJobs.length !== 1 ? 's' : ''}
+                </span>
+              </div>
+
+              <ul className="divide-y">
+                {companyJobs.map(job => renderJob(job, false))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Sparkles, Save } from 'lucide-react';
+import { StorageManager } from '@/lib/storage';
+
+interface SkillProfileSettingsProps {
+  accountId: string;
+}
+
+export default function SkillProfileSettings({ accountId }: SkillProfileSettingsProps) {
+  const [skillsText, setSkillsText] = useState('');
+  const [remoteOnly, setRemoteOnly] = useState(false);
+  const [notes, setNotes] = useState('');
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const storedProfile = StorageManager.getSkillProfile(accountId);
+    setSkillsText(storedProfile?.skills.join(', ') ?? '');
+    setRemoteOnly(storedProfile?.remoteOnly ?? false);
+    setNotes(storedProfile?.notes || '');
+    setIsLoaded(true);
+  }, [accountId]);
+
+  const handleSave = () => {
+    setIsSaving(true);
+    StorageManager.saveSkillProfile(accountId, {
+      skills: skillsText.split(',').map(skill => skill.trim()).filter(Boolean),
+      remoteOnly,
+      notes: notes.trim() || undefined
+    });
+
+    setTimeout(() => {
+      setIsSaving(false);
+    }, 500);
+  };
+
+  if (!isLoaded) {
+    return <div className="animate-pulse bg-gray-200 h-48 rounded-lg"></div>;
+  }
+
+  return (
+    <div className="bg-white rounded-lg border shadow-sm p-6">
+      <div className="flex items-center gap-2 mb-6">
+        <Sparkles className="h-5 w-5 text-green-600" />
+        <h2 className="text-lg font-semibold">Skill Profile</h2>
+      </div>
+
+      <div className="space-y-6">
+        <div>
+          <label htmlFor="skills" className="block text-sm font-medium text-gray-700 mb-2">
+            Skills
+          </label>
+          <input
+            type="text"
+            id="skills"
+            value={skillsText}
+            onChange={(e) => setSkillsText(e.target.value)}
+            placeholder="React, TypeScript, Node.js, GraphQL"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
+          />
+          <p className="text-xs text-gray-600 mt-1">
+            Comma-separated. Jobs are scored by GPT-4o-mini against these skills using your OpenAI API key.
+          </p>
+        </div>
+
+        <div>
+          <div className="flex items-center gap-3">
+            <input
+              type="checkbox"
+              id="remoteOnly"
+              checked={remoteOnly}
+              onChange={(e) => setRemoteOnly(e.target.checked)}
+              className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
+            />
+            <label htmlFor="remoteOnly" className="text-sm font-medium text-gray-700">
+              Remote only
+            </label>
+          </div>
+          <p className="text-xs text-gray-600 mt-2 ml-7">
+            Roles that aren&apos;t remote get a low score.
+          </p>
+        </div>
+
+        <div>
+          <label htmlFor="profileNotes" className="block text-sm font-medium text-gray-700 mb-2">
+            Notes (optional)
+          </label>
+          <textarea
+            id="profileNotes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={2}
+            placeholder="e.g. Senior level, prefer developer tools companies"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500"
+          />
+        </div>
+
+        <div className="pt-4 border-t">
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 transition-colors disabled:opacity-50"
+          >
+            <Save className="h-4 w-4" />
+            {isSaving ? 'Saved!' : 'Save Profile'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
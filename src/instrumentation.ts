@@ -0,0 +1,11 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  // The queue and scheduler need SQLite and Playwright, so only the Node.js runtime starts them.
+  // Starting the queue here also recovers crawls the previous server left running.
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { getCrawlQueue } = await import('./lib/crawl-queue');
+    const { startCrawlScheduler } = await import('./lib/crawl-scheduler');
+    getCrawlQueue();
+    startCrawlScheduler();
+  }
+}
@@ -0,0 +1,34 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getPendingChallenge, respondToChallenge, waitForChallengeResponse } from './challenge-handoff';
+import { CrawlCancelledError } from './crawl-control';
+import { SecurityChallenge } from '@/types';
+
+const CHALLENGE: SecurityChallenge = {
+  type: 'verification_code',
+  url: 'https://www.linkedin.com/checkpoint/challenge/abc',
+  message: 'LinkedIn requires a security check before continuing.',
+  headless: true
+};
+
+describe('waitForChallengeResponse', () => {
+  it('resolves with the user\'s response', async () => {
+    const response = waitForChallengeResponse('session-1', CHALLENGE);
+
+    assert.deepEqual(getPendingChallenge('session-1'), CHALLENGE);
+    assert.equal(respondToChallenge('session-1', { action: 'submit_code', code: '123456' }), true);
+    assert.deepEqual(await response, { action: 'submit_code', code: '123456' });
+    assert.equal(getPendingChallenge('session-1'), null);
+  });
+
+  it('stops waiting and drops the challenge when the crawl is cancelled', async () => {
+    const controller = new AbortController();
+    const response = waitForChallengeResponse('session-2', CHALLENGE, controller.signal);
+
+    controller.abort();
+
+    await assert.rejects(response, CrawlCancelledError);
+    assert.equal(getPendingChallenge('session-2'), null);
+    assert.equal(respondToChallenge('session-2', { action: 'resolved' }), false);
+  });
+});
@@ -0,0 +1,63 @@
+import { SecurityChallenge, ChallengeResponse } from '@/types';
+import { CrawlCancelledError } from './crawl-control';
+
+// How long a crawl waits for the user to deal with a security challenge before failing
+const CHALLENGE_TIMEOUT_MS = 15 * 60 * 1000;
+
+interface PendingChallenge {
+  challenge: SecurityChallenge;
+  resolve: (response: ChallengeResponse) => void;
+}
+
+// Kept on globalThis so every route bundle sees the same pending challenges
+const globalForHandoff = globalThis as unknown as {
+  pendingChallenges?: Map<string, PendingChallenge>;
+};
+const pendingChallenges = globalForHandoff.pendingChallenges ?? new Map<string, PendingChallenge>();
+globalForHandoff.pendingChallenges = pendingChallenges;
+
+// Rejects with CrawlCancelledError as soon as the signal aborts, so cancelling a crawl doesn't
+// wait for the user or the timeout
+export function waitForChallengeResponse(sessionId: string, challenge: SecurityChallenge, signal?: AbortSignal): Promise<ChallengeResponse> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CrawlCancelledError());
+      return;
+    }
+
+    const settle = () => {
+      clearTimeout(timeout);
+      signal?.removeEventListener('abort', onAbort);
+      pendingChallenges.delete(sessionId);
+    };
+    const onAbort = () => {
+      settle();
+      reject(new CrawlCancelledError());
+    };
+    const timeout = setTimeout(() => {
+      settle();
+      reject(new Error('Timed out waiting for the LinkedIn security challenge to be completed'));
+    }, CHALLENGE_TIMEOUT_MS);
+
+    signal?.addEventListener('abort', onAbort);
+    pendingChallenges.set(sessionId, {
+      challenge,
+      resolve: (response) => {
+        settle();
+        resolve(response);
+      }
+    });
+  });
+}
+
+export function getPendingChallenge(sessionId: string): SecurityChallenge | null {
+  return pendingChallenges.get(sessionId)?.challenge ?? null;
+}
+
+export function respondToChallenge(sessionId: string, response: ChallengeResponse): boolean {
+  const pending = pendingChallenges.get(sessionId);
+  if (!pending) return false;
+
+  pending.resolve(response);
+  return true;
+}
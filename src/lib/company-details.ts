@@ -0,0 +1,65 @@
+import { Company } from '@/types';
+
+// A company's About page as read by the crawler: the overview's label/value pairs and the
+// summary line items under the company name
+export interface RawCompanyAbout {
+  details: Array<{ label: string; values: string[] }>;
+  topCardItems: string[];
+}
+
+export type CompanyDetails = Pick<Company, 'industry' | 'size' | 'location' | 'website' | 'headcount' | 'headquarters' | 'followerCount'>;
+
+export const DEFAULT_COMPANY_REFRESH_DAYS = 30;
+
+const FOLLOWERS = /([\d.,]+\s*[KM]?)\s+followers?/i;
+const ASSOCIATED_MEMBERS = /([\d.,]+\s*[KM]?)\s+(?:associated members?|employees? on linkedin)/i;
+const EMPLOYEES = /employees?/i;
+
+// "12,345" -> 12345, "1.2K" -> 1200, "3M" -> 3000000
+export function parseCount(text: string): number | undefined {
+  const match = text.replace(/,/g, '').match(/([\d.]+)\s*([KM])?/i);
+  if (!match) return undefined;
+
+  const multiplier = { k: 1000, m: 1000000 }[match[2]?.toLowerCase() as 'k' | 'm'] || 1;
+  const count = Math.round(parseFloat(match[1]) * multiplier);
+  return Number.isFinite(count) ? count : undefined;
+}
+
+export function parseCompanyAbout(about: RawCompanyAbout): CompanyDetails {
+  const detail = (label: string) => about.details.find(d => d.label.toLowerCase() === label)?.values ?? [];
+
+  const sizeValues = detail('company size');
+  const industry = detail('industry')[0];
+  const headquarters = detail('headquarters')[0];
+  const membersLine = sizeValues.find(value => ASSOCIATED_MEMBERS.test(value));
+  const followersLine = about.topCardItems.find(item => FOLLOWERS.test(item));
+
+  // The summary line is "Industry · Location · N followers · N employees"; the location is
+  // whatever is left once the known items are taken out
+  const location = about.topCardItems.find(item =>
+    item !== industry && !FOLLOWERS.test(item) && !EMPLOYEES.test(item)
+  );
+
+  return {
+    industry,
+    size: sizeValues.find(value => value !== membersLine),
+    location: location || headquarters,
+    website: detail('website')[0],
+    headcount: membersLine ? parseCount(membersLine.match(ASSOCIATED_MEMBERS)![1]) : undefined,
+    headquarters,
+    followerCount: followersLine ? parseCount(followersLine.match(FOLLOWERS)![1]) : undefined
+  };
+}
+
+export function isCompanyDetailsStale(detailsUpdatedAt: string | undefined, maxAgeDays: number, now = Date.now()): boolean {
+  if (!detailsUpdatedAt) return true;
+  return now - new Date(detailsUpdatedAt).getTime() > maxAgeDays * 24 * 60 * 60 * 1000;
+}
+
+// Comparable company size: the LinkedIn headcount when known, otherwise the lower bound of
+// the size band ("51-200 employees" -> 51, "10,001+ employees" -> 10001)
+export function companySizeRank(company: Pick<Company, 'size' | 'headcount'>): number {
+  if (company.headcount !== undefined && company.headcount !== null) return company.headcount;
+  const lowerBound = company.size?.replace(/,/g, '').match(/\d+/);
+  return lowerBound ? Number(lowerBound[0]) : -1;
+}
@@ -0,0 +1,98 @@
+import path from 'path';
+import fs from 'fs';
+import { CrawlArtifact } from '@/types';
+
+const ARTIFACTS_DIR = path.join(process.cwd(), 'data', 'artifacts');
+// Only files named the way this store names them are listed or served
+const ARTIFACT_FILE = /^[a-zA-Z0-9_-]+\.(png|html|zip)$/;
+// Session ids are UUIDs; anything else could point outside the artifacts directory
+const SESSION_ID = /^[a-zA-Z0-9-]+$/;
+
+const KIND_BY_EXTENSION: Record<string, CrawlArtifact['kind']> = {
+  '.png': 'screenshot',
+  '.html': 'html',
+  '.zip': 'trace'
+};
+
+// Keeps the files that help work out why a crawl went wrong: a Playwright trace per
+// session plus a screenshot and the HTML of each page an extraction failed on
+export class CrawlArtifactStore {
+  static getSessionDir(sessionId: string): string {
+    if (!SESSION_ID.test(sessionId)) {
+      throw new Error(`Invalid session id: ${sessionId}`);
+    }
+    return path.join(ARTIFACTS_DIR, sessionId);
+  }
+
+  static ensureSessionDir(sessionId: string): string {
+    const dir = this.getSessionDir(sessionId);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    return dir;
+  }
+
+  // Playwright writes the trace itself when tracing stops. A browser relaunched mid-crawl
+  // (e.g. headed for a security check) records a second trace rather than overwriting the first.
+  static nextTracePath(sessionId: string): string {
+    const dir = this.ensureSessionDir(sessionId);
+    let file = 'trace.zip';
+    for (let n = 2; fs.existsSync(path.join(dir, file)); n++) {
+      file = `trace-${n}.zip`;
+    }
+    return path.join(dir, file);
+  }
+
+  // Saves whichever of the screenshot and HTML could be read and returns their file names
+  static saveFailure(sessionId: string, reason: string, screenshot: Buffer | null, html: string | null): string[] {
+    const dir = this.ensureSessionDir(sessionId);
+    const slug = reason.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60);
+    const base = `${new Date().toISOString().replace(/[:.]/g, '-')}_${slug || 'failure'}`;
+    const files: string[] = [];
+
+    if (screenshot) {
+      fs.writeFileSync(path.join(dir, `${base}.png`), screenshot);
+      files.push(`${base}.png`);
+    }
+    if (html !== null) {
+      fs.writeFileSync(path.join(dir, `${base}.html`), html);
+      files.push(`${base}.html`);
+    }
+
+    return files;
+  }
+
+  static list(sessionId: string): CrawlArtifact[] {
+    const dir = this.getSessionDir(sessionId);
+    if (!fs.existsSync(dir)) return [];
+
+    return fs.readdirSync(dir)
+      .filter(file => ARTIFACT_FILE.test(file))
+      .map(file => {
+        const stats = fs.statSync(path.join(dir, file));
+        return {
+          file,
+          kind: KIND_BY_EXTENSION[path.extname(file)],
+          size: stats.size,
+          createdAt: stats.mtime.toISOString()
+        };
+      })
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  // Returns the file's path, or null when the name isn't one of the session's artifacts
+  static getFilePath(sessionId: string, file: string): string | null {
+    if (!ARTIFACT_FILE.test(file)) return null;
+
+    const filePath = path.join(this.getSessionDir(sessionId), file);
+    return fs.existsSync(filePath) ? filePath : null;
+  }
+
+  static getKind(file: string): CrawlArtifact['kind'] {
+    return KIND_BY_EXTENSION[path.extname(file)];
+  }
+
+  static deleteSession(sessionId: string): void {
+    fs.rmSync(this.getSessionDir(sessionId), { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,68 @@
+export class CrawlCancelledError extends Error {
+  constructor() {
+    super('Cancelled by user');
+    this.name = 'CrawlCancelledError';
+  }
+}
+
+// Cancel and pause requests for a running crawl. The crawler calls checkpoint() before every
+// navigation, so a request takes effect once the current page is done and the browser stays
+// open while paused.
+export class CrawlControl {
+  private abortController = new AbortController();
+  private pauseGate: Promise<void> | null = null;
+  private releasePause: (() => void) | null = null;
+
+  get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  get isCancelled(): boolean {
+    return this.abortController.signal.aborted;
+  }
+
+  get isPaused(): boolean {
+    return this.pauseGate !== null;
+  }
+
+  cancel(): void {
+    this.abortController.abort();
+    // Wake a paused crawl so it can stop
+    this.release();
+  }
+
+  pause(): boolean {
+    if (this.isCancelled || this.isPaused) return false;
+
+    this.pauseGate = new Promise(resolve => {
+      this.releasePause = resolve;
+    });
+    return true;
+  }
+
+  resume(): boolean {
+    if (!this.isPaused) return false;
+
+    this.release();
+    return true;
+  }
+
+  // Throws CrawlCancelledError once the crawl is cancelled and waits while it's paused
+  async checkpoint(): Promise<void> {
+    this.throwIfCancelled();
+    while (this.pauseGate) {
+      await this.pauseGate;
+    }
+    this.throwIfCancelled();
+  }
+
+  private throwIfCancelled(): void {
+    if (this.isCancelled) throw new CrawlCancelledError();
+  }
+
+  private release(): void {
+    this.releasePause?.();
+    this.pauseGate = null;
+    this.releasePause = null;
+  }
+}
@@ -0,0 +1,65 @@
+import { getDatabase } from './database';
+import { CrawlEvent, CrawlEventLevel, CrawlEventType } from '@/types';
+
+interface LogDetails {
+  url?: string;
+  payload?: Record<string, unknown>;
+  error?: unknown;
+}
+
+type LogListener = (event: Omit<CrawlEvent, 'id' | 'createdAt'>) => void;
+
+// Writes crawl output to the terminal and, when it belongs to a session, to the session's
+// crawl_events log so it can be browsed after the crawl. Without a session (e.g. fixture
+// replay) it only prints.
+export class CrawlLogger {
+  private listener: LogListener | null = null;
+
+  constructor(private sessionId: string | null = null) {}
+
+  // Told about every event written for the session, e.g. to stream warnings to the UI
+  setListener(listener: LogListener | null): void {
+    this.listener = listener;
+  }
+
+  debug(type: CrawlEventType, message: string, details?: LogDetails): void {
+    this.log('debug', type, message, details);
+  }
+
+  info(type: CrawlEventType, message: string, details?: LogDetails): void {
+    this.log('info', type, message, details);
+  }
+
+  warn(type: CrawlEventType, message: string, details?: LogDetails): void {
+    this.log('warn', type, message, details);
+  }
+
+  error(type: CrawlEventType, message: string, details?: LogDetails): void {
+    this.log('error', type, message, details);
+  }
+
+  log(level: CrawlEventLevel, type: CrawlEventType, message: string, details: LogDetails = {}): void {
+    const { url, error } = details;
+    const payload = error === undefined
+      ? details.payload
+      : { ...details.payload, error: error instanceof Error ? error.message : String(error) };
+
+    const print = level === 'error' ? console.error : level === 'warn' ? console.warn : console.log;
+    if (error === undefined) {
+      print(message);
+    } else {
+      print(`${message}:`, error);
+    }
+
+    if (!this.sessionId) return;
+
+    const event = { crawlSessionId: this.sessionId, level, type, message, url, payload };
+    try {
+      getDatabase().addCrawlEvent(event);
+    } catch (dbError) {
+      // Losing a log line must never stop the crawl
+      console.error('Failed to store crawl event:', dbError);
+    }
+    this.listener?.(event);
+  }
+}
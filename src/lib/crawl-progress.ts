@@ -0,0 +1,78 @@
+import { CrawlProgressEvent, CrawlSession } from '@/types';
+
+// Events kept per session so a console opened mid-crawl can show what happened so far
+const MAX_RECENT_EVENTS = 200;
+// Sessions whose events are kept; the oldest are dropped first
+const MAX_TRACKED_SESSIONS = 20;
+
+// Statuses after which a session's stream has nothing more to send
+export const FINISHED_CRAWL_STATUSES: CrawlSession['status'][] = ['completed', 'failed', 'cancelled', 'interrupted'];
+
+type ProgressListener = (event: CrawlProgressEvent) => void;
+
+interface ProgressChannel {
+  events: CrawlProgressEvent[];
+  listeners: Set<ProgressListener>;
+}
+
+// Kept on globalThis so the crawl runner and the stream route share the same channels
+const globalForProgress = globalThis as unknown as {
+  crawlProgressChannels?: Map<string, ProgressChannel>;
+};
+const channels = globalForProgress.crawlProgressChannels ?? new Map<string, ProgressChannel>();
+globalForProgress.crawlProgressChannels = channels;
+
+function getChannel(sessionId: string): ProgressChannel {
+  let channel = channels.get(sessionId);
+  if (!channel) {
+    channel = { events: [], listeners: new Set() };
+    channels.set(sessionId, channel);
+
+    for (const [id, other] of Array.from(channels)) {
+      if (channels.size <= MAX_TRACKED_SESSIONS) break;
+      if (other.listeners.size === 0) channels.delete(id);
+    }
+  }
+  return channel;
+}
+
+export function publishCrawlProgress(sessionId: string, event: Omit<CrawlProgressEvent, 'timestamp'>): void {
+  const channel = getChannel(sessionId);
+  const stamped: CrawlProgressEvent = { ...event, timestamp: new Date().toISOString() };
+
+  channel.events.push(stamped);
+  if (channel.events.length > MAX_RECENT_EVENTS) {
+    channel.events.splice(0, channel.events.length - MAX_RECENT_EVENTS);
+  }
+
+  channel.listeners.forEach(listener => {
+    try {
+      listener(stamped);
+    } catch (error) {
+      console.error('Crawl progress listener failed:', error);
+    }
+  });
+}
+
+// Returns a function that stops the subscription
+export function subscribeToCrawlProgress(sessionId: string, listener: ProgressListener): () => void {
+  const channel = getChannel(sessionId);
+  channel.listeners.add(listener);
+  return () => {
+    channel.listeners.delete(listener);
+  };
+}
+
+export function getRecentCrawlProgress(sessionId: string): CrawlProgressEvent[] {
+  return [...(channels.get(sessionId)?.events ?? [])];
+}
+
+// Drops events from an earlier run of the session, e.g. before it's resumed
+export function clearCrawlProgress(sessionId: string): void {
+  const channel = channels.get(sessionId);
+  if (channel) channel.events = [];
+}
+
+export function publishCrawlStatus(sessionId: string, status: CrawlSession['status'], message: string): void {
+  publishCrawlProgress(sessionId, { type: 'status', status, message });
+}
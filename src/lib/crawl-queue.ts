@@ -0,0 +1,189 @@
+import DatabaseManager, { getDatabase } from './database';
+import { runCrawl, cancelCrawl } from './crawl-runner';
+import type { CrawlRunOptions } from './crawl-runner';
+import { clearCrawlProgress, publishCrawlStatus } from './crawl-progress';
+import { CrawlSession, CrawlSettings, QueuedCrawl } from '@/types';
+
+const POLL_INTERVAL_MS = 2000;
+// A crawl whose worker hasn't renewed its lease for this long is treated as abandoned
+const LEASE_MS = 60 * 1000;
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+// Times a crawl is restarted after its worker disappeared before it's marked interrupted
+const MAX_ATTEMPTS = 3;
+
+const INTERRUPTED_ERROR = 'The server stopped while this crawl was running. Resume it to continue from its checkpoint.';
+
+interface CrawlQueueOptions {
+  db: DatabaseManager;
+  runCrawl: (session: CrawlSession, options: CrawlRunOptions) => Promise<void>;
+  cancelCrawl: (sessionId: string) => boolean;
+  now?: () => number;
+  workerId?: string;
+  pollIntervalMs?: number;
+  heartbeatIntervalMs?: number;
+}
+
+// Database-backed crawl queue with a single worker loop. Each LinkedIn account runs one
+// crawl (one browser) at a time; other accounts' crawls run alongside it. Running crawls hold
+// a lease that the worker's heartbeat renews, so crawls left behind by a crashed or reloaded
+// server are found and requeued.
+export class CrawlQueue {
+  private options: Required<CrawlQueueOptions>;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: CrawlQueueOptions) {
+    this.options = {
+      now: Date.now,
+      workerId: crypto.randomUUID(),
+      pollIntervalMs: POLL_INTERVAL_MS,
+      heartbeatIntervalMs: HEARTBEAT_INTERVAL_MS,
+      ...options
+    };
+  }
+
+  start(): void {
+    if (this.pollTimer) return;
+
+    this.recoverOrphanedSessions();
+    this.poll();
+    this.pollTimer = setInterval(() => this.poll(), this.options.pollIntervalMs);
+    this.heartbeatTimer = setInterval(() => this.heartbeat(), this.options.heartbeatIntervalMs);
+    // Don't keep the process alive just for the worker
+    this.pollTimer.unref?.();
+    this.heartbeatTimer.unref?.();
+  }
+
+  stop(): void {
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    this.pollTimer = null;
+    this.heartbeatTimer = null;
+  }
+
+  // Queues a crawl for an existing session and marks the session pending. Only the account id
+  // is stored; the crawl reads the password from the credential vault when it starts.
+  enqueue(session: CrawlSession, accountId: string, settings: CrawlSettings, resume = false): void {
+    const { db } = this.options;
+
+    db.enqueueCrawl({ crawlSessionId: session.id, accountId, settings, resume });
+    db.updateCrawlSession(session.id, resume ? { status: 'pending', error: null } : { status: 'pending' });
+    clearCrawlProgress(session.id);
+    publishCrawlStatus(session.id, 'pending', 'Queued');
+
+    this.poll();
+  }
+
+  isQueued(sessionId: string): boolean {
+    return this.options.db.getActiveQueuedCrawl(sessionId) !== null;
+  }
+
+  // Takes a crawl out of the queue, or asks it to stop if it's already running
+  cancel(sessionId: string): boolean {
+    const { db } = this.options;
+    const queued = db.getActiveQueuedCrawl(sessionId);
+    if (!queued) return false;
+
+    if (queued.status === 'running' && this.options.cancelCrawl(sessionId)) {
+      return true;
+    }
+
+    db.finishQueuedCrawl(queued.id);
+    db.updateCrawlSession(sessionId, { status: 'cancelled' });
+    publishCrawlStatus(sessionId, 'cancelled', 'Removed from the queue');
+    return true;
+  }
+
+  // Recovers abandoned crawls, then starts every queued crawl whose account is free
+  poll(): void {
+    try {
+      this.recoverExpiredLeases();
+
+      let claimed: QueuedCrawl | null;
+      while ((claimed = this.options.db.claimQueuedCrawl(this.options.workerId, this.leaseExpiry()))) {
+        this.startClaimed(claimed);
+      }
+    } catch (error) {
+      console.error('Crawl queue poll failed:', error);
+    }
+  }
+
+  heartbeat(): void {
+    try {
+      this.options.db.renewCrawlLeases(this.options.workerId, this.leaseExpiry());
+    } catch (error) {
+      console.error('Crawl queue heartbeat failed:', error);
+    }
+  }
+
+  private startClaimed(claimed: QueuedCrawl): void {
+    const { db } = this.options;
+    const session = db.getCrawlSession(claimed.crawlSessionId);
+
+    if (!session) {
+      db.finishQueuedCrawl(claimed.id);
+      return;
+    }
+
+    this.options.runCrawl(session, {
+      accountId: claimed.accountId,
+      settings: claimed.settings,
+      resume: claimed.resume
+    })
+      .catch(error => console.error(`Crawl for session ${session.id} ended with an error:`, error))
+      .finally(() => {
+        db.finishQueuedCrawl(claimed.id);
+        // The account's browser is free again
+        this.poll();
+      });
+  }
+
+  private recoverExpiredLeases(): void {
+    const { db } = this.options;
+
+    for (const crawl of db.getExpiredCrawlLeases(new Date(this.options.now()).toISOString())) {
+      // A paused crawl lost its browser with the worker; restarting it would undo the pause
+      const wasPaused = db.getCrawlSession(crawl.crawlSessionId)?.status === 'paused';
+
+      if (crawl.attempts < MAX_ATTEMPTS && !wasPaused) {
+        console.log(`Requeueing crawl for session ${crawl.crawlSessionId} after its worker stopped`);
+        db.requeueCrawl(crawl.id);
+        db.updateCrawlSession(crawl.crawlSessionId, { status: 'pending' });
+        publishCrawlStatus(crawl.crawlSessionId, 'pending', 'The crawl stopped responding and was queued again');
+      } else {
+        db.finishQueuedCrawl(crawl.id);
+        db.updateCrawlSession(crawl.crawlSessionId, { status: 'interrupted', error: INTERRUPTED_ERROR });
+        publishCrawlStatus(crawl.crawlSessionId, 'interrupted', INTERRUPTED_ERROR);
+      }
+    }
+  }
+
+  // Sessions left running by a server that stopped before the queue existed, or whose queue
+  // entry is gone, can't be picked up again automatically
+  private recoverOrphanedSessions(): void {
+    const { db } = this.options;
+
+    for (const session of db.getOrphanedCrawlSessions()) {
+      console.log(`Marking orphaned crawl session ${session.id} as interrupted`);
+      db.updateCrawlSession(session.id, { status: 'interrupted', error: INTERRUPTED_ERROR });
+    }
+  }
+
+  private leaseExpiry(): string {
+    return new Date(this.options.now() + LEASE_MS).toISOString();
+  }
+}
+
+// One worker per server process, shared by every route bundle
+const globalForQueue = globalThis as unknown as {
+  crawlQueue?: CrawlQueue;
+};
+
+export function getCrawlQueue(): CrawlQueue {
+  if (!globalForQueue.crawlQueue) {
+    globalForQueue.crawlQueue = new CrawlQueue({ db: getDatabase(), runCrawl, cancelCrawl });
+    globalForQueue.crawlQueue.start();
+    console.log('Crawl queue worker started');
+  }
+  return globalForQueue.crawlQueue;
+}
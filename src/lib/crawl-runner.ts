@@ -0,0 +1,192 @@
+import { getDatabase } from './database';
+import { LinkedInCrawler } from './linkedin-crawler';
+import { waitForChallengeResponse } from './challenge-handoff';
+import { LlmExtractor } from './llm-extraction';
+import { createOpenAIClient } from './openai-client';
+import { CrawlControl } from './crawl-control';
+import { publishCrawlProgress, publishCrawlStatus } from './crawl-progress';
+import { CrawlLogger } from './crawl-logger';
+import { getCredentialVault } from './credential-vault';
+import { CrawlSession, CrawlSettings } from '@/types';
+
+export interface CrawlRunOptions {
+  accountId: string; // LinkedIn email; its password is read from the credential vault
+  settings: CrawlSettings;
+  resume?: boolean;
+}
+
+// Kept on globalThis so every route bundle sees the same running crawls
+const globalForRunner = globalThis as unknown as {
+  activeCrawls?: Map<string, CrawlControl>;
+};
+const activeCrawls = globalForRunner.activeCrawls ?? new Map<string, CrawlControl>();
+globalForRunner.activeCrawls = activeCrawls;
+
+// Runs a crawl for an existing session. Progress and the outcome are written to the
+// session; the promise resolves once the crawl has finished and its browser is closed.
+export async function runCrawl(session: CrawlSession, options: CrawlRunOptions): Promise<void> {
+  const logger = new CrawlLogger(session.id);
+  // Warnings and errors also show up in the live console
+  logger.setListener((event) => {
+    if (event.level === 'warn' || event.level === 'error') {
+      publishCrawlProgress(session.id, { type: 'warning', message: event.message });
+    }
+  });
+
+  const crawler = new LinkedInCrawler(options.settings, logger);
+  // The OpenAI key only goes to the crawler when LLM fallback extraction is turned on
+  const openAIConfig = options.settings.llmFallback ? getCredentialVault().getOpenAIConfig() : null;
+  if (openAIConfig) {
+    crawler.setLlmExtractor(new LlmExtractor(createOpenAIClient(openAIConfig.apiKey)));
+  }
+
+  crawler.setArtifactSession(session.id);
+  getDatabase().updateCrawlSession(session.id, { settings: options.settings });
+
+  const control = new CrawlControl();
+  crawler.setCrawlControl(control);
+  crawler.setActivityListener((activity) => publishCrawlProgress(session.id, { type: 'activity', ...activity }));
+  activeCrawls.set(session.id, control);
+
+  await crawlSession(session, options.accountId, crawler, control, logger, Boolean(options.resume));
+}
+
+// Asks a running crawl to stop. It finishes the current page, closes its browser and marks
+// the session cancelled. Returns false when the session has no running crawl.
+export function cancelCrawl(sessionId: string): boolean {
+  const control = activeCrawls.get(sessionId);
+  if (!control) return false;
+
+  control.cancel();
+  publishCrawlProgress(sessionId, { type: 'activity', message: 'Cancelling after the current page...' });
+  return true;
+}
+
+// Holds a running crawl before its next navigation, keeping the browser open
+export function pauseCrawl(sessionId: string): boolean {
+  const control = activeCrawls.get(sessionId);
+  const db = getDatabase();
+  if (!control || db.getCrawlSession(sessionId)?.status !== 'running' || !control.pause()) {
+    return false;
+  }
+
+  db.updateCrawlSession(sessionId, { status: 'paused' });
+  publishCrawlStatus(sessionId, 'paused', 'Paused before the next page. The browser stays open.');
+  return true;
+}
+
+export function resumePausedCrawl(sessionId: string): boolean {
+  const control = activeCrawls.get(sessionId);
+  if (!control?.resume()) return false;
+
+  getDatabase().updateCrawlSession(sessionId, { status: 'running' });
+  publishCrawlStatus(sessionId, 'running', 'Continuing');
+  return true;
+}
+
+async function crawlSession(
+  session: CrawlSession,
+  accountId: string,
+  crawler: LinkedInCrawler,
+  control: CrawlControl,
+  logger: CrawlLogger,
+  resume: boolean
+) {
+  const db = getDatabase();
+  const sessionId = session.id;
+
+  try {
+    // Update session to running. Resumed sessions keep their progress and continue
+    // from the stored checkpoint.
+    if (resume) {
+      db.updateCrawlSession(sessionId, { status: 'running', error: null });
+    } else {
+      db.updateCrawlSession(sessionId, { status: 'running', progress: 0 });
+    }
+    publishCrawlStatus(sessionId, 'running', resume ? 'Resuming from the last checkpoint' : 'Starting crawl');
+    logger.info('crawl', `${resume ? 'Resuming' : 'Starting'} ${session.mode.replace(/_/g, ' ')} crawl`);
+
+    // Pause in waiting_for_user while the user completes a LinkedIn security challenge
+    crawler.setChallengeHandler(async (challenge) => {
+      db.updateCrawlSession(sessionId, { status: 'waiting_for_user' });
+      publishCrawlStatus(sessionId, 'waiting_for_user', 'LinkedIn asked for a security check. Complete it in Crawl History.');
+      try {
+        return await waitForChallengeResponse(sessionId, challenge, control.signal);
+      } finally {
+        // A cancelled crawl is marked cancelled by the catch below instead
+        if (!control.isCancelled) {
+          db.updateCrawlSession(sessionId, { status: 'running' });
+          publishCrawlStatus(sessionId, 'running', 'Security check handled, continuing');
+        }
+      }
+    });
+
+    // Initialize crawler
+    publishCrawlProgress(sessionId, { type: 'activity', message: 'Launching browser and logging in...' });
+    await crawler.initialize(accountId);
+
+    // Login to LinkedIn
+    const loginSuccess = await crawler.login();
+    if (!loginSuccess) {
+      // Without the vault unlocked, only the saved browser session can log in
+      throw new Error(getCredentialVault().getCredentials(accountId)
+        ? 'LinkedIn login failed'
+        : 'LinkedIn login failed: the saved browser session has expired and no password is available. Unlock the credential vault in Settings, then resume the crawl.');
+    }
+
+    if (!resume) {
+      db.updateCrawlSession(sessionId, { progress: 5 });
+    }
+
+    // Progress callback
+    const onProgress = (progress: number, message: string) => {
+      db.updateCrawlSession(sessionId, { progress: Math.round(progress) });
+      publishCrawlProgress(sessionId, { type: 'progress', progress: Math.round(progress), message });
+    };
+
+    // Start appropriate crawl
+    if (session.mode === 'first_connections') {
+      await crawler.crawlFirstDegreeConnections(sessionId, onProgress);
+    } else if (session.mode === 'friends_of_friends') {
+      await crawler.crawlFriendsOfFriends(sessionId, onProgress);
+    } else if (!session.sourceSessionId) {
+      // Jobs and enrichment crawls work from another session's results
+      throw new Error(`A ${session.mode.replace(/_/g, ' ')} session needs a source session`);
+    } else if (session.mode === 'jobs') {
+      await crawler.crawlCompanyJobs(sessionId, session.sourceSessionId, onProgress);
+    } else {
+      await crawler.crawlProfileEnrichment(sessionId, session.sourceSessionId, onProgress);
+    }
+
+    // Mark as completed
+    db.updateCrawlSession(sessionId, {
+      status: 'completed',
+      progress: 100
+    });
+    publishCrawlStatus(sessionId, 'completed', 'Crawl completed');
+    logger.info('crawl', 'Crawl completed');
+
+  } catch (error) {
+    // The crawl methods wrap errors in their own messages, so check the control rather than the error
+    if (control.isCancelled) {
+      logger.info('crawl', 'Crawl cancelled by user');
+      db.updateCrawlSession(sessionId, { status: 'cancelled' });
+      publishCrawlStatus(sessionId, 'cancelled', 'Crawl cancelled');
+      return;
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('crawl', 'Crawl failed', { error });
+    await crawler.captureFailure('Crawl failed');
+
+    db.updateCrawlSession(sessionId, {
+      status: 'failed',
+      error: errorMessage
+    });
+    publishCrawlStatus(sessionId, 'failed', errorMessage);
+  } finally {
+    // Clean up
+    await crawler.close();
+    activeCrawls.delete(sessionId);
+  }
+}
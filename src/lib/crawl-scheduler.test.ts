@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import DatabaseManager from './database';
+import { CrawlScheduler, summarizeSchedule } from './crawl-scheduler';
+import { CrawlSession } from '@/types';
+
+const ACCOUNT = 'me@example.com';
+
+// Mondays at 9:00, in local time like the scheduler itself
+const CRON = '0 9 * * 1';
+const MONDAY_9AM = new Date(2026, 0, 5, 9, 0);
+const NEXT_MONDAY_9AM = new Date(2026, 0, 12, 9, 0);
+
+describe('CrawlScheduler', () => {
+  let dir: string;
+  let db: DatabaseManager;
+  let clock: number;
+  let enqueued: CrawlSession[];
+  let queued: Set<string>;
+  let passwords: Set<string>;
+
+  const createScheduler = () => new CrawlScheduler({
+    db,
+    enqueue: (session) => {
+      enqueued.push(session);
+      queued.add(session.id);
+    },
+    isQueued: (sessionId) => queued.has(sessionId),
+    hasPassword: (accountId) => passwords.has(accountId),
+    now: () => clock
+  });
+
+  const createSchedule = () => db.createCrawlSchedule({
+    name: 'Weekly',
+    mode: 'first_connections',
+    cron: CRON,
+    accountId: ACCOUNT,
+    settings: { rateLimit: 2500, headless: true },
+    enabled: true,
+    nextRunAt: MONDAY_9AM.toISOString()
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'crawl-scheduler-'));
+    db = new DatabaseManager(path.join(dir, 'test.db'));
+    enqueued = [];
+    queued = new Set();
+    passwords = new Set([ACCOUNT]);
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('leaves a schedule alone until it is due', () => {
+    const id = createSchedule();
+    clock = MONDAY_9AM.getTime() - 60 * 1000;
+
+    createScheduler().tick();
+
+    assert.equal(enqueued.length, 0);
+    assert.equal(db.getCrawlSchedule(id)?.nextRunAt, MONDAY_9AM.toISOString());
+  });
+
+  it('starts a due schedule and moves it to the next cron time', () => {
+    const id = createSchedule();
+    clock = MONDAY_9AM.getTime();
+
+    createScheduler().tick();
+
+    assert.equal(enqueued.length, 1);
+    assert.equal(enqueued[0].scheduleId, id);
+    assert.equal(enqueued[0].accountId, ACCOUNT);
+
+    const schedule = db.getCrawlSchedule(id);
+    assert.equal(schedule?.lastRunResult, 'started');
+    assert.equal(schedule?.lastRunAt, MONDAY_9AM.toISOString());
+    assert.equal(schedule?.nextRunAt, NEXT_MONDAY_9AM.toISOString());
+  });
+
+  it('runs a schedule missed while stopped once, then moves on from the current time', () => {
+    const id = createSchedule();
+    clock = new Date(2026, 0, 14, 12, 0).getTime();
+
+    const scheduler = createScheduler();
+    scheduler.tick();
+    scheduler.tick();
+
+    assert.equal(enqueued.length, 1);
+    assert.equal(db.getCrawlSchedule(id)?.nextRunAt, new Date(2026, 0, 19, 9, 0).toISOString());
+  });
+
+  it('fails the run up front when no password is available', () => {
+    const id = createSchedule();
+    passwords.clear();
+    clock = MONDAY_9AM.getTime();
+
+    createScheduler().tick();
+
+    assert.equal(enqueued.length, 0);
+    const schedule = db.getCrawlSchedule(id);
+    assert.equal(schedule?.lastRunResult, 'failed');
+    assert.match(schedule?.lastRunMessage || '', /No LinkedIn password/);
+    assert.equal(schedule?.nextRunAt, NEXT_MONDAY_9AM.toISOString());
+  });
+
+  it('skips a run while the previous one is still queued', () => {
+    const id = createSchedule();
+    clock = MONDAY_9AM.getTime();
+    const scheduler = createScheduler();
+    scheduler.tick();
+
+    clock = NEXT_MONDAY_9AM.getTime();
+    scheduler.tick();
+
+    assert.equal(enqueued.length, 1);
+    assert.equal(db.getCrawlSchedule(id)?.lastRunResult, 'skipped');
+  });
+
+  it('lists the upcoming run times from the next run on', () => {
+    const id = createSchedule();
+
+    assert.deepEqual(summarizeSchedule(db, db.getCrawlSchedule(id)!).upcomingRuns, [
+      MONDAY_9AM.toISOString(),
+      NEXT_MONDAY_9AM.toISOString(),
+      new Date(2026, 0, 19, 9, 0).toISOString()
+    ]);
+  });
+});
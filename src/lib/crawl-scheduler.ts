@@ -0,0 +1,159 @@
+import DatabaseManager, { getDatabase } from './database';
+import { nextCronTime } from './cron';
+import { getCrawlQueue } from './crawl-queue';
+import { getCredentialVault } from './credential-vault';
+import { CrawlSchedule, CrawlScheduleSummary, CrawlSession, CrawlSettings, ScheduledCrawlMode } from '@/types';
+
+const TICK_INTERVAL_MS = 60 * 1000;
+
+export const SCHEDULED_CRAWL_MODES: ScheduledCrawlMode[] = ['first_connections', 'friends_of_friends', 'jobs', 'profile_enrichment'];
+
+// How many upcoming run times and past sessions the UI shows per schedule
+const UPCOMING_RUNS = 3;
+const RECENT_RUNS = 5;
+
+// Sessions a scheduled jobs or profile enrichment crawl can use as its source
+const SOURCE_MODES: CrawlSession['mode'][] = ['first_connections', 'friends_of_friends', 'data_export'];
+
+interface CrawlSchedulerOptions {
+  db: DatabaseManager;
+  enqueue: (session: CrawlSession, accountId: string, settings: CrawlSettings) => void;
+  isQueued: (sessionId: string) => boolean;
+  hasPassword?: (accountId: string) => boolean;
+  now?: () => number;
+  tickIntervalMs?: number;
+}
+
+// Starts crawls for enabled schedules when they come due. Runs inside the Next.js server
+// process; `now` can be replaced to drive it from a fake clock.
+export class CrawlScheduler {
+  private options: Required<CrawlSchedulerOptions>;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: CrawlSchedulerOptions) {
+    this.options = {
+      hasPassword: (accountId) => getCredentialVault().getCredentials(accountId) !== null,
+      now: Date.now,
+      tickIntervalMs: TICK_INTERVAL_MS,
+      ...options
+    };
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    this.tick();
+    this.timer = setInterval(() => this.tick(), this.options.tickIntervalMs);
+    // Don't keep the process alive just for the scheduler
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Runs every enabled schedule that is due and moves it to its next run time
+  tick(): void {
+    const now = new Date(this.options.now());
+
+    for (const schedule of this.options.db.getAllCrawlSchedules()) {
+      if (!schedule.enabled || !schedule.nextRunAt || new Date(schedule.nextRunAt) > now) {
+        continue;
+      }
+
+      try {
+        this.runSchedule(schedule, now);
+      } catch (error) {
+        console.error(`Scheduled crawl "${schedule.name}" failed to start:`, error);
+        this.recordRun(schedule, now, 'failed', error instanceof Error ? error.message : 'Unknown error');
+      }
+    }
+  }
+
+  private runSchedule(schedule: CrawlSchedule, now: Date): void {
+    const { db } = this.options;
+
+    // A run that overlaps the previous one would share its browser profile and double the
+    // request rate, so wait for the next slot instead
+    const previousRun = db.getCrawlSessionsBySchedule(schedule.id, 1)[0];
+    if (previousRun && this.options.isQueued(previousRun.id)) {
+      this.recordRun(schedule, now, 'skipped', 'The previous run was still in progress');
+      return;
+    }
+
+    // Runs reuse the login saved by an earlier crawl, but nobody is around to notice when it
+    // has expired, so the vault's password has to be there to log in again
+    if (!this.options.hasPassword(schedule.accountId)) {
+      this.recordRun(schedule, now, 'failed', `No LinkedIn password available for ${schedule.accountId}. Unlock the credential vault or save a password for this account.`);
+      return;
+    }
+
+    let sourceSessionId: string | undefined;
+    if (schedule.mode === 'jobs' || schedule.mode === 'profile_enrichment') {
+      sourceSessionId = db.getAllCrawlSessions(schedule.accountId).find(session =>
+        SOURCE_MODES.includes(session.mode) && session.status === 'completed'
+      )?.id;
+
+      if (!sourceSessionId) {
+        this.recordRun(schedule, now, 'failed', 'No completed connections session to use as the source');
+        return;
+      }
+    }
+
+    const sessionId = db.createCrawlSession({
+      mode: schedule.mode,
+      status: 'pending',
+      progress: 0,
+      processedConnections: 0,
+      sourceSessionId,
+      scheduleId: schedule.id,
+      accountId: schedule.accountId
+    });
+
+    this.options.enqueue(db.getCrawlSession(sessionId)!, schedule.accountId, schedule.settings);
+    this.recordRun(schedule, now, 'started');
+  }
+
+  private recordRun(schedule: CrawlSchedule, now: Date, result: NonNullable<CrawlSchedule['lastRunResult']>, message?: string): void {
+    this.options.db.updateCrawlSchedule(schedule.id, {
+      nextRunAt: nextCronTime(schedule.cron, now).toISOString(),
+      lastRunAt: now.toISOString(),
+      lastRunResult: result,
+      lastRunMessage: message ?? null
+    });
+  }
+}
+
+export function summarizeSchedule(db: DatabaseManager, schedule: CrawlSchedule): CrawlScheduleSummary {
+  const upcomingRuns: string[] = [];
+  if (schedule.enabled && schedule.nextRunAt) {
+    upcomingRuns.push(schedule.nextRunAt);
+    while (upcomingRuns.length < UPCOMING_RUNS) {
+      upcomingRuns.push(nextCronTime(schedule.cron, new Date(upcomingRuns[upcomingRuns.length - 1])).toISOString());
+    }
+  }
+
+  return { ...schedule, upcomingRuns, recentRuns: db.getCrawlSessionsBySchedule(schedule.id, RECENT_RUNS) };
+}
+
+// One scheduler per server process, shared by every route bundle
+const globalForScheduler = globalThis as unknown as {
+  crawlScheduler?: CrawlScheduler;
+};
+
+export function startCrawlScheduler(): CrawlScheduler {
+  if (!globalForScheduler.crawlScheduler) {
+    const queue = getCrawlQueue();
+    globalForScheduler.crawlScheduler = new CrawlScheduler({
+      db: getDatabase(),
+      enqueue: (session, accountId, settings) => queue.enqueue(session, accountId, settings),
+      isQueued: (sessionId) => queue.isQueued(sessionId)
+    });
+    globalForScheduler.crawlScheduler.start();
+    console.log('Crawl scheduler started');
+  }
+  return globalForScheduler.crawlScheduler;
+}
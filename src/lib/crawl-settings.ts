@@ -0,0 +1,48 @@
+import { CrawlSettings } from '@/types';
+
+export const DEFAULT_CRAWL_SETTINGS: CrawlSettings = {
+  rateLimit: 2500,
+  headless: true
+};
+
+// Bounds for the numeric settings, matching the inputs in CrawlSettings.tsx
+const LIMITS: Record<'rateLimit' | 'maxConnections' | 'maxSecondDegreePerConnection' | 'maxPages' | 'maxJobsPerCompany' | 'maxEnrichedProfiles' | 'companyRefreshDays', [number, number]> = {
+  rateLimit: [1000, 10000],
+  maxConnections: [10, 500],
+  maxSecondDegreePerConnection: [1, 100],
+  maxPages: [1, 100],
+  maxJobsPerCompany: [1, 200],
+  maxEnrichedProfiles: [1, 500],
+  companyRefreshDays: [1, 365]
+};
+
+const FLAGS = ['headless', 'captureFixtures', 'llmFallback', 'enrichCompanies'] as const;
+
+// Checks settings sent by a client and keeps only the known fields. Throws with a message
+// fit for a 400 response when a value is out of range.
+export function normalizeCrawlSettings(input: unknown): CrawlSettings {
+  if (!input || typeof input !== 'object') {
+    throw new Error('Crawl settings must be an object');
+  }
+
+  const values = input as Record<string, unknown>;
+  const settings: CrawlSettings = { ...DEFAULT_CRAWL_SETTINGS };
+
+  for (const [key, [min, max]] of Object.entries(LIMITS) as Array<[keyof typeof LIMITS, [number, number]]>) {
+    if (values[key] === undefined || values[key] === null) continue;
+
+    const value = Number(values[key]);
+    if (!Number.isInteger(value) || value < min || value > max) {
+      throw new Error(`${key} must be a whole number from ${min} to ${max}`);
+    }
+    settings[key] = value;
+  }
+
+  for (const key of FLAGS) {
+    if (values[key] !== undefined) {
+      settings[key] = Boolean(values[key]);
+    }
+  }
+
+  return settings;
+}
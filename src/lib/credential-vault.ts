@@ -0,0 +1,206 @@
+import path from 'path';
+import fs from 'fs';
+import crypto from 'crypto';
+import { CredentialVaultStatus, LinkedInCredentials, OpenAIConfig } from '@/types';
+import { normalizeAccountId } from './database';
+
+const VAULT_PATH = path.join(process.cwd(), 'data', 'credential-vault.json');
+export const MIN_PASSPHRASE_LENGTH = 8;
+// Roughly 100ms and 32 MB per unlock, so guessing passphrases offline is slow
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+const SCRYPT_MAXMEM = 64 * 1024 * 1024;
+const KEY_LENGTH = 32;
+
+// On disk: the key derivation parameters and the AES-256-GCM encrypted secrets. The account
+// ids are also kept in the clear so the UI can list them and crawls can use saved browser
+// sessions while the vault is locked.
+interface VaultFile {
+  version: 1;
+  salt: string;
+  scrypt: { N: number; r: number; p: number };
+  accounts: string[];
+  hasOpenAIKey: boolean;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+interface VaultContents {
+  accounts: Record<string, LinkedInCredentials>;
+  openAI?: OpenAIConfig;
+}
+
+export class CredentialVaultLockedError extends Error {
+  constructor() {
+    super('The credential vault is locked. Unlock it in Settings first.');
+    this.name = 'CredentialVaultLockedError';
+  }
+}
+
+export class IncorrectPassphraseError extends Error {
+  constructor() {
+    super('Incorrect passphrase');
+    this.name = 'IncorrectPassphraseError';
+  }
+}
+
+function deriveKey(passphrase: string, salt: Buffer, params: VaultFile['scrypt']): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(passphrase, salt, KEY_LENGTH, { ...params, maxmem: SCRYPT_MAXMEM }, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
+
+// LinkedIn passwords and the OpenAI key, encrypted with a key derived from a master
+// passphrase. Unlocking keeps the key and secrets in server memory until the vault is
+// locked or the server restarts; the browser only ever sees the status.
+export class CredentialVault {
+  private key: Buffer | null = null;
+  private kdf: Pick<VaultFile, 'salt' | 'scrypt'> | null = null;
+  private contents: VaultContents | null = null;
+
+  constructor(private filePath: string = VAULT_PATH) {}
+
+  exists(): boolean {
+    return fs.existsSync(this.filePath);
+  }
+
+  isUnlocked(): boolean {
+    return this.contents !== null;
+  }
+
+  getStatus(): CredentialVaultStatus {
+    if (this.contents) {
+      return {
+        exists: true,
+        unlocked: true,
+        accounts: Object.keys(this.contents.accounts),
+        hasOpenAIKey: Boolean(this.contents.openAI?.apiKey)
+      };
+    }
+
+    const file = this.exists() ? this.readFile() : null;
+    return {
+      exists: file !== null,
+      unlocked: false,
+      accounts: file?.accounts ?? [],
+      hasOpenAIKey: file?.hasOpenAIKey ?? false
+    };
+  }
+
+  // Opens the vault, or creates an empty one with this passphrase when there is none yet
+  async unlock(passphrase: string): Promise<void> {
+    if (!this.exists()) {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        throw new Error(`The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      }
+
+      const salt = crypto.randomBytes(16);
+      this.key = await deriveKey(passphrase, salt, SCRYPT_PARAMS);
+      this.kdf = { salt: salt.toString('base64'), scrypt: SCRYPT_PARAMS };
+      this.contents = { accounts: {} };
+      this.write();
+      return;
+    }
+
+    const file = this.readFile();
+    const key = await deriveKey(passphrase, Buffer.from(file.salt, 'base64'), file.scrypt);
+
+    let plaintext: string;
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+      plaintext = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]).toString('utf-8');
+    } catch {
+      // GCM authentication fails for a wrong key, so this is how a wrong passphrase shows up
+      throw new IncorrectPassphraseError();
+    }
+
+    this.key = key;
+    this.kdf = { salt: file.salt, scrypt: file.scrypt };
+    this.contents = JSON.parse(plaintext);
+  }
+
+  lock(): void {
+    this.key?.fill(0);
+    this.key = null;
+    this.kdf = null;
+    this.contents = null;
+  }
+
+  // Null when the vault is locked or has no password for the account
+  getCredentials(accountId: string): LinkedInCredentials | null {
+    return this.contents?.accounts[normalizeAccountId(accountId)] ?? null;
+  }
+
+  saveCredentials(credentials: LinkedInCredentials): void {
+    const contents = this.requireUnlocked();
+    const email = normalizeAccountId(credentials.email);
+    contents.accounts[email] = { email, password: credentials.password };
+    this.write();
+  }
+
+  removeCredentials(accountId: string): void {
+    const contents = this.requireUnlocked();
+    delete contents.accounts[normalizeAccountId(accountId)];
+    this.write();
+  }
+
+  getOpenAIConfig(): OpenAIConfig | null {
+    return this.contents?.openAI?.apiKey ? this.contents.openAI : null;
+  }
+
+  saveOpenAIConfig(config: OpenAIConfig | null): void {
+    const contents = this.requireUnlocked();
+    contents.openAI = config ?? undefined;
+    this.write();
+  }
+
+  private requireUnlocked(): VaultContents {
+    if (!this.contents) throw new CredentialVaultLockedError();
+    return this.contents;
+  }
+
+  private readFile(): VaultFile {
+    return JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+  }
+
+  // Re-encrypts everything with a fresh IV; GCM must never reuse one with the same key
+  private write(): void {
+    if (!this.contents || !this.key || !this.kdf) throw new CredentialVaultLockedError();
+
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.key, iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(this.contents), 'utf-8'), cipher.final()]);
+
+    const file: VaultFile = {
+      version: 1,
+      ...this.kdf,
+      accounts: Object.keys(this.contents.accounts),
+      hasOpenAIKey: Boolean(this.contents.openAI?.apiKey),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    };
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Written to a temporary file first so a crash mid-write can't destroy the vault
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(file, null, 2), { mode: 0o600 });
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
+
+// Kept on globalThis so every route bundle sees the same unlocked vault
+const globalForVault = globalThis as unknown as {
+  credentialVault?: CredentialVault;
+};
+
+export function getCredentialVault(): CredentialVault {
+  if (!globalForVault.credentialVault) {
+    globalForVault.credentialVault = new CredentialVault();
+  }
+  return globalForVault.credentialVault;
+}
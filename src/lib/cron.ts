@@ -0,0 +1,126 @@
+// Five-field cron expressions ("minute hour day-of-month month day-of-week") in the server's
+// local time. Each field takes *, numbers, ranges (1-5), lists (1,15) and steps (*/6, 0-30/10).
+
+interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Like cron, when both day fields are restricted a day matches if either does
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 } // 0 and 7 are both Sunday
+] as const;
+
+// Far enough to find a Feb 29th or a Friday the 13th
+const MAX_SEARCH_DAYS = 366 * 8;
+
+export class CronParseError extends Error {
+  constructor(expression: string, reason: string) {
+    super(`Invalid schedule "${expression}": ${reason}`);
+    this.name = 'CronParseError';
+  }
+}
+
+function parseField(expression: string, part: string, field: typeof FIELDS[number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const item of part.split(',')) {
+    const match = item.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new CronParseError(expression, `can't read ${field.name} "${item}"`);
+    }
+
+    const isWildcard = match[1] === '*';
+    const start = isWildcard ? field.min : Number(match[2]);
+    // "5/15" means from 5 to the end of the range in steps of 15
+    const end = isWildcard || (match[4] && !match[3]) ? field.max : Number(match[3] ?? match[2]);
+    const step = match[4] ? Number(match[4]) : 1;
+
+    if (start < field.min || end > field.max) {
+      throw new CronParseError(expression, `${field.name} must be between ${field.min} and ${field.max}`);
+    }
+    if (start > end || step < 1) {
+      throw new CronParseError(expression, `${field.name} range "${item}" is empty`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(field.name === 'day of week' && value === 7 ? 0 : value);
+    }
+  }
+
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new CronParseError(expression, 'expected 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseField(expression, part, FIELDS[index]));
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: parts[2] === '*',
+    anyDayOfWeek: parts[4] === '*'
+  };
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+
+  if (schedule.anyDayOfMonth) return dayOfWeek;
+  if (schedule.anyDayOfWeek) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+}
+
+// The first time strictly after `after` that the expression matches
+export function nextCronTime(expression: string, after: Date): Date {
+  const schedule = parseCron(expression);
+  const candidate = new Date(after.getTime());
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+
+  const limit = after.getTime() + MAX_SEARCH_DAYS * 24 * 60 * 60 * 1000;
+
+  // Skip whole months, days and hours that can't match before stepping through minutes
+  while (candidate.getTime() <= limit) {
+    if (!schedule.months.has(candidate.getMonth() + 1)) {
+      candidate.setMonth(candidate.getMonth() + 1, 1);
+      candidate.setHours(0, 0, 0, 0);
+    } else if (!matchesDay(schedule, candidate)) {
+      candidate.setDate(candidate.getDate() + 1);
+      candidate.setHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(candidate.getMinutes())) {
+      candidate.setMinutes(candidate.getMinutes() + 1, 0, 0);
+    } else {
+      return candidate;
+    }
+  }
+
+  throw new CronParseError(expression, 'never matches a date');
+}
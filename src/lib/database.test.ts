@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import DatabaseManager from './database';
+import { CrawlSession } from '@/types';
+
+const SETTINGS = { rateLimit: 2500, headless: true };
+
+describe('DatabaseManager', () => {
+  let dir: string;
+  let file: string;
+  let db: DatabaseManager;
+
+  const createSession = (session: Partial<CrawlSession> = {}) => db.createCrawlSession({
+    mode: 'first_connections',
+    status: 'completed',
+    progress: 100,
+    ...session
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'database-'));
+    file = path.join(dir, 'test.db');
+    db = new DatabaseManager(file);
+  });
+
+  afterEach(() => {
+    db.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('gives sessions from before accounts the normalized account of their queue entry, schedule or the latest crawl', () => {
+    const scheduleId = db.createCrawlSchedule({
+      name: 'Weekly',
+      mode: 'first_connections',
+      cron: '0 9 * * 1',
+      accountId: 'Scheduled@Example.com',
+      settings: SETTINGS,
+      enabled: true,
+      nextRunAt: new Date().toISOString()
+    });
+    const legacyId = createSession();
+    const scheduledId = createSession({ scheduleId });
+    const queuedId = createSession();
+    db.enqueueCrawl({ crawlSessionId: queuedId, accountId: ' Queued@example.com', settings: SETTINGS, resume: false });
+    db.close();
+
+    // Lay the database out as it was before accounts
+    const legacy = new Database(file);
+    legacy.exec(`
+      DROP INDEX idx_crawl_sessions_account;
+      ALTER TABLE crawl_sessions DROP COLUMN account_id;
+      DELETE FROM accounts;
+    `);
+    const setCreatedAt = legacy.prepare('UPDATE crawl_sessions SET created_at = ? WHERE id = ?');
+    setCreatedAt.run('2025-01-01T00:00:00.000Z', legacyId);
+    setCreatedAt.run('2025-02-01T00:00:00.000Z', scheduledId);
+    setCreatedAt.run('2025-03-01T00:00:00.000Z', queuedId);
+    legacy.close();
+
+    db = new DatabaseManager(file);
+
+    assert.equal(db.getCrawlSession(queuedId)?.accountId, 'queued@example.com');
+    assert.equal(db.getCrawlSession(scheduledId)?.accountId, 'scheduled@example.com');
+    assert.equal(db.getCrawlSession(legacyId)?.accountId, 'queued@example.com');
+    assert.equal(db.getCrawlSchedule(scheduleId)?.accountId, 'scheduled@example.com');
+    assert.deepEqual(db.getAccounts().map(account => account.id).sort(), ['queued@example.com', 'scheduled@example.com']);
+  });
+
+  it('shows connection paths from the account owner instead of "You"', () => {
+    const accountId = 'alex@example.com';
+    db.saveAccount({ id: accountId, name: 'Alex' });
+    const sessionId = createSession({ accountId });
+    const companyId = db.createCompany({ name: 'Acme', linkedinUrl: 'https://www.linkedin.com/company/acme' });
+    const connectionId = db.createConnection({
+      crawlSessionId: sessionId,
+      name: 'Joe',
+      headline: 'Engineer at Acme',
+      profileUrl: 'https://www.linkedin.com/in/joe',
+      connectionDegree: 1
+    });
+    db.createCompanyConnection({ companyId, connectionId, crawlSessionId: sessionId, connectionPath: 'You -> Joe' });
+
+    assert.equal(db.getCompanyConnectionsBySession(sessionId)[0].connectionPath, 'Alex -> Joe');
+
+    db.saveAccount({ id: accountId, name: '' });
+    assert.equal(db.getCompanyConnectionsBySession(sessionId)[0].connectionPath, 'alex@example.com -> Joe');
+  });
+});
@@ -1,14 +1,160 @@
 import Database from 'better-sqlite3';
 import path from 'path';
 import fs from 'fs';
-import { CrawlSession, Connection, Company, CompanyConnection } from '@/types';
+import { DEFAULT_CRAWL_SETTINGS } from './crawl-settings';
+import { Account, CrawlSession, Connection, Company, CompanyConnection, CompanyPath, CrawlCheckpoint, CrawlSchedule, QueuedCrawl, CrawlEvent, CrawlEventLevel, CrawlEventType, CrawlSettings, Job, JobScore, SessionJob, Position, Education } from '@/types';
+
+const DATA_DIR = path.join(process.cwd(), 'data');
+const WORKSPACE_NAME = /^[a-zA-Z0-9_-]+$/;
+
+// The default workspace keeps the original file; named workspaces (WORKSPACE=<name>) each get
+// their own file under data/workspaces/
+export function workspaceDbPath(workspace?: string): string {
+  if (!workspace) {
+    return path.join(DATA_DIR, 'linkedin-networker.db');
+  }
+  if (!WORKSPACE_NAME.test(workspace)) {
+    throw new Error(`Invalid workspace name "${workspace}": use letters, numbers, - and _`);
+  }
+  return path.join(DATA_DIR, 'workspaces', `${workspace}.db`);
+}
+
+// Account ids are LinkedIn emails, compared case-insensitively
+export function normalizeAccountId(accountId: string): string {
+  return accountId.trim().toLowerCase();
+}
+
+// Allowed crawl_sessions.mode/status values. Adding a value here rebuilds the table's CHECK
+// constraints on startup (see migrateCrawlSessionConstraints).
+const CRAWL_SESSION_MODES: CrawlSession['mode'][] = ['first_connections', 'friends_of_friends', 'data_export', 'jobs', 'profile_enrichment'];
+const CRAWL_SESSION_STATUSES: CrawlSession['status'][] = ['pending', 'running', 'waiting_for_user', 'paused', 'completed', 'failed', 'cancelled', 'interrupted'];
+const MODE_CHECK = `CHECK(mode IN (${CRAWL_SESSION_MODES.map(mode => `'${mode}'`).join(', ')}))`;
+const STATUS_CHECK = `CHECK(status IN (${CRAWL_SESSION_STATUSES.map(status => `'${status}'`).join(', ')}))`;
+
+// Link the LinkedIn data export import used to store for companies it couldn't match
+const COMPANY_SEARCH_URL = 'https://www.linkedin.com/search/results/companies/';
+
+// Company fields updateCompany can set, and their columns
+const COMPANY_UPDATE_COLUMNS = {
+  industry: 'industry',
+  size: 'size',
+  location: 'location',
+  website: 'website',
+  headcount: 'headcount',
+  headquarters: 'headquarters',
+  followerCount: 'follower_count',
+  detailsUpdatedAt: 'details_updated_at',
+  atsProvider: 'ats_provider',
+  atsSlug: 'ats_slug',
+} as const;
+
+const CRAWL_SESSION_SELECT = `
+  SELECT id, created_at as createdAt, mode, status, progress,
+         total_connections as totalConnections, processed_connections as processedConnections,
+         source_session_id as sourceSessionId, schedule_id as scheduleId, account_id as accountId, error, settings
+  FROM crawl_sessions
+`;
+
+type CrawlSessionRow = Omit<CrawlSession, 'settings' | 'accountId'> & { settings: string | null; accountId: string | null };
+
+function toCrawlSession(row: CrawlSessionRow): CrawlSession {
+  return {
+    ...row,
+    accountId: row.accountId ?? undefined,
+    settings: row.settings ? JSON.parse(row.settings) : undefined
+  };
+}
+
+// Paths are stored from the crawling account's point of view ("You -> Jane"). Reads put the
+// session owner's name in place of "You" so paths from different accounts can't be mixed up.
+function resolveConnectionPath(connectionPath: string, owner: string | null): string {
+  return owner ? connectionPath.replace(/^You ->/, `${owner} ->`) : connectionPath;
+}
+
+// Crawl schedule fields updateCrawlSchedule can set, and their columns
+const CRAWL_SCHEDULE_UPDATE_COLUMNS = {
+  name: 'name',
+  mode: 'mode',
+  cron: 'cron',
+  accountId: 'account_id',
+  settings: 'settings',
+  enabled: 'enabled',
+  nextRunAt: 'next_run_at',
+  lastRunAt: 'last_run_at',
+  lastRunResult: 'last_run_result',
+  lastRunMessage: 'last_run_message',
+} as const;
+
+const CRAWL_SCHEDULE_SELECT = `
+  SELECT id, name, mode, cron, account_id as accountId, settings, enabled, next_run_at as nextRunAt,
+         last_run_at as lastRunAt, last_run_result as lastRunResult, last_run_message as lastRunMessage,
+         created_at as createdAt
+  FROM crawl_schedules
+`;
+
+type CrawlScheduleRow = Omit<CrawlSchedule, 'settings' | 'enabled'> & { settings: string; enabled: number };
+
+function toCrawlSchedule(row: CrawlScheduleRow): CrawlSchedule {
+  return {
+    ...row,
+    settings: JSON.parse(row.settings),
+    enabled: row.enabled === 1,
+    nextRunAt: row.nextRunAt ?? undefined,
+    lastRunAt: row.lastRunAt ?? undefined,
+    lastRunResult: row.lastRunResult ?? undefined,
+    lastRunMessage: row.lastRunMessage ?? undefined
+  };
+}
+
+const QUEUED_CRAWL_SELECT = `
+  SELECT id, crawl_session_id as crawlSessionId, account_id as accountId, status, settings, resume, attempts,
+         lease_owner as leaseOwner, lease_expires_at as leaseExpiresAt, created_at as createdAt,
+         started_at as startedAt, finished_at as finishedAt
+  FROM crawl_queue
+`;
+
+type QueuedCrawlRow = Omit<QueuedCrawl, 'settings' | 'resume'> & { settings: string; resume: number };
+
+function toQueuedCrawl(row: QueuedCrawlRow): QueuedCrawl {
+  return {
+    ...row,
+    settings: JSON.parse(row.settings),
+    resume: row.resume === 1,
+    leaseOwner: row.leaseOwner ?? undefined,
+    leaseExpiresAt: row.leaseExpiresAt ?? undefined,
+    startedAt: row.startedAt ?? undefined,
+    finishedAt: row.finishedAt ?? undefined
+  };
+}
+
+const CRAWL_EVENT_SELECT = `
+  SELECT id, crawl_session_id as crawlSessionId, level, type, message, url, payload, created_at as createdAt
+  FROM crawl_events
+`;
+
+type CrawlEventRow = Omit<CrawlEvent, 'url' | 'payload'> & { url: string | null; payload: string | null };
+
+function toCrawlEvent(row: CrawlEventRow): CrawlEvent {
+  return {
+    ...row,
+    url: row.url ?? undefined,
+    payload: row.payload ? JSON.parse(row.payload) : undefined
+  };
+}
+
+export interface CrawlEventFilter {
+  levels?: CrawlEventLevel[];
+  type?: CrawlEventType;
+  search?: string; // matched against the message and URL
+  limit?: number;
+  offset?: number;
+}
 
 class DatabaseManager {
   private db: Database.Database;
 
-  constructor() {
-    const dataDir = path.join(process.cwd(), 'data');
-    const dbPath = path.join(dataDir, 'linkedin-networker.db');
+  constructor(dbPath: string = workspaceDbPath(process.env.WORKSPACE)) {
+    const dataDir = path.dirname(dbPath);
     
     // Ensure data directory exists
     if (!fs.existsSync(dataDir)) {
@@ -28,12 +174,16 @@ class DatabaseManager {
       CREATE TABLE IF NOT EXISTS crawl_sessions (
         id TEXT PRIMARY KEY,
         created_at TEXT NOT NULL,
-        mode TEXT NOT NULL CHECK(mode IN ('first_connections', 'friends_of_friends')),
-        status TEXT NOT NULL CHECK(status IN ('pending', 'running', 'completed', 'failed')),
+        mode TEXT NOT NULL ${MODE_CHECK},
+        status TEXT NOT NULL ${STATUS_CHECK},
         progress INTEGER DEFAULT 0,
         total_connections INTEGER,
         processed_connections INTEGER DEFAULT 0,
-        error TEXT
+        source_session_id TEXT,
+        schedule_id TEXT,
+        account_id TEXT,
+        error TEXT,
+        settings TEXT
       )
     `);
 
@@ -53,6 +203,8 @@ class DatabaseManager {
         connection_degree INTEGER NOT NULL CHECK(connection_degree IN (1, 2)),
         mutual_connection TEXT,
         location TEXT,
+        connected_on TEXT,
+        extraction_method TEXT NOT NULL DEFAULT 'selector',
         created_at TEXT NOT NULL,
         FOREIGN KEY (crawl_session_id) REFERENCES crawl_sessions(id) ON DELETE CASCADE
       )
@@ -63,13 +215,20 @@ class DatabaseManager {
       CREATE TABLE IF NOT EXISTS companies (
         id TEXT PRIMARY KEY,
         name TEXT NOT NULL,
-        linkedin_url TEXT NOT NULL UNIQUE,
+        linkedin_url TEXT UNIQUE,
         logo_url TEXT,
         description TEXT,
         industry TEXT,
         size TEXT,
         location TEXT,
         website TEXT,
+        headcount INTEGER,
+        headquarters TEXT,
+        follower_count INTEGER,
+        details_updated_at TEXT,
+        ats_provider TEXT,
+        ats_slug TEXT,
+        extraction_method TEXT NOT NULL DEFAULT 'selector',
         created_at TEXT NOT NULL
       )
     `);
@@ -89,16 +248,210 @@ class DatabaseManager {
       )
     `);
 
+    // Create crawl_checkpoints table (resume position per session)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS crawl_checkpoints (
+        crawl_session_id TEXT PRIMARY KEY,
+        current_page INTEGER DEFAULT 1,
+        current_offset INTEGER DEFAULT 0,
+        updated_at TEXT NOT NULL,
+        FOREIGN KEY (crawl_session_id) REFERENCES crawl_sessions(id) ON DELETE CASCADE
+      )
+    `);
+
+    // Create crawl_checkpoint_items table (companies/connections already processed)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS crawl_checkpoint_items (
+        crawl_session_id TEXT NOT NULL,
+        item_type TEXT NOT NULL CHECK(item_type IN ('company', 'connection')),
+        item_key TEXT NOT NULL,
+        completed_at TEXT NOT NULL,
+        PRIMARY KEY (crawl_session_id, item_type, item_key),
+        FOREIGN KEY (crawl_session_id) REFERENCES crawl_sessions(id) ON DELETE CASCADE
+      )
+    `);
+
+    // Create jobs table (open roles found at a session's companies)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS jobs (
+        id TEXT PRIMARY KEY,
+        crawl_session_id TEXT NOT NULL,
+        company_id TEXT NOT NULL,
+        source TEXT NOT NULL DEFAULT 'linkedin',
+        external_id TEXT,
+        title TEXT NOT NULL,
+        location TEXT,
+        is_remote INTEGER NOT NULL DEFAULT 0,
+        posted_at TEXT,
+        url TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        UNIQUE (crawl_session_id, url),
+        FOREIGN KEY (crawl_session_id) REFERENCES crawl_sessions(id) ON DELETE CASCADE,
+        FOREIGN KEY (company_id) REFERENCES companies(id) ON DELETE CASCADE
+      )
+    `);
+
+    // Create job_scores table (AI fit score per job against the user's skill profile)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS job_scores (
+        job_id TEXT PRIMARY KEY,
+        score INTEGER NOT NULL,
+        matched_skills TEXT NOT NULL,
+        rationale TEXT,
+        model TEXT NOT NULL,
+        scored_at TEXT NOT NULL,
+        FOREIGN KEY (job_id) REFERENCES jobs(id) ON DELETE CASCADE
+      )
+    `);
+
+    // Create positions table (experience history per person, from profile enrichment crawls)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS positions (
+        id TEXT PRIMARY KEY,
+        profile_url TEXT NOT NULL,
+        crawl_session_id TEXT NOT NULL,
+        company_name TEXT NOT NULL,
+        company_url TEXT,
+        title TEXT NOT NULL,
+        start_date TEXT,
+        end_date TEXT,
+        is_current INTEGER NOT NULL DEFAULT 0,
+        location TEXT,
+        created_at TEXT NOT NULL,
+        FOREIGN KEY (crawl_session_id) REFERENCES crawl_sessions(id) ON DELETE CASCADE
+      )
+    `);
+
+    // Create education table
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS education (
+        id TEXT PRIMARY KEY,
+        profile_url TEXT NOT NULL,
+        crawl_session_id TEXT NOT NULL,
+        school TEXT NOT NULL,
+        degree TEXT,
+        field_of_study TEXT,
+        start_date TEXT,
+        end_date TEXT,
+        created_at TEXT NOT NULL,
+        FOREIGN KEY (crawl_session_id) REFERENCES crawl_sessions(id) ON DELETE CASCADE
+      )
+    `);
+
+    // Create crawl_schedules table (recurring crawls started by the server)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS crawl_schedules (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        mode TEXT NOT NULL,
+        cron TEXT NOT NULL,
+        account_id TEXT NOT NULL,
+        settings TEXT NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        next_run_at TEXT,
+        last_run_at TEXT,
+        last_run_result TEXT,
+        last_run_message TEXT,
+        created_at TEXT NOT NULL
+      )
+    `);
+
+    // Create crawl_queue table (crawls waiting for or running in the worker)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS crawl_queue (
+        id TEXT PRIMARY KEY,
+        crawl_session_id TEXT NOT NULL,
+        account_id TEXT NOT NULL,
+        status TEXT NOT NULL CHECK(status IN ('queued', 'running', 'done')),
+        settings TEXT NOT NULL,
+        resume INTEGER NOT NULL DEFAULT 0,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        lease_owner TEXT,
+        lease_expires_at TEXT,
+        created_at TEXT NOT NULL,
+        started_at TEXT,
+        finished_at TEXT,
+        FOREIGN KEY (crawl_session_id) REFERENCES crawl_sessions(id) ON DELETE CASCADE
+      )
+    `);
+
+    // Create crawl_events table (the structured crawl log of each session)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS crawl_events (
+        id TEXT PRIMARY KEY,
+        crawl_session_id TEXT NOT NULL,
+        level TEXT NOT NULL CHECK(level IN ('debug', 'info', 'warn', 'error')),
+        type TEXT NOT NULL,
+        message TEXT NOT NULL,
+        url TEXT,
+        payload TEXT,
+        created_at TEXT NOT NULL,
+        FOREIGN KEY (crawl_session_id) REFERENCES crawl_sessions(id) ON DELETE CASCADE
+      )
+    `);
+
+    // Create accounts table (LinkedIn accounts whose networks are crawled in this workspace)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS accounts (
+        id TEXT PRIMARY KEY,
+        name TEXT,
+        created_at TEXT NOT NULL
+      )
+    `);
+
+    // Sessions can name an account that has no row yet (given one by the migration above)
+    const sessionAccounts = this.db.prepare(`
+      SELECT account_id as accountId, MIN(created_at) as createdAt FROM crawl_sessions
+      WHERE account_id IS NOT NULL GROUP BY account_id
+    `).all() as Array<{ accountId: string; createdAt: string }>;
+    const insertAccount = this.db.prepare('INSERT OR IGNORE INTO accounts (id, created_at) VALUES (?, ?)');
+    for (const { accountId, createdAt } of sessionAccounts) {
+      insertAccount.run(normalizeAccountId(accountId), createdAt);
+    }
+
+    // Create app_settings table (server-side settings stored as JSON by key)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS app_settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+
     // Create indexes
     this.db.exec(`
       CREATE INDEX IF NOT EXISTS idx_connections_session ON connections(crawl_session_id);
       CREATE INDEX IF NOT EXISTS idx_connections_degree ON connections(connection_degree);
       CREATE INDEX IF NOT EXISTS idx_company_connections_session ON company_connections(crawl_session_id);
       CREATE INDEX IF NOT EXISTS idx_company_connections_company ON company_connections(company_id);
+      CREATE INDEX IF NOT EXISTS idx_jobs_session ON jobs(crawl_session_id);
+      CREATE INDEX IF NOT EXISTS idx_jobs_company ON jobs(company_id);
+      CREATE INDEX IF NOT EXISTS idx_positions_profile ON positions(profile_url);
+      CREATE INDEX IF NOT EXISTS idx_education_profile ON education(profile_url);
+      CREATE INDEX IF NOT EXISTS idx_crawl_sessions_schedule ON crawl_sessions(schedule_id);
+      CREATE INDEX IF NOT EXISTS idx_crawl_sessions_account ON crawl_sessions(account_id);
+      CREATE INDEX IF NOT EXISTS idx_crawl_queue_status ON crawl_queue(status, created_at);
+      CREATE INDEX IF NOT EXISTS idx_crawl_queue_session ON crawl_queue(crawl_session_id);
+      CREATE INDEX IF NOT EXISTS idx_crawl_events_session ON crawl_events(crawl_session_id, created_at);
     `);
   }
 
+  private tableExists(tableName: string): boolean {
+    const row = this.db.prepare(`
+      SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?
+    `).get(tableName);
+    return !!row;
+  }
+
   private runMigrations() {
+    // Fresh database, tables are created with the current schema
+    if (!this.tableExists('connections')) {
+      return;
+    }
+
+    this.migrateCrawlSessionConstraints();
+    this.migrateCompanyLinkedInUrl();
+
     // Check if profile_image_url column exists in connections table
     const columnInfo = this.db.prepare(`
       PRAGMA table_info(connections)
@@ -124,6 +477,207 @@ class DatabaseManager {
         ALTER TABLE connections ADD COLUMN connection_source TEXT;
       `);
     }
+
+    // Check if connected_on column exists (from LinkedIn data export imports)
+    const connectedOnColumnExists = sourceColumnInfo.some((col) => col.name === 'connected_on');
+
+    if (!connectedOnColumnExists) {
+      console.log('Adding connected_on column to connections table...');
+      this.db.exec(`
+        ALTER TABLE connections ADD COLUMN connected_on TEXT;
+      `);
+    }
+
+    // Check if extraction_method column exists (LLM fallback extraction)
+    if (!sourceColumnInfo.some((col) => col.name === 'extraction_method')) {
+      console.log('Adding extraction_method column to connections table...');
+      this.db.exec(`
+        ALTER TABLE connections ADD COLUMN extraction_method TEXT NOT NULL DEFAULT 'selector';
+      `);
+    }
+
+    // Check if source_session_id column exists (jobs crawls)
+    const sessionColumnInfo = this.db.prepare(`
+      PRAGMA table_info(crawl_sessions)
+    `).all() as Array<{name: string}>;
+
+    if (!sessionColumnInfo.some((col) => col.name === 'source_session_id')) {
+      console.log('Adding source_session_id column to crawl_sessions table...');
+      this.db.exec(`
+        ALTER TABLE crawl_sessions ADD COLUMN source_session_id TEXT;
+      `);
+    }
+
+    // Check if schedule_id column exists (scheduled crawls)
+    if (!sessionColumnInfo.some((col) => col.name === 'schedule_id')) {
+      console.log('Adding schedule_id column to crawl_sessions table...');
+      this.db.exec(`
+        ALTER TABLE crawl_sessions ADD COLUMN schedule_id TEXT;
+      `);
+    }
+
+    // Check if settings column exists (settings snapshot each crawl ran with)
+    if (!sessionColumnInfo.some((col) => col.name === 'settings')) {
+      console.log('Adding settings column to crawl_sessions table...');
+      this.db.exec(`
+        ALTER TABLE crawl_sessions ADD COLUMN settings TEXT;
+      `);
+    }
+
+    // Check if account_id column exists (multiple accounts). Sessions that were queued or
+    // scheduled already know their account. Before accounts the app had a single user, so the
+    // rest belong to whoever crawled last; with no crawl to go by, the first account added.
+    if (!sessionColumnInfo.some((col) => col.name === 'account_id')) {
+      console.log('Adding account_id column to crawl_sessions table...');
+      this.db.exec(`
+        ALTER TABLE crawl_sessions ADD COLUMN account_id TEXT;
+      `);
+
+      if (this.tableExists('crawl_queue')) {
+        this.db.exec(`
+          UPDATE crawl_sessions SET account_id = (
+            SELECT q.account_id FROM crawl_queue q WHERE q.crawl_session_id = crawl_sessions.id
+            ORDER BY q.created_at DESC LIMIT 1
+          ) WHERE account_id IS NULL
+        `);
+      }
+      if (this.tableExists('crawl_schedules')) {
+        this.db.exec(`
+          UPDATE crawl_sessions SET account_id = (
+            SELECT s.account_id FROM crawl_schedules s WHERE s.id = crawl_sessions.schedule_id
+          ) WHERE account_id IS NULL
+        `);
+      }
+      this.db.exec(`
+        UPDATE crawl_sessions SET account_id = (
+          SELECT account_id FROM crawl_sessions WHERE account_id IS NOT NULL ORDER BY created_at DESC LIMIT 1
+        ) WHERE account_id IS NULL
+      `);
+
+      for (const tableName of ['crawl_sessions', 'crawl_queue', 'crawl_schedules']) {
+        if (this.tableExists(tableName)) {
+          this.normalizeAccountIds(tableName);
+        }
+      }
+    }
+
+    // Check if the job board columns exist on companies (detected ATS cache)
+    if (this.tableExists('companies')) {
+      const companyColumnInfo = this.db.prepare(`
+        PRAGMA table_info(companies)
+      `).all() as Array<{name: string}>;
+
+      if (!companyColumnInfo.some((col) => col.name === 'ats_provider')) {
+        console.log('Adding ats_provider/ats_slug columns to companies table...');
+        this.db.exec(`
+          ALTER TABLE companies ADD COLUMN ats_provider TEXT;
+          ALTER TABLE companies ADD COLUMN ats_slug TEXT;
+        `);
+      }
+
+      if (!companyColumnInfo.some((col) => col.name === 'details_updated_at')) {
+        console.log('Adding About page detail columns to companies table...');
+        this.db.exec(`
+          ALTER TABLE companies ADD COLUMN headcount INTEGER;
+          ALTER TABLE companies ADD COLUMN headquarters TEXT;
+          ALTER TABLE companies ADD COLUMN follower_count INTEGER;
+          ALTER TABLE companies ADD COLUMN details_updated_at TEXT;
+        `);
+      }
+
+      if (!companyColumnInfo.some((col) => col.name === 'extraction_method')) {
+        console.log('Adding extraction_method column to companies table...');
+        this.db.exec(`
+          ALTER TABLE companies ADD COLUMN extraction_method TEXT NOT NULL DEFAULT 'selector';
+        `);
+      }
+    }
+
+    // Check if jobs have a source (LinkedIn or a job board)
+    if (this.tableExists('jobs')) {
+      const jobColumnInfo = this.db.prepare(`
+        PRAGMA table_info(jobs)
+      `).all() as Array<{name: string}>;
+
+      if (!jobColumnInfo.some((col) => col.name === 'source')) {
+        console.log('Adding source/external_id columns to jobs table...');
+        this.db.exec(`
+          ALTER TABLE jobs ADD COLUMN source TEXT NOT NULL DEFAULT 'linkedin';
+          ALTER TABLE jobs ADD COLUMN external_id TEXT;
+        `);
+      }
+    }
+  }
+
+  private migrateCrawlSessionConstraints() {
+    const table = this.db.prepare(`
+      SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'crawl_sessions'
+    `).get() as { sql: string } | undefined;
+
+    if (!table || [...CRAWL_SESSION_MODES, ...CRAWL_SESSION_STATUSES].every(value => table.sql.includes(`'${value}'`))) {
+      return;
+    }
+
+    // SQLite can't alter a CHECK constraint, so rebuild the table with the same columns
+    console.log('Updating crawl_sessions mode/status constraints...');
+    this.rebuildTable('crawl_sessions', table.sql
+      .replace(/CHECK\(mode IN \([^)]*\)\)/, MODE_CHECK)
+      .replace(/CHECK\(status IN \([^)]*\)\)/, STATUS_CHECK));
+  }
+
+  // Companies from the LinkedIn data export are only known by name, so companies.linkedin_url
+  // became optional. Earlier imports stored a company search link in its place.
+  private migrateCompanyLinkedInUrl() {
+    const table = this.db.prepare(`
+      SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'companies'
+    `).get() as { sql: string } | undefined;
+
+    if (!table || !/linkedin_url TEXT NOT NULL/.test(table.sql)) {
+      return;
+    }
+
+    console.log('Making companies.linkedin_url optional...');
+    this.rebuildTable('companies', table.sql.replace(/linkedin_url TEXT NOT NULL/, 'linkedin_url TEXT'));
+
+    const searchUrl = `${COMPANY_SEARCH_URL}%`;
+    this.db.prepare('UPDATE companies SET linkedin_url = NULL WHERE linkedin_url LIKE ?').run(searchUrl);
+    this.db.prepare('UPDATE connections SET company_url = NULL WHERE company_url LIKE ?').run(searchUrl);
+  }
+
+  // Account ids were stored as sent before the routes normalized them, so a mixed-case id
+  // would never match the ids looked up now
+  private normalizeAccountIds(tableName: string) {
+    const rows = this.db.prepare(`
+      SELECT DISTINCT account_id as accountId FROM ${tableName} WHERE account_id IS NOT NULL
+    `).all() as Array<{ accountId: string }>;
+    const update = this.db.prepare(`UPDATE ${tableName} SET account_id = ? WHERE account_id = ?`);
+
+    for (const { accountId } of rows) {
+      const normalized = normalizeAccountId(accountId);
+      if (normalized !== accountId) {
+        update.run(normalized, accountId);
+      }
+    }
+  }
+
+  // Recreates a table from its CREATE TABLE statement and copies the rows over. Foreign keys
+  // are disabled so dropping the old table doesn't cascade into child rows, then put back
+  // the way the connection had them.
+  private rebuildTable(tableName: string, createSql: string) {
+    const newTableSql = createSql.replace(new RegExp(`CREATE TABLE\\s+${tableName}\\b`), `CREATE TABLE ${tableName}_new`);
+    const foreignKeys = this.db.pragma('foreign_keys', { simple: true }) as number;
+
+    this.db.pragma('foreign_keys = OFF');
+    try {
+      this.db.transaction(() => {
+        this.db.exec(newTableSql);
+        this.db.exec(`INSERT INTO ${tableName}_new SELECT * FROM ${tableName}`);
+        this.db.exec(`DROP TABLE ${tableName}`);
+        this.db.exec(`ALTER TABLE ${tableName}_new RENAME TO ${tableName}`);
+      })();
+    } finally {
+      this.db.pragma(`foreign_keys = ${foreignKeys ? 'ON' : 'OFF'}`);
+    }
   }
 
   // Crawl Session methods
@@ -132,35 +686,42 @@ class DatabaseManager {
     const createdAt = new Date().toISOString();
     
     const stmt = this.db.prepare(`
-      INSERT INTO crawl_sessions (id, created_at, mode, status, progress, total_connections, processed_connections, error)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO crawl_sessions (id, created_at, mode, status, progress, total_connections, processed_connections, source_session_id, schedule_id, account_id, error, settings)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
     
     stmt.run(id, createdAt, session.mode, session.status, session.progress, 
-             session.totalConnections, session.processedConnections, session.error);
+             session.totalConnections, session.processedConnections, session.sourceSessionId, session.scheduleId,
+             session.accountId, session.error, session.settings ? JSON.stringify(session.settings) : null);
     
     return id;
   }
 
   getCrawlSession(id: string): CrawlSession | null {
-    const stmt = this.db.prepare(`
-      SELECT id, created_at as createdAt, mode, status, progress, 
-             total_connections as totalConnections, processed_connections as processedConnections, error
-      FROM crawl_sessions WHERE id = ?
-    `);
-    return stmt.get(id) as CrawlSession | null;
+    const row = this.db.prepare(`${CRAWL_SESSION_SELECT} WHERE id = ?`).get(id) as CrawlSessionRow | undefined;
+    return row ? toCrawlSession(row) : null;
   }
 
-  getAllCrawlSessions(): CrawlSession[] {
-    const stmt = this.db.prepare(`
-      SELECT id, created_at as createdAt, mode, status, progress,
-             total_connections as totalConnections, processed_connections as processedConnections, error
-      FROM crawl_sessions ORDER BY created_at DESC
-    `);
-    return stmt.all() as CrawlSession[];
+  // All sessions, or only those of one account
+  getAllCrawlSessions(accountId?: string): CrawlSession[] {
+    const rows = (accountId
+      ? this.db.prepare(`${CRAWL_SESSION_SELECT} WHERE account_id = ? ORDER BY created_at DESC`).all(accountId)
+      : this.db.prepare(`${CRAWL_SESSION_SELECT} ORDER BY created_at DESC`).all()) as CrawlSessionRow[];
+    return rows.map(toCrawlSession);
+  }
+
+  // Name used for the session's account in connection paths: its display name, else its email
+  private getSessionOwnerName(sessionId: string): string | null {
+    const row = this.db.prepare(`
+      SELECT COALESCE(a.name, s.account_id) as owner
+      FROM crawl_sessions s
+      LEFT JOIN accounts a ON a.id = s.account_id
+      WHERE s.id = ?
+    `).get(sessionId) as { owner: string | null } | undefined;
+    return row?.owner ?? null;
   }
 
-  updateCrawlSession(id: string, updates: Partial<CrawlSession>): void {
+  updateCrawlSession(id: string, updates: Partial<Omit<CrawlSession, 'error'>> & { error?: string | null }): void {
     const fields = [];
     const values = [];
     
@@ -184,6 +745,10 @@ class DatabaseManager {
       fields.push('error = ?');
       values.push(updates.error);
     }
+    if (updates.settings !== undefined) {
+      fields.push('settings = ?');
+      values.push(JSON.stringify(updates.settings));
+    }
     
     if (fields.length > 0) {
       const stmt = this.db.prepare(`UPDATE crawl_sessions SET ${fields.join(', ')} WHERE id = ?`);
@@ -196,6 +761,327 @@ class DatabaseManager {
     stmt.run(id);
   }
 
+  getCrawlSessionsBySchedule(scheduleId: string, limit = 5): CrawlSession[] {
+    const rows = this.db.prepare(`
+      ${CRAWL_SESSION_SELECT} WHERE schedule_id = ? ORDER BY created_at DESC LIMIT ?
+    `).all(scheduleId, limit) as CrawlSessionRow[];
+    return rows.map(toCrawlSession);
+  }
+
+  // Crawl Schedule methods
+  createCrawlSchedule(schedule: Omit<CrawlSchedule, 'id' | 'createdAt' | 'lastRunAt' | 'lastRunResult' | 'lastRunMessage'>): string {
+    const id = crypto.randomUUID();
+    const createdAt = new Date().toISOString();
+
+    const stmt = this.db.prepare(`
+      INSERT INTO crawl_schedules (id, name, mode, cron, account_id, settings, enabled, next_run_at, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run(id, schedule.name, schedule.mode, schedule.cron, schedule.accountId, JSON.stringify(schedule.settings),
+             schedule.enabled ? 1 : 0, schedule.nextRunAt, createdAt);
+
+    return id;
+  }
+
+  getCrawlSchedule(id: string): CrawlSchedule | null {
+    const row = this.db.prepare(`${CRAWL_SCHEDULE_SELECT} WHERE id = ?`).get(id) as CrawlScheduleRow | undefined;
+    return row ? toCrawlSchedule(row) : null;
+  }
+
+  getAllCrawlSchedules(): CrawlSchedule[] {
+    const rows = this.db.prepare(`${CRAWL_SCHEDULE_SELECT} ORDER BY created_at`).all() as CrawlScheduleRow[];
+    return rows.map(toCrawlSchedule);
+  }
+
+  updateCrawlSchedule(id: string, updates: Partial<Omit<CrawlSchedule, 'id' | 'createdAt' | 'lastRunMessage'>> & { lastRunMessage?: string | null }): void {
+    const fields = [];
+    const values = [];
+
+    for (const [key, column] of Object.entries(CRAWL_SCHEDULE_UPDATE_COLUMNS) as Array<[keyof typeof CRAWL_SCHEDULE_UPDATE_COLUMNS, string]>) {
+      const value = updates[key];
+      if (value !== undefined) {
+        fields.push(`${column} = ?`);
+        values.push(key === 'settings' ? JSON.stringify(value) : key === 'enabled' ? (value ? 1 : 0) : value);
+      }
+    }
+
+    if (fields.length > 0) {
+      const stmt = this.db.prepare(`UPDATE crawl_schedules SET ${fields.join(', ')} WHERE id = ?`);
+      stmt.run(...values, id);
+    }
+  }
+
+  deleteCrawlSchedule(id: string): void {
+    const stmt = this.db.prepare('DELETE FROM crawl_schedules WHERE id = ?');
+    stmt.run(id);
+  }
+
+  // Crawl queue methods
+  enqueueCrawl(crawl: Pick<QueuedCrawl, 'crawlSessionId' | 'accountId' | 'settings' | 'resume'>): string {
+    const id = crypto.randomUUID();
+    const createdAt = new Date().toISOString();
+
+    const stmt = this.db.prepare(`
+      INSERT INTO crawl_queue (id, crawl_session_id, account_id, status, settings, resume, created_at)
+      VALUES (?, ?, ?, 'queued', ?, ?, ?)
+    `);
+
+    stmt.run(id, crawl.crawlSessionId, crawl.accountId, JSON.stringify(crawl.settings), crawl.resume ? 1 : 0, createdAt);
+
+    return id;
+  }
+
+  // The session's queued or running crawl, if any
+  getActiveQueuedCrawl(sessionId: string): QueuedCrawl | null {
+    const row = this.db.prepare(`
+      ${QUEUED_CRAWL_SELECT} WHERE crawl_session_id = ? AND status != 'done'
+    `).get(sessionId) as QueuedCrawlRow | undefined;
+    return row ? toQueuedCrawl(row) : null;
+  }
+
+  // Takes the oldest queued crawl whose account has no crawl running and leases it to the
+  // worker. Returns null when nothing can start.
+  claimQueuedCrawl(workerId: string, leaseExpiresAt: string): QueuedCrawl | null {
+    return this.db.transaction(() => {
+      const row = this.db.prepare(`
+        ${QUEUED_CRAWL_SELECT}
+        WHERE status = 'queued'
+          AND account_id NOT IN (SELECT account_id FROM crawl_queue WHERE status = 'running')
+        ORDER BY created_at
+        LIMIT 1
+      `).get() as QueuedCrawlRow | undefined;
+
+      if (!row) return null;
+
+      const startedAt = new Date().toISOString();
+      this.db.prepare(`
+        UPDATE crawl_queue
+        SET status = 'running', attempts = attempts + 1, lease_owner = ?, lease_expires_at = ?, started_at = ?
+        WHERE id = ?
+      `).run(workerId, leaseExpiresAt, startedAt, row.id);
+
+      return toQueuedCrawl({
+        ...row,
+        status: 'running',
+        attempts: row.attempts + 1,
+        leaseOwner: workerId,
+        leaseExpiresAt,
+        startedAt
+      });
+    })();
+  }
+
+  renewCrawlLeases(workerId: string, leaseExpiresAt: string): void {
+    const stmt = this.db.prepare(`
+      UPDATE crawl_queue SET lease_expires_at = ? WHERE status = 'running' AND lease_owner = ?
+    `);
+    stmt.run(leaseExpiresAt, workerId);
+  }
+
+  // Running crawls whose worker stopped renewing its lease (crashed or restarted)
+  getExpiredCrawlLeases(now: string): QueuedCrawl[] {
+    const rows = this.db.prepare(`
+      ${QUEUED_CRAWL_SELECT} WHERE status = 'running' AND (lease_expires_at IS NULL OR lease_expires_at < ?)
+    `).all(now) as QueuedCrawlRow[];
+    return rows.map(toQueuedCrawl);
+  }
+
+  // Puts a crawl back in the queue. Requeued crawls resume from the session's checkpoint.
+  requeueCrawl(id: string): void {
+    const stmt = this.db.prepare(`
+      UPDATE crawl_queue SET status = 'queued', resume = 1, lease_owner = NULL, lease_expires_at = NULL WHERE id = ?
+    `);
+    stmt.run(id);
+  }
+
+  finishQueuedCrawl(id: string): void {
+    const stmt = this.db.prepare(`
+      UPDATE crawl_queue SET status = 'done', lease_owner = NULL, lease_expires_at = NULL, finished_at = ? WHERE id = ?
+    `);
+    stmt.run(new Date().toISOString(), id);
+  }
+
+  // Sessions marked pending/running/waiting/paused that have no crawl in the queue to finish them
+  getOrphanedCrawlSessions(): CrawlSession[] {
+    const rows = this.db.prepare(`
+      ${CRAWL_SESSION_SELECT} s
+      WHERE status IN ('pending', 'running', 'waiting_for_user', 'paused')
+        AND NOT EXISTS (SELECT 1 FROM crawl_queue q WHERE q.crawl_session_id = s.id AND q.status != 'done')
+    `).all() as CrawlSessionRow[];
+    return rows.map(toCrawlSession);
+  }
+
+  // Crawl event methods
+  addCrawlEvent(event: Omit<CrawlEvent, 'id' | 'createdAt'>): void {
+    this.db.prepare(`
+      INSERT INTO crawl_events (id, crawl_session_id, level, type, message, url, payload, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      crypto.randomUUID(),
+      event.crawlSessionId,
+      event.level,
+      event.type,
+      event.message,
+      event.url || null,
+      event.payload ? JSON.stringify(event.payload) : null,
+      new Date().toISOString()
+    );
+  }
+
+  // Oldest first, so the log reads in the order things happened
+  getCrawlEvents(sessionId: string, filter: CrawlEventFilter = {}): CrawlEvent[] {
+    const conditions = ['crawl_session_id = ?'];
+    const values: (string | number)[] = [sessionId];
+
+    if (filter.levels && filter.levels.length > 0) {
+      conditions.push(`level IN (${filter.levels.map(() => '?').join(', ')})`);
+      values.push(...filter.levels);
+    }
+    if (filter.type) {
+      conditions.push('type = ?');
+      values.push(filter.type);
+    }
+    if (filter.search) {
+      conditions.push("(message LIKE ? ESCAPE '\\' OR url LIKE ? ESCAPE '\\')");
+      const pattern = `%${filter.search.replace(/[\\%_]/g, char => `\\${char}`)}%`;
+      values.push(pattern, pattern);
+    }
+
+    const rows = this.db.prepare(`
+      ${CRAWL_EVENT_SELECT}
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY created_at, rowid
+      LIMIT ? OFFSET ?
+    `).all(...values, filter.limit ?? 500, filter.offset ?? 0) as CrawlEventRow[];
+    return rows.map(toCrawlEvent);
+  }
+
+  // How many events the session has per level and type, for the log's filters
+  getCrawlEventCounts(sessionId: string): Array<{ level: CrawlEventLevel; type: CrawlEventType; count: number }> {
+    return this.db.prepare(`
+      SELECT level, type, COUNT(*) as count FROM crawl_events
+      WHERE crawl_session_id = ?
+      GROUP BY level, type
+    `).all(sessionId) as Array<{ level: CrawlEventLevel; type: CrawlEventType; count: number }>;
+  }
+
+  // Account methods
+  getAccounts(): Account[] {
+    const rows = this.db.prepare(`
+      SELECT id, name, created_at as createdAt FROM accounts ORDER BY created_at
+    `).all() as Array<Omit<Account, 'name'> & { name: string | null }>;
+    return rows.map(row => ({ ...row, name: row.name ?? undefined }));
+  }
+
+  getAccount(accountId: string): Account | null {
+    return this.getAccounts().find(account => account.id === normalizeAccountId(accountId)) ?? null;
+  }
+
+  // Adds the account, or renames it when a name is given. The first account added takes over
+  // the sessions crawled before there were accounts.
+  saveAccount(account: Pick<Account, 'id' | 'name'>): void {
+    const id = normalizeAccountId(account.id);
+    const name = account.name?.trim() || null;
+
+    this.transaction(() => {
+      const isFirst = !this.db.prepare('SELECT 1 FROM accounts LIMIT 1').get();
+
+      this.db.prepare(`
+        INSERT INTO accounts (id, name, created_at) VALUES (?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET name = CASE WHEN ? THEN excluded.name ELSE name END
+      `).run(id, name, new Date().toISOString(), account.name === undefined ? 0 : 1);
+
+      if (isFirst) {
+        this.db.prepare('UPDATE crawl_sessions SET account_id = ? WHERE account_id IS NULL').run(id);
+      }
+    });
+  }
+
+  // Settings methods
+  // The account's crawl settings merged over the defaults, so fields added later get a value.
+  // Accounts without their own start from the settings saved before there were accounts.
+  getCrawlSettings(accountId: string): CrawlSettings {
+    const row = this.db.prepare(`
+      SELECT value FROM app_settings WHERE key IN (?, 'crawl') ORDER BY key = 'crawl' LIMIT 1
+    `).get(`crawl:${accountId}`) as { value: string } | undefined;
+    return { ...DEFAULT_CRAWL_SETTINGS, ...(row ? JSON.parse(row.value) : {}) };
+  }
+
+  saveCrawlSettings(accountId: string, settings: CrawlSettings): void {
+    this.db.prepare(`
+      INSERT INTO app_settings (key, value, updated_at) VALUES (?, ?, ?)
+      ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+    `).run(`crawl:${accountId}`, JSON.stringify(settings), new Date().toISOString());
+  }
+
+  // Checkpoint methods
+  getCheckpoint(sessionId: string): CrawlCheckpoint | null {
+    const row = this.db.prepare(`
+      SELECT crawl_session_id as crawlSessionId, current_page as currentPage,
+             current_offset as currentOffset, updated_at as updatedAt
+      FROM crawl_checkpoints WHERE crawl_session_id = ?
+    `).get(sessionId) as Omit<CrawlCheckpoint, 'completedCompanies' | 'completedConnections'> | undefined;
+
+    if (!row) return null;
+
+    const items = this.db.prepare(`
+      SELECT item_type as itemType, item_key as itemKey
+      FROM crawl_checkpoint_items WHERE crawl_session_id = ?
+    `).all(sessionId) as Array<{ itemType: 'company' | 'connection'; itemKey: string }>;
+
+    return {
+      ...row,
+      completedCompanies: items.filter(i => i.itemType === 'company').map(i => i.itemKey),
+      completedConnections: items.filter(i => i.itemType === 'connection').map(i => i.itemKey)
+    };
+  }
+
+  saveCheckpointPosition(sessionId: string, currentPage: number, currentOffset: number): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO crawl_checkpoints (crawl_session_id, current_page, current_offset, updated_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(crawl_session_id) DO UPDATE SET
+        current_page = excluded.current_page,
+        current_offset = excluded.current_offset,
+        updated_at = excluded.updated_at
+    `);
+    stmt.run(sessionId, currentPage, currentOffset, new Date().toISOString());
+  }
+
+  // Crawls that work through a list rather than result pages only track their offset
+  saveCheckpointOffset(sessionId: string, currentOffset: number): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO crawl_checkpoints (crawl_session_id, current_offset, updated_at)
+      VALUES (?, ?, ?)
+      ON CONFLICT(crawl_session_id) DO UPDATE SET
+        current_offset = excluded.current_offset,
+        updated_at = excluded.updated_at
+    `);
+    stmt.run(sessionId, currentOffset, new Date().toISOString());
+  }
+
+  markCheckpointItem(sessionId: string, itemType: 'company' | 'connection', itemKey: string): void {
+    const stmt = this.db.prepare(`
+      INSERT OR IGNORE INTO crawl_checkpoint_items (crawl_session_id, item_type, item_key, completed_at)
+      VALUES (?, ?, ?, ?)
+    `);
+    stmt.run(sessionId, itemType, itemKey, new Date().toISOString());
+  }
+
+  // Drops what an interrupted run stored for a company in this session, so the company's
+  // connections can be written again without duplicates
+  deleteCompanyConnections(sessionId: string, companyId: string): void {
+    this.db.prepare(`
+      DELETE FROM connections WHERE id IN (
+        SELECT connection_id FROM company_connections WHERE crawl_session_id = ? AND company_id = ?
+      )
+    `).run(sessionId, companyId);
+    this.db.prepare(`
+      DELETE FROM company_connections WHERE crawl_session_id = ? AND company_id = ?
+    `).run(sessionId, companyId);
+  }
+
   // Connection methods
   createConnection(connection: Omit<Connection, 'id' | 'createdAt'>): string {
     const id = crypto.randomUUID();
@@ -203,13 +1089,13 @@ class DatabaseManager {
     
     const stmt = this.db.prepare(`
       INSERT INTO connections (id, crawl_session_id, name, headline, profile_url, profile_image_url, connection_source, company, company_url,
-                              company_logo_url, connection_degree, mutual_connection, location, created_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                              company_logo_url, connection_degree, mutual_connection, location, connected_on, extraction_method, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
     
     stmt.run(id, connection.crawlSessionId, connection.name, connection.headline, connection.profileUrl,
              connection.profileImageUrl, connection.connectionSource, connection.company, connection.companyUrl, connection.companyLogoUrl, connection.connectionDegree,
-             connection.mutualConnection, connection.location, createdAt);
+             connection.mutualConnection, connection.location, connection.connectedOn, connection.extractionMethod || 'selector', createdAt);
     
     return id;
   }
@@ -219,7 +1105,7 @@ class DatabaseManager {
       SELECT id, crawl_session_id as crawlSessionId, name, headline, profile_url as profileUrl,
              profile_image_url as profileImageUrl, connection_source as connectionSource, company, company_url as companyUrl, company_logo_url as companyLogoUrl,
              connection_degree as connectionDegree, mutual_connection as mutualConnection,
-             location, created_at as createdAt
+             location, connected_on as connectedOn, extraction_method as extractionMethod, created_at as createdAt
       FROM connections WHERE crawl_session_id = ?
     `);
     return stmt.all(sessionId) as Connection[];
@@ -231,12 +1117,12 @@ class DatabaseManager {
     const createdAt = new Date().toISOString();
     
     const stmt = this.db.prepare(`
-      INSERT OR REPLACE INTO companies (id, name, linkedin_url, logo_url, description, industry, size, location, website, created_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT OR REPLACE INTO companies (id, name, linkedin_url, logo_url, description, industry, size, location, website, extraction_method, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
     
     stmt.run(id, company.name, company.linkedinUrl, company.logoUrl, company.description,
-             company.industry, company.size, company.location, company.website, createdAt);
+             company.industry, company.size, company.location, company.website, company.extractionMethod || 'selector', createdAt);
     
     return id;
   }
@@ -244,12 +1130,69 @@ class DatabaseManager {
   getCompanyByLinkedInUrl(linkedinUrl: string): Company | null {
     const stmt = this.db.prepare(`
       SELECT id, name, linkedin_url as linkedinUrl, logo_url as logoUrl, description,
-             industry, size, location, website, created_at as createdAt
+             industry, size, location, website, headcount, headquarters, follower_count as followerCount,
+             details_updated_at as detailsUpdatedAt, ats_provider as atsProvider, ats_slug as atsSlug, extraction_method as extractionMethod,
+             created_at as createdAt
       FROM companies WHERE linkedin_url = ?
     `);
     return stmt.get(linkedinUrl) as Company | null;
   }
 
+  getCompanyById(id: string): Company | null {
+    const stmt = this.db.prepare(`
+      SELECT id, name, linkedin_url as linkedinUrl, logo_url as logoUrl, description,
+             industry, size, location, website, headcount, headquarters, follower_count as followerCount,
+             details_updated_at as detailsUpdatedAt, ats_provider as atsProvider, ats_slug as atsSlug, extraction_method as extractionMethod,
+             created_at as createdAt
+      FROM companies WHERE id = ?
+    `);
+    return stmt.get(id) as Company | null;
+  }
+
+  getCompanyByName(name: string): Company | null {
+    const stmt = this.db.prepare(`
+      SELECT id, name, linkedin_url as linkedinUrl, logo_url as logoUrl, description,
+             industry, size, location, website, headcount, headquarters, follower_count as followerCount,
+             details_updated_at as detailsUpdatedAt, ats_provider as atsProvider, ats_slug as atsSlug, extraction_method as extractionMethod,
+             created_at as createdAt
+      FROM companies WHERE name = ? COLLATE NOCASE
+      ORDER BY created_at LIMIT 1
+    `);
+    return stmt.get(name) as Company | null;
+  }
+
+  updateCompany(id: string, updates: Partial<Pick<Company, keyof typeof COMPANY_UPDATE_COLUMNS>>): void {
+    const fields = [];
+    const values = [];
+
+    for (const [key, column] of Object.entries(COMPANY_UPDATE_COLUMNS) as Array<[keyof typeof COMPANY_UPDATE_COLUMNS, string]>) {
+      if (updates[key] !== undefined) {
+        fields.push(`${column} = ?`);
+        values.push(updates[key]);
+      }
+    }
+
+    if (fields.length > 0) {
+      const stmt = this.db.prepare(`UPDATE companies SET ${fields.join(', ')} WHERE id = ?`);
+      stmt.run(...values, id);
+    }
+  }
+
+  // Companies the session found connection paths into
+  getCompaniesBySession(sessionId: string): Company[] {
+    const stmt = this.db.prepare(`
+      SELECT DISTINCT c.id, c.name, c.linkedin_url as linkedinUrl, c.logo_url as logoUrl, c.description,
+             c.industry, c.size, c.location, c.website, c.headcount, c.headquarters, c.follower_count as followerCount,
+             c.details_updated_at as detailsUpdatedAt, c.ats_provider as atsProvider, c.ats_slug as atsSlug, c.extraction_method as extractionMethod,
+             c.created_at as createdAt
+      FROM companies c
+      JOIN company_connections cc ON cc.company_id = c.id
+      WHERE cc.crawl_session_id = ?
+      ORDER BY c.name
+    `);
+    return stmt.all(sessionId) as Company[];
+  }
+
   // Company Connection methods
   createCompanyConnection(companyConnection: Omit<CompanyConnection, 'id' | 'createdAt'>): string {
     const id = crypto.randomUUID();
@@ -272,16 +1215,156 @@ class DatabaseManager {
         cc.id, cc.connection_path as connectionPath, cc.created_at as createdAt,
         c.id as companyId, c.name as companyName, c.linkedin_url as companyLinkedInUrl,
         c.logo_url as companyLogoUrl, c.description as companyDescription,
+        c.industry as companyIndustry, c.size as companySize, c.headcount as companyHeadcount,
+        c.headquarters as companyHeadquarters, c.follower_count as companyFollowerCount,
         conn.id as connectionId, conn.name as connectionName, conn.headline as connectionHeadline,
         conn.profile_url as connectionProfileUrl, conn.profile_image_url as connectionProfileImageUrl, 
-        conn.connection_source as connectionSource, conn.connection_degree as connectionDegree
+        conn.connection_source as connectionSource, conn.connection_degree as connectionDegree,
+        conn.mutual_connection as mutualConnection, conn.connected_on as connectedOn,
+        conn.extraction_method as extractionMethod,
+        (
+          SELECT MIN(p.start_date) FROM positions p
+          WHERE p.profile_url = conn.profile_url AND p.is_current = 1
+            AND (p.company_url = c.linkedin_url OR p.company_name = c.name COLLATE NOCASE)
+        ) as tenureStart,
+        (
+          SELECT json_group_array(DISTINCT tc.name) FROM positions p
+          JOIN company_connections tcc ON tcc.crawl_session_id = cc.crawl_session_id
+          JOIN companies tc ON tc.id = tcc.company_id AND tc.id != c.id
+          WHERE p.profile_url = conn.profile_url AND p.is_current = 0
+            AND (p.company_url = tc.linkedin_url OR p.company_name = tc.name COLLATE NOCASE)
+        ) as previousTargetCompanies
+      FROM company_connections cc
+      JOIN companies c ON cc.company_id = c.id
+      JOIN connections conn ON cc.connection_id = conn.id
+      WHERE cc.crawl_session_id = ?
+      ORDER BY c.name, conn.name
+    `);
+
+    // previousTargetCompanies: other companies in this session the person used to work at
+    const owner = this.getSessionOwnerName(sessionId);
+    return (stmt.all(sessionId) as Array<Record<string, unknown> & { connectionPath: string; tenureStart: string | null; previousTargetCompanies: string }>)
+      .map(row => ({
+        ...row,
+        connectionPath: resolveConnectionPath(row.connectionPath, owner),
+        tenureStart: row.tenureStart ?? undefined,
+        previousTargetCompanies: JSON.parse(row.previousTargetCompanies) as string[]
+      }));
+  }
+
+  getCompanyPathsBySession(sessionId: string): CompanyPath[] {
+    const stmt = this.db.prepare(`
+      SELECT c.id as companyId, c.name as companyName, c.linkedin_url as companyLinkedInUrl, c.logo_url as companyLogoUrl,
+             conn.name as connectionName, conn.profile_url as connectionProfileUrl, cc.connection_path as connectionPath
       FROM company_connections cc
       JOIN companies c ON cc.company_id = c.id
       JOIN connections conn ON cc.connection_id = conn.id
       WHERE cc.crawl_session_id = ?
       ORDER BY c.name, conn.name
     `);
-    return stmt.all(sessionId);
+    const owner = this.getSessionOwnerName(sessionId);
+    return (stmt.all(sessionId) as CompanyPath[]).map(path => ({
+      ...path,
+      connectionPath: resolveConnectionPath(path.connectionPath, owner)
+    }));
+  }
+
+  // Job methods
+  createJob(job: Omit<Job, 'id' | 'createdAt'>): string {
+    const id = crypto.randomUUID();
+    const createdAt = new Date().toISOString();
+
+    // The same posting can show up on several result pages
+    const stmt = this.db.prepare(`
+      INSERT OR IGNORE INTO jobs (id, crawl_session_id, company_id, source, external_id, title, location, is_remote, posted_at, url, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const result = stmt.run(id, job.crawlSessionId, job.companyId, job.source, job.externalId, job.title, job.location,
+             job.isRemote ? 1 : 0, job.postedAt, job.url, createdAt);
+    if (result.changes > 0) return id;
+
+    // Already stored for this session, so hand back the existing row's id
+    const existing = this.db.prepare(`
+      SELECT id FROM jobs WHERE crawl_session_id = ? AND url = ?
+    `).get(job.crawlSessionId, job.url) as { id: string };
+    return existing.id;
+  }
+
+  getJobsBySession(sessionId: string): SessionJob[] {
+    const stmt = this.db.prepare(`
+      SELECT
+        j.id, j.crawl_session_id as crawlSessionId, j.source, j.external_id as externalId, j.title, j.location,
+        j.is_remote as isRemote, j.posted_at as postedAt, j.url, j.created_at as createdAt,
+        c.id as companyId, c.name as companyName, c.linkedin_url as companyLinkedInUrl, c.logo_url as companyLogoUrl,
+        s.score, s.matched_skills as matchedSkills, s.rationale
+      FROM jobs j
+      JOIN companies c ON j.company_id = c.id
+      LEFT JOIN job_scores s ON s.job_id = j.id
+      WHERE j.crawl_session_id = ?
+      ORDER BY c.name, j.posted_at DESC
+    `);
+    const rows = stmt.all(sessionId) as Array<Omit<SessionJob, 'isRemote' | 'matchedSkills'> & { isRemote: number; matchedSkills: string | null }>;
+
+    return rows.map(row => ({
+      ...row,
+      isRemote: row.isRemote === 1,
+      score: row.score ?? undefined,
+      matchedSkills: row.matchedSkills ? JSON.parse(row.matchedSkills) : undefined,
+      rationale: row.rationale ?? undefined
+    }));
+  }
+
+  saveJobScore(jobScore: Omit<JobScore, 'scoredAt'>): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO job_scores (job_id, score, matched_skills, rationale, model, scored_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(job_id) DO UPDATE SET
+        score = excluded.score,
+        matched_skills = excluded.matched_skills,
+        rationale = excluded.rationale,
+        model = excluded.model,
+        scored_at = excluded.scored_at
+    `);
+    stmt.run(jobScore.jobId, jobScore.score, JSON.stringify(jobScore.matchedSkills),
+             jobScore.rationale, jobScore.model, new Date().toISOString());
+  }
+
+  // Profile history methods. Re-enriching a person replaces what an earlier crawl stored.
+  saveProfileHistory(
+    profileUrl: string,
+    crawlSessionId: string,
+    positions: Omit<Position, 'id' | 'profileUrl' | 'crawlSessionId' | 'createdAt'>[],
+    education: Omit<Education, 'id' | 'profileUrl' | 'crawlSessionId' | 'createdAt'>[]
+  ): void {
+    const createdAt = new Date().toISOString();
+    const insertPosition = this.db.prepare(`
+      INSERT INTO positions (id, profile_url, crawl_session_id, company_name, company_url, title, start_date, end_date, is_current, location, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertEducation = this.db.prepare(`
+      INSERT INTO education (id, profile_url, crawl_session_id, school, degree, field_of_study, start_date, end_date, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    this.transaction(() => {
+      this.db.prepare('DELETE FROM positions WHERE profile_url = ?').run(profileUrl);
+      this.db.prepare('DELETE FROM education WHERE profile_url = ?').run(profileUrl);
+
+      for (const position of positions) {
+        insertPosition.run(crypto.randomUUID(), profileUrl, crawlSessionId, position.companyName, position.companyUrl,
+                           position.title, position.startDate, position.endDate, position.isCurrent ? 1 : 0, position.location, createdAt);
+      }
+      for (const entry of education) {
+        insertEducation.run(crypto.randomUUID(), profileUrl, crawlSessionId, entry.school, entry.degree,
+                            entry.fieldOfStudy, entry.startDate, entry.endDate, createdAt);
+      }
+    });
+  }
+
+  // Runs fn inside a single SQLite transaction (much faster for bulk inserts)
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn)();
   }
 
   close() {
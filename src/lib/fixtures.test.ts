@@ -0,0 +1,30 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeFixtureUrl } from './fixtures';
+
+describe('normalizeFixtureUrl', () => {
+  it('ignores query parameter order', () => {
+    assert.equal(
+      normalizeFixtureUrl('https://www.linkedin.com/search/results/companies/?origin=FACETED_SEARCH&network=%5B%22F%22%5D'),
+      normalizeFixtureUrl('https://www.linkedin.com/search/results/companies/?network=%5B%22F%22%5D&origin=FACETED_SEARCH')
+    );
+  });
+
+  it('ignores encoding differences, fragments and trailing slashes', () => {
+    assert.equal(
+      normalizeFixtureUrl('https://www.linkedin.com/in/jane-doe/details/experience/#main'),
+      normalizeFixtureUrl('https://www.linkedin.com/in/jane%2Ddoe/details/experience')
+    );
+    assert.equal(
+      normalizeFixtureUrl('https://www.linkedin.com/search/results/people/?keywords=a%20b'),
+      normalizeFixtureUrl('https://www.linkedin.com/search/results/people/?keywords=a+b')
+    );
+  });
+
+  it('keeps different pages apart', () => {
+    assert.notEqual(
+      normalizeFixtureUrl('https://www.linkedin.com/search/results/companies/?page=1'),
+      normalizeFixtureUrl('https://www.linkedin.com/search/results/companies/?page=2')
+    );
+  });
+});
@@ -0,0 +1,79 @@
+import path from 'path';
+import fs from 'fs';
+import { FixturePageType } from '@/types';
+
+const FIXTURES_DIR = path.join(process.cwd(), 'data', 'fixtures');
+const URL_HEADER = /^<!-- fixture-url: (.*?) -->\n/;
+
+export const FIXTURE_PAGE_TYPES: FixturePageType[] = ['companySearch', 'peopleSearch', 'connectionsList', 'profile', 'profileDetails', 'companyAbout', 'companyPage', 'jobSearch'];
+
+export interface FixtureInfo {
+  pageType: FixturePageType;
+  file: string;
+  size: number;
+  capturedAt: string;
+}
+
+// The browser can request a fixture's URL with its query parameters reordered or encoded
+// differently from how it was captured, so replay compares URLs in this form
+export function normalizeFixtureUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    parsed.searchParams.sort();
+    parsed.pathname = decodeURI(parsed.pathname).replace(/\/+$/, '') || '/';
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+// Saves the HTML of pages the crawler extracts from, keyed by page type, so extraction can
+// be replayed offline (see LinkedInCrawler.replayFixture)
+export class FixtureStore {
+  static save(pageType: FixturePageType, url: string, html: string): string {
+    const dir = path.join(FIXTURES_DIR, pageType);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const slug = new URL(url).pathname.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60);
+    const file = `${new Date().toISOString().replace(/[:.]/g, '-')}_${slug || 'page'}.html`;
+
+    // Keep the original URL with the HTML so replay can serve it from the same origin
+    fs.writeFileSync(path.join(dir, file), `<!-- fixture-url: ${url} -->\n${html}`);
+    return file;
+  }
+
+  static list(pageType?: FixturePageType): FixtureInfo[] {
+    const pageTypes = pageType ? [pageType] : FIXTURE_PAGE_TYPES;
+
+    return pageTypes.flatMap(type => {
+      const dir = path.join(FIXTURES_DIR, type);
+      if (!fs.existsSync(dir)) return [];
+
+      return fs.readdirSync(dir)
+        .filter(file => file.endsWith('.html'))
+        .map(file => {
+          const stats = fs.statSync(path.join(dir, file));
+          return { pageType: type, file, size: stats.size, capturedAt: stats.mtime.toISOString() };
+        });
+    });
+  }
+
+  static load(pageType: FixturePageType, file: string): { url: string; html: string } {
+    // Only allow plain file names inside the page type's directory
+    const filePath = path.join(FIXTURES_DIR, pageType, path.basename(file));
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Fixture not found: ${pageType}/${file}`);
+    }
+
+    const content = fs.readFileSync(filePath, 'utf-8');
+    const header = content.match(URL_HEADER);
+
+    return {
+      url: header ? header[1] : 'https://www.linkedin.com/',
+      html: header ? content.slice(header[0].length) : content
+    };
+  }
+}
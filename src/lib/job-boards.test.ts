@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BoardJob, JobBoardClient, guessBoardSlugs, isSameCompany, mergeJobs } from './job-boards';
+
+const job = (overrides: Partial<BoardJob>): BoardJob => ({
+  source: 'greenhouse',
+  title: 'Engineer',
+  isRemote: false,
+  url: 'https://example.com/jobs/1',
+  ...overrides
+});
+
+// Answers the job board APIs from a path -> JSON map and 404s everything else
+const stubFetch = (responses: Record<string, unknown>) => (async (input: string | URL | Request) => {
+  const { pathname } = new URL(input.toString());
+  const body = responses[pathname];
+  return body === undefined
+    ? new Response('{}', { status: 404 })
+    : new Response(JSON.stringify(body), { status: 200 });
+}) as typeof fetch;
+
+const greenhouseJobs = {
+  jobs: [{ id: 1, title: 'Backend Engineer', absolute_url: 'https://boards.greenhouse.io/acmelabs/jobs/1' }]
+};
+
+describe('guessBoardSlugs', () => {
+  it('joins the words of the name without the legal suffix', () => {
+    assert.deepEqual(guessBoardSlugs('Acme Labs, Inc.'), ['acmelabs', 'acme-labs']);
+  });
+
+  it('does not guess the first word on its own', () => {
+    assert.deepEqual(guessBoardSlugs('The Trade Desk'), ['thetradedesk', 'the-trade-desk']);
+  });
+});
+
+describe('isSameCompany', () => {
+  it('ignores case, punctuation and legal suffixes', () => {
+    assert.equal(isSameCompany('Acme Labs', 'Acme Labs, Inc.'), true);
+  });
+
+  it('rejects a board for a different or missing name', () => {
+    assert.equal(isSameCompany('Acme', 'Acme Labs'), false);
+    assert.equal(isSameCompany(undefined, 'Acme Labs'), false);
+  });
+});
+
+describe('mergeJobs', () => {
+  it('drops postings already seen by URL or title', () => {
+    const linkedin = [job({ source: 'linkedin', title: 'Backend Engineer', url: 'https://www.linkedin.com/jobs/view/1' })];
+    const board = [
+      job({ title: 'Backend  engineer', url: 'https://boards.greenhouse.io/acme/jobs/1' }),
+      job({ title: 'Designer', url: 'https://www.linkedin.com/jobs/view/1' }),
+      job({ title: 'Data Scientist', url: 'https://boards.greenhouse.io/acme/jobs/2' })
+    ];
+
+    assert.deepEqual(mergeJobs(linkedin, board).map(merged => merged.title), ['Backend Engineer', 'Data Scientist']);
+  });
+});
+
+describe('JobBoardClient.findCompanyJobs', () => {
+  it('accepts a guessed board published under the company name', async () => {
+    const client = new JobBoardClient({
+      fetch: stubFetch({
+        '/v1/boards/acmelabs/jobs': greenhouseJobs,
+        '/v1/boards/acmelabs': { name: 'Acme Labs' }
+      })
+    });
+
+    const result = await client.findCompanyJobs({ name: 'Acme Labs, Inc.' });
+    assert.deepEqual(result?.board, { provider: 'greenhouse', slug: 'acmelabs' });
+    assert.equal(result?.jobs.length, 1);
+  });
+
+  it('skips a guessed board that belongs to another company', async () => {
+    const client = new JobBoardClient({
+      fetch: stubFetch({
+        '/v1/boards/acmelabs/jobs': greenhouseJobs,
+        '/v1/boards/acmelabs': { name: 'ACME Laboratories Group' }
+      })
+    });
+
+    assert.equal(await client.findCompanyJobs({ name: 'Acme Labs' }), null);
+  });
+});
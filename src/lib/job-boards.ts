@@ -0,0 +1,329 @@
+import path from 'path';
+import fs from 'fs';
+import { AtsProvider, Company, Job } from '@/types';
+
+// A posting normalized from any source, before it's tied to a session and company
+export type BoardJob = Pick<Job, 'source' | 'externalId' | 'title' | 'location' | 'isRemote' | 'postedAt' | 'url'>;
+
+export interface JobBoard {
+  provider: AtsProvider;
+  slug: string;
+}
+
+interface BoardProvider {
+  apiBaseUrl: string;
+  // Matches the provider's hosted board or embed links, capturing the board slug
+  boardUrlPatterns: RegExp[];
+  jobsPath: (slug: string) => string;
+  parseJobs: (data: unknown) => BoardJob[];
+  // The company name the board is published under, read from boardPath (or the jobs
+  // response when there is no separate endpoint). Providers without one can't confirm a
+  // guessed slug, so they're only found through links on the company website.
+  boardName?: {
+    boardPath?: (slug: string) => string;
+    parse: (data: unknown) => string | undefined;
+  };
+}
+
+const RECORDINGS_DIR = path.join(process.cwd(), 'data', 'fixtures', 'ats');
+const REQUEST_TIMEOUT_MS = 15000;
+
+const isRemoteText = (text?: string | null) => /\bremote\b/i.test(text || '');
+const toDate = (value?: string | number | null) => value ? new Date(value).toISOString().slice(0, 10) : undefined;
+
+// Public JSON endpoints. Field names follow each provider's documented job board API.
+const PROVIDERS: Record<AtsProvider, BoardProvider> = {
+  greenhouse: {
+    apiBaseUrl: 'https://boards-api.greenhouse.io',
+    boardUrlPatterns: [
+      /(?:job-)?boards\.greenhouse\.io\/embed\/job_board(?:\/js)?\?for=([\w-]+)/i,
+      /(?:job-)?boards\.greenhouse\.io\/([\w-]+)/i,
+    ],
+    jobsPath: (slug) => `/v1/boards/${slug}/jobs`,
+    boardName: {
+      boardPath: (slug) => `/v1/boards/${slug}`,
+      parse: (data) => (data as { name?: string }).name
+    },
+    parseJobs: (data) => {
+      const { jobs = [] } = data as { jobs?: Array<{ id: number; title: string; absolute_url: string; location?: { name?: string }; first_published?: string; updated_at?: string }> };
+      return jobs.map(job => ({
+        source: 'greenhouse',
+        externalId: String(job.id),
+        title: job.title,
+        location: job.location?.name || undefined,
+        isRemote: isRemoteText(job.location?.name),
+        postedAt: toDate(job.first_published || job.updated_at),
+        url: job.absolute_url
+      }));
+    }
+  },
+  lever: {
+    apiBaseUrl: 'https://api.lever.co',
+    boardUrlPatterns: [/jobs\.lever\.co\/([\w-]+)/i],
+    jobsPath: (slug) => `/v0/postings/${slug}?mode=json`,
+    parseJobs: (data) => {
+      const postings = (Array.isArray(data) ? data : []) as Array<{ id: string; text: string; hostedUrl: string; createdAt?: number; workplaceType?: string; categories?: { location?: string } }>;
+      return postings.map(posting => ({
+        source: 'lever',
+        externalId: posting.id,
+        title: posting.text,
+        location: posting.categories?.location || undefined,
+        isRemote: posting.workplaceType === 'remote' || isRemoteText(posting.categories?.location),
+        postedAt: toDate(posting.createdAt),
+        url: posting.hostedUrl
+      }));
+    }
+  },
+  ashby: {
+    apiBaseUrl: 'https://api.ashbyhq.com',
+    boardUrlPatterns: [/jobs\.ashbyhq\.com\/([\w.-]+)/i],
+    jobsPath: (slug) => `/posting-api/job-board/${slug}`,
+    parseJobs: (data) => {
+      const { jobs = [] } = data as { jobs?: Array<{ id: string; title: string; jobUrl: string; location?: string; isRemote?: boolean; workplaceType?: string; publishedAt?: string }> };
+      return jobs.map(job => ({
+        source: 'ashby',
+        externalId: job.id,
+        title: job.title,
+        location: job.location || undefined,
+        isRemote: Boolean(job.isRemote) || job.workplaceType === 'Remote' || isRemoteText(job.location),
+        postedAt: toDate(job.publishedAt),
+        url: job.jobUrl
+      }));
+    }
+  },
+  workable: {
+    apiBaseUrl: 'https://apply.workable.com',
+    boardUrlPatterns: [/apply\.workable\.com\/([\w-]+)/i, /([\w-]+)\.workable\.com/i],
+    jobsPath: (slug) => `/api/v1/widget/accounts/${slug}`,
+    boardName: {
+      parse: (data) => (data as { name?: string }).name
+    },
+    parseJobs: (data) => {
+      const { jobs = [] } = data as { jobs?: Array<{ shortcode: string; title: string; url: string; city?: string; state?: string; country?: string; telecommuting?: boolean; published_on?: string; created_at?: string }> };
+      return jobs.map(job => {
+        const location = [job.city, job.state, job.country].filter(Boolean).join(', ');
+        return {
+          source: 'workable',
+          externalId: job.shortcode,
+          title: job.title,
+          location: location || undefined,
+          isRemote: Boolean(job.telecommuting) || isRemoteText(location),
+          postedAt: toDate(job.published_on || job.created_at),
+          url: job.url
+        };
+      });
+    }
+  },
+};
+
+export const ATS_PROVIDERS = Object.keys(PROVIDERS) as AtsProvider[];
+
+// Slugs that aren't boards (widget/asset paths on the providers' domains)
+const IGNORED_SLUGS = new Set(['embed', 'api', 'v0', 'v1', 'static', 'www', 'apply', 'jobs']);
+
+// Key a recorded response by its provider-relative API path. scripts/ats-stub-server.mjs
+// computes the same key to serve recordings back.
+export function recordingKey(apiPath: string): string {
+  return apiPath.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+export interface JobBoardClientOptions {
+  fetch?: typeof fetch;
+  // Overrides per provider, e.g. a local stub server serving recorded responses
+  apiBaseUrls?: Partial<Record<AtsProvider, string>>;
+  // Save every API response under data/fixtures/ats/<provider>/ for the stub server
+  recordResponses?: boolean;
+}
+
+// Finds which applicant tracking system a company hosts its job board on and pulls the
+// postings through that provider's public JSON API
+export class JobBoardClient {
+  private fetchImpl: typeof fetch;
+  private apiBaseUrls: Record<AtsProvider, string>;
+  private recordResponses: boolean;
+
+  constructor(options: JobBoardClientOptions = {}) {
+    this.fetchImpl = options.fetch || fetch;
+    this.recordResponses = Boolean(options.recordResponses);
+
+    // JOB_BOARD_API_URL points every provider at one stub server (<url>/<provider>/...)
+    const stubUrl = process.env.JOB_BOARD_API_URL?.replace(/\/+$/, '');
+    this.apiBaseUrls = Object.fromEntries(ATS_PROVIDERS.map(provider => [
+      provider,
+      options.apiBaseUrls?.[provider] || (stubUrl ? `${stubUrl}/${provider}` : PROVIDERS[provider].apiBaseUrl)
+    ])) as Record<AtsProvider, string>;
+  }
+
+  // Uses the cached board if we have one, then links on the company website, then probes
+  // each provider with slugs guessed from the company name. Every board returned belongs to
+  // the company, so callers can cache it.
+  async findCompanyJobs(company: Pick<Company, 'name' | 'website' | 'atsProvider' | 'atsSlug'>): Promise<{ board: JobBoard; jobs: BoardJob[] } | null> {
+    const knownBoard = company.atsProvider && company.atsSlug
+      ? { provider: company.atsProvider, slug: company.atsSlug }
+      : company.website ? await this.detectFromWebsite(company.website) : null;
+
+    if (knownBoard) {
+      return { board: knownBoard, jobs: await this.fetchJobs(knownBoard) };
+    }
+
+    const verifiableProviders = ATS_PROVIDERS.filter(provider => PROVIDERS[provider].boardName);
+
+    for (const slug of guessBoardSlugs(company.name)) {
+      for (const provider of verifiableProviders) {
+        try {
+          const data = await this.requestJobs({ provider, slug });
+          const jobs = data === null ? [] : this.parseJobs(provider, data);
+
+          // A guessed slug only counts when the board has postings and is published under
+          // the company's name, since boards with similar slugs belong to other companies
+          if (jobs.length > 0 && isSameCompany(await this.fetchBoardName({ provider, slug }, data), company.name)) {
+            return { board: { provider, slug }, jobs };
+          }
+        } catch (error) {
+          console.warn(`Failed to probe ${provider} job board "${slug}":`, error);
+        }
+      }
+    }
+
+    return null;
+  }
+
+  async fetchJobs(board: JobBoard): Promise<BoardJob[]> {
+    const data = await this.requestJobs(board);
+    if (data === null) {
+      throw new Error(`No ${board.provider} job board found for "${board.slug}"`);
+    }
+
+    return this.parseJobs(board.provider, data);
+  }
+
+  private async fetchBoardName(board: JobBoard, jobsData: unknown): Promise<string | undefined> {
+    const boardName = PROVIDERS[board.provider].boardName;
+    if (!boardName) return undefined;
+
+    const data = boardName.boardPath
+      ? await this.requestJson(board.provider, boardName.boardPath(encodeURIComponent(board.slug)))
+      : jobsData;
+    return data === null ? undefined : boardName.parse(data);
+  }
+
+  private parseJobs(provider: AtsProvider, data: unknown): BoardJob[] {
+    return PROVIDERS[provider].parseJobs(data).filter(job => job.title && job.url);
+  }
+
+  // Looks for board links on the homepage and, failing that, its careers page
+  private async detectFromWebsite(website: string): Promise<JobBoard | null> {
+    const homepage = await this.fetchText(website);
+    if (!homepage) return null;
+
+    const fromHomepage = findBoardLink(homepage);
+    if (fromHomepage) return fromHomepage;
+
+    const careersHref = homepage.match(/href=["']([^"']*(?:careers?|jobs)[^"']*)["']/i)?.[1];
+    if (!careersHref) return null;
+
+    try {
+      const careersPage = await this.fetchText(new URL(careersHref, website).toString());
+      return careersPage ? findBoardLink(careersPage) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Returns the parsed JSON, or null when the board doesn't exist
+  private async requestJobs(board: JobBoard): Promise<unknown | null> {
+    return this.requestJson(board.provider, PROVIDERS[board.provider].jobsPath(encodeURIComponent(board.slug)));
+  }
+
+  private async requestJson(provider: AtsProvider, apiPath: string): Promise<unknown | null> {
+    const response = await this.fetchImpl(`${this.apiBaseUrls[provider]}${apiPath}`, {
+      headers: { Accept: 'application/json' },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`${provider} job board request failed with HTTP ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (this.recordResponses) {
+      this.record(provider, apiPath, data);
+    }
+    return data;
+  }
+
+  private async fetchText(url: string): Promise<string | null> {
+    try {
+      const response = await this.fetchImpl(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+      return response.ok ? await response.text() : null;
+    } catch (error) {
+      console.warn(`Could not load ${url} to look for a job board:`, error);
+      return null;
+    }
+  }
+
+  private record(provider: AtsProvider, apiPath: string, data: unknown): void {
+    const dir = path.join(RECORDINGS_DIR, provider);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    fs.writeFileSync(path.join(dir, `${recordingKey(apiPath)}.json`), JSON.stringify(data, null, 2));
+  }
+}
+
+export function findBoardLink(html: string): JobBoard | null {
+  for (const provider of ATS_PROVIDERS) {
+    for (const pattern of PROVIDERS[provider].boardUrlPatterns) {
+      const slug = html.match(pattern)?.[1];
+      if (slug && !IGNORED_SLUGS.has(slug.toLowerCase())) {
+        return { provider, slug };
+      }
+    }
+  }
+  return null;
+}
+
+// Combines postings from several sources in order, dropping any whose URL or title was
+// already seen. LinkedIn and the ATS link the same role differently, so the title is what
+// usually catches a repeat.
+export function mergeJobs(...sources: BoardJob[][]): BoardJob[] {
+  const seen = new Set<string>();
+  const merged: BoardJob[] = [];
+
+  for (const job of sources.flat()) {
+    const keys = [`url:${job.url}`, `title:${job.title.trim().toLowerCase().replace(/\s+/g, ' ')}`];
+    if (keys.some(key => seen.has(key))) continue;
+
+    keys.forEach(key => seen.add(key));
+    merged.push(job);
+  }
+
+  return merged;
+}
+
+// "Acme Labs, Inc." -> ["acme", "labs"]
+function companyNameWords(companyName: string): string[] {
+  return companyName
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/\b(inc|llc|ltd|limited|corp|corporation|co|gmbh|plc|s\.?a)\b\.?/g, ' ')
+    .replace(/[^a-z0-9\s-]/g, '')
+    .split(/[\s-]+/)
+    .filter(Boolean);
+}
+
+// "Acme Labs, Inc." and "Acme Labs" are the same company; "Acme" is not
+export function isSameCompany(boardName: string | undefined, companyName: string): boolean {
+  const words = companyNameWords(companyName);
+  return Boolean(boardName) && words.length > 0 && companyNameWords(boardName!).join(' ') === words.join(' ');
+}
+
+// "Acme Labs, Inc." -> ["acmelabs", "acme-labs"]. The first word alone isn't guessed, since
+// for names like "The Trade Desk" it's a board some other company owns.
+export function guessBoardSlugs(companyName: string): string[] {
+  const words = companyNameWords(companyName);
+  if (words.length === 0) return [];
+
+  return Array.from(new Set([words.join(''), words.join('-')]));
+}
@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { JobScorer, ScorableJob } from './job-scoring';
+import { ChatCompletionClient } from './openai-client';
+import { SkillProfile } from '@/types';
+
+const JOB: ScorableJob = {
+  id: 'job-1',
+  title: 'Senior Frontend Engineer',
+  companyName: 'Acme',
+  location: 'Remote',
+  isRemote: true,
+  url: 'https://example.com/jobs/1'
+};
+
+const PROFILE: SkillProfile = { skills: ['React', 'TypeScript'], remoteOnly: false };
+
+// Answers every chat completion with the same message content
+const stubClient = (content: string | null) => ({
+  chat: {
+    completions: {
+      create: async () => ({ choices: [{ message: { content } }] })
+    }
+  }
+}) as unknown as ChatCompletionClient;
+
+const score = (response: unknown) =>
+  new JobScorer(stubClient(typeof response === 'string' ? response : JSON.stringify(response)), 'test-model').scoreJob(JOB, PROFILE);
+
+describe('JobScorer', () => {
+  it('returns the score with the model that produced it', async () => {
+    assert.deepEqual(await score({ score: 82, matchedSkills: ['React'], rationale: 'Frontend role  using\nReact.' }), {
+      score: 82,
+      matchedSkills: ['React'],
+      rationale: 'Frontend role using React.',
+      model: 'test-model'
+    });
+  });
+
+  it('rounds the score and clamps it from 0 to 100', async () => {
+    assert.equal((await score({ score: 140, matchedSkills: [], rationale: '' })).score, 100);
+    assert.equal((await score({ score: -5, matchedSkills: [], rationale: '' })).score, 0);
+    assert.equal((await score({ score: 71.6, matchedSkills: [], rationale: '' })).score, 72);
+  });
+
+  it('keeps only matched skills from the profile, in the profile\'s spelling', async () => {
+    const result = await score({ score: 60, matchedSkills: ['typescript', 'Go', 'TypeScript', 42], rationale: '' });
+    assert.deepEqual(result.matchedSkills, ['TypeScript']);
+  });
+
+  it('rejects malformed JSON', async () => {
+    await assert.rejects(score('{"score": 80,'), /invalid JSON/);
+  });
+
+  it('rejects a response without a numeric score', async () => {
+    await assert.rejects(score({ score: 'high', matchedSkills: [], rationale: '' }), /missing a numeric score/);
+  });
+
+  it('rejects an empty response', async () => {
+    await assert.rejects(new JobScorer(stubClient(null)).scoreJob(JOB, PROFILE), /empty response/);
+  });
+});
@@ -0,0 +1,132 @@
+import { Job, JobScore, SkillProfile } from '@/types';
+import { getDatabase } from './database';
+import { ChatCompletionClient, DEFAULT_MODEL } from './openai-client';
+
+// Jobs scored in parallel; keeps a big session quick without tripping OpenAI rate limits
+const SCORING_CONCURRENCY = 4;
+
+export type ScorableJob = Pick<Job, 'id' | 'title' | 'location' | 'isRemote' | 'url'> & { companyName: string };
+
+const SCORE_SCHEMA = {
+  type: 'object',
+  properties: {
+    score: { type: 'integer', description: 'Fit from 0 (no fit) to 100 (perfect fit)' },
+    matchedSkills: { type: 'array', items: { type: 'string' }, description: 'Profile skills the role needs' },
+    rationale: { type: 'string', description: 'One sentence explaining the score' }
+  },
+  required: ['score', 'matchedSkills', 'rationale'],
+  additionalProperties: false
+} as const;
+
+// Scores job postings against the user's skill profile with an OpenAI chat model
+export class JobScorer {
+  private client: ChatCompletionClient;
+  private model: string;
+
+  constructor(client: ChatCompletionClient, model = DEFAULT_MODEL) {
+    this.client = client;
+    this.model = model;
+  }
+
+  async scoreJob(job: ScorableJob, profile: SkillProfile): Promise<Omit<JobScore, 'jobId' | 'scoredAt'>> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      temperature: 0,
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: 'job_score', strict: true, schema: SCORE_SCHEMA }
+      },
+      messages: [
+        {
+          role: 'system',
+          content: 'You rate how well a job posting fits a candidate. Only the job title, company and location are ' +
+            'available, so infer the likely stack from the title and company. Respond with JSON only.'
+        },
+        { role: 'user', content: buildScoringPrompt(job, profile) }
+      ]
+    });
+
+    const content = completion.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error('OpenAI returned an empty response');
+    }
+
+    return { ...parseScore(content, profile), model: this.model };
+  }
+}
+
+function buildScoringPrompt(job: ScorableJob, profile: SkillProfile): string {
+  return [
+    'Candidate profile:',
+    `- Skills: ${profile.skills.join(', ') || 'not specified'}`,
+    `- Remote only: ${profile.remoteOnly ? 'yes (score roles that are not remote 20 or lower)' : 'no'}`,
+    profile.notes ? `- Notes: ${profile.notes}` : null,
+    '',
+    'Job posting:',
+    `- Title: ${job.title}`,
+    `- Company: ${job.companyName}`,
+    `- Location: ${job.location || 'unknown'}`,
+    `- Remote: ${job.isRemote ? 'yes' : 'not stated'}`,
+    '',
+    'matchedSkills must only contain skills from the candidate profile.'
+  ].filter(line => line !== null).join('\n');
+}
+
+// The model is asked for strict JSON, but validate anyway before anything is stored
+function parseScore(content: string, profile: SkillProfile): Pick<JobScore, 'score' | 'matchedSkills' | 'rationale'> {
+  let parsed: { score?: unknown; matchedSkills?: unknown; rationale?: unknown };
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error(`OpenAI returned invalid JSON: ${content.slice(0, 200)}`);
+  }
+
+  if (typeof parsed.score !== 'number' || !Number.isFinite(parsed.score)) {
+    throw new Error('OpenAI response is missing a numeric score');
+  }
+
+  const profileSkills = new Map(profile.skills.map(skill => [skill.toLowerCase(), skill]));
+  const matchedSkills = Array.isArray(parsed.matchedSkills)
+    ? parsed.matchedSkills
+        .filter((skill): skill is string => typeof skill === 'string')
+        .map(skill => profileSkills.get(skill.toLowerCase()))
+        .filter((skill): skill is string => Boolean(skill))
+    : [];
+
+  return {
+    score: Math.max(0, Math.min(100, Math.round(parsed.score))),
+    matchedSkills: Array.from(new Set(matchedSkills)),
+    rationale: typeof parsed.rationale === 'string' ? parsed.rationale.replace(/\s+/g, ' ').trim() : ''
+  };
+}
+
+// Scores every job in a session that hasn't been scored yet (or all of them with rescore)
+export async function scoreSessionJobs(
+  scorer: JobScorer,
+  sessionId: string,
+  profile: SkillProfile,
+  options: { rescore?: boolean } = {}
+): Promise<{ scored: number; failed: number }> {
+  const db = getDatabase();
+  const jobs = db.getJobsBySession(sessionId).filter(job => options.rescore || job.score === undefined);
+
+  let scored = 0;
+  let failed = 0;
+  const queue = [...jobs];
+
+  const worker = async () => {
+    for (let job = queue.shift(); job; job = queue.shift()) {
+      try {
+        const result = await scorer.scoreJob(job, profile);
+        db.saveJobScore({ ...result, jobId: job.id });
+        scored++;
+      } catch (error) {
+        console.warn(`Failed to score job "${job.title}" at ${job.companyName}:`, error);
+        failed++;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(SCORING_CONCURRENCY, jobs.length) }, worker));
+  return { scored, failed };
+}
@@ -1,58 +1,316 @@
-import { chromium, Browser, Page } from 'playwright';
-import { LinkedInCredentials, Connection, Company, CrawlSettings } from '@/types';
+import { chromium, Browser, BrowserContext, Page } from 'playwright';
+import { Connection, Company, CrawlSettings, CrawlProgressEvent, ExtractionMethod, SecurityChallenge, ChallengeResponse, SelectorRegistry, SelectorStrategy, SelectorHit, FixturePageType } from '@/types';
 import { getDatabase } from './database';
+import { BrowserSessionStore } from './session-store';
+import { getCredentialVault } from './credential-vault';
+import { loadSelectorRegistry } from './selector-registry';
+import { FixtureStore, normalizeFixtureUrl } from './fixtures';
+import { CrawlArtifactStore } from './crawl-artifacts';
+import { RequestPacer, PushbackSignal, CrawlThrottledError } from './request-pacer';
+import { CrawlControl, CrawlCancelledError } from './crawl-control';
+import { CrawlLogger } from './crawl-logger';
+import { JobBoardClient, BoardJob, mergeJobs } from './job-boards';
+import { LlmExtractor, PageSnapshot } from './llm-extraction';
+import { RawProfileEntry, parseExperienceEntries, parseEducationEntries } from './profile-history';
+import { RawCompanyAbout, parseCompanyAbout, isCompanyDetailsStale, DEFAULT_COMPANY_REFRESH_DAYS } from './company-details';
+import { normalizeProfileUrl } from './session-diff';
 
 interface CrawlProgress {
   onProgress: (progress: number, message: string) => void;
 }
 
+type ChallengeHandler = (challenge: SecurityChallenge) => Promise<ChallengeResponse>;
+
+// What the crawler is working on, for the live progress stream
+type ActivityListener = (activity: Pick<CrawlProgressEvent, 'message' | 'company' | 'person'>) => void;
+
+// A person found on a results page, or a "N connections" summary link to follow
+type ExtractedPerson = {
+  name: string;
+  profileUrl: string;
+  profileImageUrl?: string;
+  isConnectionSummary?: boolean;
+  connectionSource?: string;
+  extractionMethod?: ExtractionMethod;
+};
+
+type SearchCompany = Company & { linkedinUrl: string; connectionInfo: string; connectionNames: ExtractedPerson[] };
+
+// Verification code inputs LinkedIn uses on its email/SMS/authenticator challenge pages
+const CHALLENGE_CODE_INPUT = 'input[name="pin"], #input__email_verification_pin, #input__phone_verification_pin';
+const CHALLENGE_SUBMIT_BUTTON = '#email-pin-submit-button, #two-step-submit-button, button[type="submit"]';
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+const DEFAULT_MAX_PAGES = 10;
+const DEFAULT_MAX_JOBS_PER_COMPANY = 25;
+const DEFAULT_MAX_ENRICHED_PROFILES = 50;
+// Screenshots and HTML saved per session; later failures are only logged
+const MAX_FAILURE_CAPTURES = 20;
+// LinkedIn's jobs search pages by result offset rather than page number
+const JOBS_PER_PAGE = 25;
+
+// Pages LinkedIn sends logged-out or flagged sessions to
+const AUTH_WALL_PATHS = ['/authwall', '/login', '/uas/login', '/checkpoint/'];
+// Empty states LinkedIn renders when a search genuinely has no results
+const NO_RESULTS_SELECTOR = '.artdeco-empty-state, .search-reusable-search-no-results, .jobs-search-no-results-banner';
+// Title or heading of the interstitial LinkedIn shows when it thinks the account is automated.
+// Only those are matched, since the same words can appear in any post or profile.
+const UNUSUAL_ACTIVITY_PHRASES = [
+  'unusual activity',
+  "we've restricted your account",
+  'your account has been temporarily restricted',
+  'too many requests'
+];
+
 export class LinkedInCrawler {
   private browser: Browser | null = null;
+  private context: BrowserContext | null = null;
   private page: Page | null = null;
+  private accountId: string | null = null;
+  private isAuthenticated = false;
+  private challengeHandler: ChallengeHandler | null = null;
+  private llmExtractor: LlmExtractor | null = null;
+  private control: CrawlControl | null = null;
+  private activityListener: ActivityListener | null = null;
+  private logger: CrawlLogger;
+  private artifactSessionId: string | null = null;
+  private isTracing = false;
+  private failureCaptures = 0;
+  private selectors: SelectorRegistry;
+  private selectorHits = new Map<string, number>(); // "field => strategy" -> match count
+  private replayMode = false;
+  private replayFixtureContent: { url: string; html: string } | null = null;
   private db = getDatabase();
   private settings: CrawlSettings;
+  private completedCompanies = new Set<string>();
+  private completedConnections = new Set<string>();
+  private resumePage = 1;
+  private pacer: RequestPacer;
+  private jobBoards: JobBoardClient;
 
-  constructor(settings: CrawlSettings) {
+  constructor(settings: CrawlSettings, logger: CrawlLogger = new CrawlLogger()) {
     this.settings = settings;
+    this.logger = logger;
+    this.pacer = new RequestPacer({
+      baseDelayMs: settings.rateLimit,
+      sleep: (ms) => this.wait(ms),
+      onBackoff: (message) => this.logger.warn('pacing', message)
+    });
+    this.jobBoards = new JobBoardClient({ recordResponses: settings.captureFixtures });
+    this.selectors = loadSelectorRegistry();
+    this.logger.info('selector', `Using selector registry version ${this.selectors.version}`);
+  }
+
+  async initialize(accountId?: string): Promise<void> {
+    this.accountId = accountId || null;
+
+    // Reuse the account's stored cookies/localStorage when we have them
+    const storageState = this.accountId && BrowserSessionStore.hasStoredSession(this.accountId)
+      ? BrowserSessionStore.getStorageStatePath(this.accountId)
+      : undefined;
+
+    await this.launchBrowser(storageState);
+  }
+
+  // Offline mode for replaying saved fixtures: every request is blocked except the fixture
+  // document itself, which is served from disk at its original URL
+  async initializeReplay(): Promise<void> {
+    this.replayMode = true;
+    await this.launchBrowser();
+    if (!this.page) throw new Error('Crawler not initialized');
+
+    await this.page.route('**/*', async (route) => {
+      const fixture = this.replayFixtureContent;
+      if (fixture && route.request().isNavigationRequest() &&
+          normalizeFixtureUrl(route.request().url()) === normalizeFixtureUrl(fixture.url)) {
+        // Scripts are stripped so the saved DOM isn't re-rendered by LinkedIn's app code
+        await route.fulfill({
+          status: 200,
+          contentType: 'text/html',
+          body: fixture.html.replace(/<script[\s\S]*?<\/script>/gi, '')
+        });
+      } else {
+        await route.abort();
+      }
+    });
+  }
+
+  // Runs the extractor for a page type against a saved fixture and returns what it found
+  async replayFixture(pageType: FixturePageType, file: string): Promise<unknown> {
+    if (!this.page || !this.replayMode) throw new Error('Crawler not initialized for replay');
+
+    this.replayFixtureContent = FixtureStore.load(pageType, file);
+    await this.page.goto(this.replayFixtureContent.url, { waitUntil: 'domcontentloaded' });
+
+    switch (pageType) {
+      case 'companySearch':
+        return this.extractCompaniesFromSearch();
+      case 'peopleSearch':
+        return this.extractPeopleFromSearchPage('Fixture replay');
+      case 'connectionsList':
+        return this.extractDirectConnections();
+      case 'profile':
+        return {
+          currentCompany: await this.extractCurrentCompany(),
+          connectionsLink: await this.findFirstMatch('profile.connectionsLink', this.selectors.profile.connectionsLink)
+        };
+      case 'profileDetails': {
+        const entries = await this.readProfileDetailsPage();
+        return this.replayFixtureContent.url.includes('/details/education')
+          ? parseEducationEntries(entries)
+          : parseExperienceEntries(entries);
+      }
+      case 'companyAbout':
+        return parseCompanyAbout(await this.readCompanyAboutPage());
+      case 'companyPage':
+        return this.extractConnectionsFromCompanyPage(this.replayFixtureContent.url);
+      case 'jobSearch':
+        return this.extractJobsFromSearch();
+    }
+  }
+
+  // Saves the current page's HTML when fixture capture is enabled
+  private async captureFixture(pageType: FixturePageType): Promise<void> {
+    if (!this.page || this.replayMode || !this.settings.captureFixtures) return;
+
+    try {
+      const file = FixtureStore.save(pageType, this.page.url(), await this.page.content());
+      this.logger.info('fixture', `Captured ${pageType} fixture: ${file}`);
+    } catch (error) {
+      this.logger.warn('fixture', `Failed to capture ${pageType} fixture`, { error });
+    }
+  }
+
+  // Called when LinkedIn shows a security challenge; resolves with the user's response
+  setChallengeHandler(handler: ChallengeHandler): void {
+    this.challengeHandler = handler;
+  }
+
+  // Enables reading results with the LLM when no selector strategy matches a page
+  setLlmExtractor(extractor: LlmExtractor | null): void {
+    this.llmExtractor = extractor;
+  }
+
+  // Lets the caller cancel or pause the crawl between navigations
+  setCrawlControl(control: CrawlControl | null): void {
+    this.control = control;
+  }
+
+  setActivityListener(listener: ActivityListener | null): void {
+    this.activityListener = listener;
+  }
+
+  // Records a Playwright trace (from login on) and failure screenshots/HTML for the session
+  // under data/artifacts/<sessionId>/. Must be set before login().
+  setArtifactSession(sessionId: string | null): void {
+    this.artifactSessionId = sessionId;
+  }
+
+  // Saves a screenshot and the HTML of the current page, e.g. when an extraction came up
+  // empty or the crawl threw
+  async captureFailure(reason: string): Promise<void> {
+    if (!this.page || !this.artifactSessionId || this.replayMode) return;
+    if (this.failureCaptures >= MAX_FAILURE_CAPTURES) return;
+    this.failureCaptures++;
+
+    const url = this.page.url();
+    const screenshot = await this.page.screenshot({ fullPage: true }).catch(() => null);
+    const html = await this.page.content().catch(() => null);
+
+    try {
+      const files = CrawlArtifactStore.saveFailure(this.artifactSessionId, reason, screenshot, html);
+      this.logger.info('artifact', `Saved failure artifacts: ${reason}`, { url, payload: { files } });
+    } catch (error) {
+      this.logger.warn('artifact', 'Failed to save failure artifacts', { url, error });
+    }
   }
 
-  async initialize(): Promise<void> {
+  // Tracing starts only once the crawler is logged in. A trace of the login form would hold
+  // the password, both as the fill action's value and in the DOM snapshots.
+  private async startTrace(): Promise<void> {
+    if (!this.context || !this.artifactSessionId || this.replayMode || this.isTracing) return;
+
+    try {
+      await this.context.tracing.start({ screenshots: true, snapshots: true });
+      this.isTracing = true;
+    } catch (error) {
+      this.logger.warn('artifact', 'Failed to start Playwright trace', { error });
+    }
+  }
+
+  // Writes the trace recorded since login; called before the browser closes
+  private async saveTrace(): Promise<void> {
+    if (!this.context || !this.artifactSessionId || !this.isTracing) return;
+    this.isTracing = false;
+
+    try {
+      const tracePath = CrawlArtifactStore.nextTracePath(this.artifactSessionId);
+      await this.context.tracing.stop({ path: tracePath });
+      this.logger.info('artifact', `Saved Playwright trace: ${tracePath}`);
+    } catch (error) {
+      this.logger.warn('artifact', 'Failed to save Playwright trace', { error });
+    }
+  }
+
+  private async launchBrowser(storageState?: Awaited<ReturnType<BrowserContext['storageState']>> | string): Promise<void> {
     this.browser = await chromium.launch({ 
       headless: this.settings.headless,
       timeout: 60000 
     });
     
-    const context = await this.browser.newContext({
+    this.context = await this.browser.newContext({
       userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-      viewport: { width: 1366, height: 768 }
+      viewport: { width: 1366, height: 768 },
+      storageState
     });
     
-    this.page = await context.newPage();
+    this.page = await this.context.newPage();
     
     // Set reasonable timeouts
     this.page.setDefaultTimeout(30000);
     this.page.setDefaultNavigationTimeout(30000);
   }
 
-  async login(credentials: LinkedInCredentials): Promise<boolean> {
-    if (!this.page) throw new Error('Crawler not initialized');
+  // Reuses the account's saved browser session, or signs in with its password from the
+  // credential vault
+  async login(): Promise<boolean> {
+    if (!this.page || !this.context) throw new Error('Crawler not initialized');
+
+    if (this.accountId && BrowserSessionStore.hasStoredSession(this.accountId)) {
+      if (await this.isSessionValid()) {
+        this.logger.info('login', 'Reusing stored LinkedIn session');
+        this.isAuthenticated = true;
+        await this.startTrace();
+        return true;
+      }
+
+      this.logger.info('login', 'Stored LinkedIn session expired, falling back to credential login');
+      BrowserSessionStore.clearStoredSession(this.accountId);
+      await this.context.clearCookies();
+    }
+
+    const credentials = this.accountId ? getCredentialVault().getCredentials(this.accountId) : null;
+    if (!credentials) {
+      this.logger.error('login', 'No LinkedIn password available: the credential vault is locked or has none for this account');
+      return false;
+    }
 
     try {
-      console.log('Navigating to LinkedIn login page...');
-      await this.page.goto('https://www.linkedin.com/login', { waitUntil: 'domcontentloaded' });
+      this.logger.info('login', 'Navigating to LinkedIn login page...');
+      await this.navigate('https://www.linkedin.com/login', { checkAuthWall: false });
       await this.wait(2000);
 
       // Wait for login form to be visible
       await this.page.waitForSelector('#username', { timeout: 10000 });
       await this.page.waitForSelector('#password', { timeout: 10000 });
 
-      console.log('Filling login credentials...');
+      this.logger.debug('login', 'Filling login credentials...');
       // Fill login form
       await this.page.fill('#username', credentials.email);
       await this.page.fill('#password', credentials.password);
       
       // Click login button and wait for navigation
-      console.log('Clicking login button...');
+      this.logger.debug('login', 'Clicking login button...');
       await Promise.all([
         this.page.waitForNavigation({ timeout: 20000 }),
         this.page.click('button[type="submit"]')
@@ -62,12 +320,12 @@ export class LinkedInCrawler {
       await this.wait(3000);
       
       // Check for various possible outcomes
-      const currentUrl = this.page.url();
-      console.log('Current URL after login attempt:', currentUrl);
-      
-      if (currentUrl.includes('/challenge')) {
-        throw new Error('LinkedIn security challenge required. Please login manually first.');
+      if (this.page.url().includes('/challenge')) {
+        await this.handleSecurityChallenge();
       }
+
+      const currentUrl = this.page.url();
+      this.logger.info('login', `Current URL after login attempt: ${currentUrl}`, { url: currentUrl });
       
       if (currentUrl.includes('/login') || currentUrl.includes('/uas/login')) {
         throw new Error('Login failed. Please check your credentials.');
@@ -76,161 +334,727 @@ export class LinkedInCrawler {
       // Check if we're on the feed or any LinkedIn authenticated page
       if (currentUrl.includes('linkedin.com/feed') || 
           currentUrl.includes('linkedin.com/in/')) {
-        console.log('Login successful!');
+        this.logger.info('login', 'Login successful!');
+        await this.saveSession();
+        await this.startTrace();
         return true;
       }
       
       // Check for navigation header as fallback
       const navExists = await this.page.locator('nav[aria-label="Primary Navigation"]').count() > 0;
       if (navExists) {
-        console.log('Login successful (detected nav)!');
+        this.logger.info('login', 'Login successful (detected nav)!');
+        await this.saveSession();
+        await this.startTrace();
         return true;
       }
       
       throw new Error(`Login status unclear. Current URL: ${currentUrl}`);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      console.error('Login error details:', errorMessage);
+      this.logger.error('login', `Login error details: ${errorMessage}`);
       throw new Error(`Login failed: ${errorMessage}`);
     }
   }
 
+  // Pauses the crawl and hands the security challenge to the user until LinkedIn lets us through
+  private async handleSecurityChallenge(): Promise<void> {
+    if (!this.challengeHandler) {
+      throw new Error('LinkedIn security challenge required. Please login manually first.');
+    }
+
+    let message = 'LinkedIn requires a security check before continuing.';
+
+    for (let attempt = 0; attempt < MAX_CHALLENGE_ATTEMPTS; attempt++) {
+      if (!this.page) throw new Error('Crawler not initialized');
+
+      const hasCodeInput = await this.page.locator(CHALLENGE_CODE_INPUT).count() > 0;
+      this.logger.info('login', `Security challenge detected (${hasCodeInput ? 'verification code' : 'manual'}), waiting for user...`);
+
+      const response = await this.challengeHandler({
+        type: hasCodeInput ? 'verification_code' : 'manual',
+        url: this.page.url(),
+        message,
+        headless: this.settings.headless
+      });
+
+      if (response.action === 'open_browser') {
+        await this.relaunchHeaded();
+        message = 'Finish the security check in the browser window that just opened, then confirm here.';
+        continue;
+      }
+
+      if (response.action === 'submit_code') {
+        this.logger.info('login', 'Submitting verification code...');
+        await this.page.fill(CHALLENGE_CODE_INPUT, response.code.trim());
+        await Promise.all([
+          this.page.waitForNavigation({ timeout: 20000 }).catch(() => null),
+          this.page.click(CHALLENGE_SUBMIT_BUTTON)
+        ]);
+        await this.wait(3000);
+      }
+
+      if (!this.page.url().includes('/challenge')) {
+        this.logger.info('login', 'Security challenge completed');
+        return;
+      }
+
+      message = response.action === 'submit_code'
+        ? 'That code was not accepted. Please check it and try again.'
+        : 'LinkedIn is still showing the security check.';
+    }
+
+    throw new Error('LinkedIn security challenge could not be completed');
+  }
+
+  // Reopens the browser with a visible window on the current page, keeping cookies,
+  // so the user can complete a check the crawler can't automate
+  private async relaunchHeaded(): Promise<void> {
+    if (!this.browser || !this.context || !this.page) throw new Error('Crawler not initialized');
+
+    const currentUrl = this.page.url();
+    const storageState = await this.context.storageState();
+
+    this.logger.info('login', 'Relaunching browser in headed mode for manual verification...');
+    await this.saveTrace();
+    await this.browser.close();
+    this.settings = { ...this.settings, headless: false };
+    await this.launchBrowser(storageState);
+
+    await this.navigate(currentUrl, { checkAuthWall: false });
+  }
+
+  // Checks whether the cookies loaded into the context still give us an authenticated session
+  private async isSessionValid(): Promise<boolean> {
+    if (!this.page) return false;
+
+    try {
+      await this.navigate('https://www.linkedin.com/feed/', { checkAuthWall: false });
+      await this.wait(2000);
+
+      const currentUrl = this.page.url();
+      if (currentUrl.includes('/login') || currentUrl.includes('/authwall') ||
+          currentUrl.includes('/checkpoint') || currentUrl.includes('/challenge')) {
+        return false;
+      }
+
+      return currentUrl.includes('linkedin.com/feed') ||
+        await this.page.locator('nav[aria-label="Primary Navigation"]').count() > 0;
+    } catch (error) {
+      // A cancelled crawl says nothing about the session, so keep it
+      if (error instanceof CrawlCancelledError) throw error;
+      this.logger.warn('login', 'Could not verify stored LinkedIn session', { error });
+      return false;
+    }
+  }
+
+  private async saveSession(): Promise<void> {
+    this.isAuthenticated = true;
+    if (!this.context || !this.accountId) return;
+
+    try {
+      BrowserSessionStore.ensureSessionsDir();
+      await this.context.storageState({ path: BrowserSessionStore.getStorageStatePath(this.accountId) });
+      this.logger.info('login', 'Saved LinkedIn session for reuse');
+    } catch (error) {
+      this.logger.warn('login', 'Failed to save LinkedIn session', { error });
+    }
+  }
+
   async crawlFirstDegreeConnections(
     sessionId: string, 
     progressCallback: CrawlProgress['onProgress']
   ): Promise<void> {
     if (!this.page) throw new Error('Crawler not initialized');
 
-    console.log('=== Starting First Degree Connections Crawl ===');
-    progressCallback(0, 'Starting first degree connections crawl...');
+    this.logger.info('crawl', 'Starting first degree connections crawl');
+    this.loadCheckpoint(sessionId);
+    progressCallback(0, this.completedCompanies.size > 0
+      ? `Resuming crawl, ${this.completedCompanies.size} companies already processed...`
+      : 'Starting first degree connections crawl...');
 
     try {
-      // Navigate to the companies search page with first-degree network filter
+      // Companies search page with first-degree network filter, followed page by page
       const searchUrl = 'https://www.linkedin.com/search/results/companies/?network=%5B%22F%22%5D&origin=FACETED_SEARCH';
-      console.log('Navigating to:', searchUrl);
-      
-      await this.page.goto(searchUrl, { waitUntil: 'domcontentloaded' });
-      await this.wait(5000); // Increased wait time
-
-      console.log('Current URL after navigation:', this.page.url());
+      const maxPages = this.settings.maxPages || DEFAULT_MAX_PAGES;
       progressCallback(10, 'Loading company results...');
 
-      // Check if we're on the right page or if LinkedIn redirected us
-      const currentUrl = this.page.url();
-      if (!currentUrl.includes('/search/results/companies')) {
-        console.warn('LinkedIn may have redirected us. Current URL:', currentUrl);
-        
-        // Try alternative approach - go to companies tab manually
-        console.log('Trying alternative navigation...');
-        await this.page.goto('https://www.linkedin.com/search/results/all/?keywords=*&origin=GLOBAL_SEARCH_HEADER');
-        await this.wait(3000);
-        
-        // Look for companies filter/tab
-        try {
-          await this.page.click('button[aria-label*="Companies"], a[href*="companies"]');
-          await this.wait(3000);
-        } catch (filterError) {
-          console.warn('Could not find companies filter:', filterError);
-        }
+      let totalCompanies = 0;
+      let processedCount = 0;
+
+      const pagesVisited = await this.paginateSearch(
+        searchUrl,
+        async () => {
+          // Check if we're on the right page or if LinkedIn redirected us
+          const currentUrl = this.page!.url();
+          if (!currentUrl.includes('/search/results/companies')) {
+            this.logger.warn('navigation', `LinkedIn may have redirected us. Current URL: ${currentUrl}`, { url: currentUrl });
+            
+            // Try alternative approach - go to companies tab manually
+            this.logger.info('navigation', 'Trying alternative navigation...');
+            await this.navigate('https://www.linkedin.com/search/results/all/?keywords=*&origin=GLOBAL_SEARCH_HEADER');
+            await this.wait(3000);
+            
+            // Look for companies filter/tab
+            try {
+              await this.page!.click('button[aria-label*="Companies"], a[href*="companies"]');
+              await this.wait(3000);
+            } catch (filterError) {
+              this.logger.warn('navigation', 'Could not find companies filter', { error: filterError });
+            }
+          }
+
+          return this.extractCompaniesFromSearch();
+        },
+        async (pageNumber, companies) => {
+          totalCompanies += companies.length;
+          this.logger.info('company', `Page ${pageNumber}: found ${companies.length} companies`);
+
+          // Process each company and its connections
+          let pageProcessed = 0;
+          for (const company of companies) {
+            pageProcessed++;
+            processedCount++;
+
+            if (this.completedCompanies.has(company.linkedinUrl)) {
+              this.logger.debug('crawl', `Skipping already processed company: ${company.name}`);
+              continue;
+            }
+
+            this.logger.info('company', `Processing company ${pageProcessed}/${companies.length} on page ${pageNumber}: ${company.name}`, { url: company.linkedinUrl });
+            this.reportActivity(`Processing ${company.name}`, { company: company.name });
+            
+            // First, process any connection summary links to get actual individual profiles
+            const processedCompany = await this.processConnectionSummaryLinks(company);
+            
+            // Then process the company connections as usual
+            await this.processCompanyConnections(sessionId, processedCompany);
+            this.markCompanyDone(sessionId, company.linkedinUrl, pageProcessed, pageNumber);
+            
+            const pageFraction = (pageNumber - 1 + pageProcessed / companies.length) / maxPages;
+            progressCallback(10 + pageFraction * 85, `Page ${pageNumber}: processed ${pageProcessed}/${companies.length} companies (${processedCount} total)`);
+
+          }
+
+          this.db.saveCheckpointPosition(sessionId, pageNumber + 1, 0);
+        },
+        this.resumePage
+      );
+
+      if (totalCompanies === 0) {
+        this.logger.warn('selector', [
+          'No companies found! This might indicate:',
+          '1. LinkedIn changed their UI/selectors',
+          '2. You have no 1st degree connections at companies',
+          '3. LinkedIn is blocking the search',
+          '4. You need to adjust search filters manually'
+        ].join('\n'));
+        await this.captureFailure('No companies found');
       }
 
-      // Scroll to load more results
-      console.log('Scrolling to load more results...');
+      this.logger.info('crawl', 'Crawl complete');
+      progressCallback(100, `Completed! Found connections at ${totalCompanies} companies across ${pagesVisited} pages.`);
+    } catch (error) {
+      this.logger.error('crawl', 'First degree crawl error', { error });
+      throw new Error(`First degree crawl failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async crawlFriendsOfFriends(
+    sessionId: string, 
+    progressCallback: CrawlProgress['onProgress']
+  ): Promise<void> {
+    if (!this.page) throw new Error('Crawler not initialized');
+
+    this.loadCheckpoint(sessionId);
+    progressCallback(0, this.completedConnections.size > 0
+      ? 'Resuming friends of friends crawl...'
+      : 'Starting friends of friends crawl...');
+
+    try {
+      // First, get my direct connections
+      await this.navigate('https://www.linkedin.com/mynetwork/invite-connect/connections/');
+      await this.wait(3000);
+
+      progressCallback(10, 'Loading your connections...');
+
+      // Scroll to load connections
       await this.scrollToLoadResults();
       
-      progressCallback(30, 'Extracting company data...');
+      const firstDegreeConnections = await this.extractDirectConnections();
+      const firstDegreeUrls = new Set(firstDegreeConnections.map(connection => normalizeProfileUrl(connection.profileUrl)));
 
-      // Extract company information
-      console.log('Starting company extraction...');
-      const companies = await this.extractCompaniesFromSearch();
-      
-      console.log(`=== Extraction Complete: Found ${companies.length} companies ===`);
-      progressCallback(60, `Found ${companies.length} companies. Processing connections...`);
-
-      if (companies.length === 0) {
-        console.warn('No companies found! This might indicate:');
-        console.warn('1. LinkedIn changed their UI/selectors');
-        console.warn('2. You have no 1st degree connections at companies');
-        console.warn('3. LinkedIn is blocking the search');
-        console.warn('4. You need to adjust search filters manually');
+      progressCallback(30, `Found ${firstDegreeConnections.length} direct connections. Analyzing their networks...`);
+
+      // Process each connection to find their network
+      const friendsToAnalyze = firstDegreeConnections.slice(0, this.settings.maxConnections || 50);
+      let processedCount = 0;
+      for (const connection of friendsToAnalyze) {
+        if (this.completedConnections.has(this.networkKey(connection.profileUrl))) {
+          this.logger.debug('crawl', `Skipping already analyzed connection: ${connection.name}`);
+          processedCount++;
+          continue;
+        }
+
+        try {
+          this.reportActivity(`Analyzing ${connection.name}'s network`, { person: connection.name });
+          await this.analyzeFriendNetwork(sessionId, connection, firstDegreeUrls);
+          processedCount++;
+          this.markConnectionDone(sessionId, this.networkKey(connection.profileUrl), processedCount);
+          
+          const progress = 30 + (processedCount / Math.max(friendsToAnalyze.length, 1)) * 65;
+          progressCallback(progress, `Analyzed ${processedCount}/${friendsToAnalyze.length} connections' networks`);
+        } catch (error) {
+          if (error instanceof CrawlThrottledError || error instanceof CrawlCancelledError) throw error;
+          this.logger.warn('connection', `Failed to analyze connection ${connection.name}`, { url: connection.profileUrl, error });
+        }
       }
 
-      // Process each company and its connections
+      progressCallback(100, `Completed! Analyzed ${processedCount} connections' networks.`);
+    } catch (error) {
+      throw new Error(`Friends of friends crawl failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async crawlCompanyJobs(
+    sessionId: string,
+    sourceSessionId: string,
+    progressCallback: CrawlProgress['onProgress']
+  ): Promise<void> {
+    if (!this.page) throw new Error('Crawler not initialized');
+
+    this.loadCheckpoint(sessionId);
+    const companies = this.db.getCompaniesBySession(sourceSessionId);
+    progressCallback(10, `Searching open roles at ${companies.length} companies...`);
+
+    try {
+      const maxJobs = this.settings.maxJobsPerCompany || DEFAULT_MAX_JOBS_PER_COMPANY;
       let processedCount = 0;
+      let totalJobs = 0;
+
       for (const company of companies) {
-        console.log(`Processing company ${processedCount + 1}/${companies.length}: ${company.name}`);
-        
-        // First, process any connection summary links to get actual individual profiles
-        const processedCompany = await this.processConnectionSummaryLinks(company);
-        
-        // Then process the company connections as usual
-        await this.processCompanyConnections(sessionId, processedCompany);
         processedCount++;
-        
-        const progress = 60 + (processedCount / Math.max(companies.length, 1)) * 35;
-        progressCallback(progress, `Processed ${processedCount}/${companies.length} companies`);
-        
-        if (processedCount < companies.length) {
-          await this.wait(this.settings.rateLimit);
+
+        if (this.completedCompanies.has(company.id)) {
+          this.logger.debug('crawl', `Skipping already searched company: ${company.name}`);
+          continue;
+        }
+
+        this.reportActivity(`Searching open roles at ${company.name}`, { company: company.name });
+        await this.enrichCompany(company.id);
+
+        const linkedinJobs: BoardJob[] = [];
+        const linkedinCompanyId = await this.resolveLinkedInCompanyId(company);
+        if (!linkedinCompanyId) {
+          this.logger.info('job', `No LinkedIn company ID found for ${company.name}, skipping LinkedIn job search`);
+        } else {
+
+          await this.paginateSearch(
+            (pageNumber) => `https://www.linkedin.com/jobs/search/?f_C=${linkedinCompanyId}&start=${(pageNumber - 1) * JOBS_PER_PAGE}`,
+            () => this.extractJobsFromSearch(),
+            async (pageNumber, jobs) => {
+              linkedinJobs.push(...jobs);
+              this.logger.info('job', `Page ${pageNumber}: found ${jobs.length} jobs at ${company.name}`);
+
+              return linkedinJobs.length >= maxJobs;
+            }
+          );
+        }
+
+        // Companies on a public ATS list everything there, including roles not on LinkedIn.
+        // Most roles are posted on both, so the two lists are merged before the cap applies.
+        const companyJobs = mergeJobs(linkedinJobs, await this.collectJobBoardJobs(company)).slice(0, maxJobs);
+        for (const job of companyJobs) {
+          this.db.createJob({ ...job, crawlSessionId: sessionId, companyId: company.id });
         }
+
+        totalJobs += companyJobs.length;
+
+        this.markCompanyDone(sessionId, company.id, processedCount);
+        this.db.updateCrawlSession(sessionId, { totalConnections: companies.length, processedConnections: processedCount });
+
+        const progress = 10 + (processedCount / Math.max(companies.length, 1)) * 85;
+        progressCallback(progress, `Searched ${processedCount}/${companies.length} companies (${totalJobs} jobs)`);
       }
 
-      console.log('=== Crawl Complete ===');
-      progressCallback(100, `Completed! Found connections at ${companies.length} companies.`);
+      progressCallback(100, `Completed! Found ${totalJobs} jobs across ${companies.length} companies.`);
     } catch (error) {
-      console.error('First degree crawl error:', error);
-      throw new Error(`First degree crawl failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Jobs crawl failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async crawlFriendsOfFriends(
-    sessionId: string, 
+  // Visits each connection's experience and education pages and stores their full history,
+  // replacing whatever an earlier enrichment stored for the same person
+  async crawlProfileEnrichment(
+    sessionId: string,
+    sourceSessionId: string,
     progressCallback: CrawlProgress['onProgress']
   ): Promise<void> {
     if (!this.page) throw new Error('Crawler not initialized');
 
-    progressCallback(0, 'Starting friends of friends crawl...');
+    this.loadCheckpoint(sessionId);
+
+    // Summary rows like "3 Connections" have no profile to visit
+    const profileUrls = Array.from(new Set(
+      this.db.getConnectionsBySession(sourceSessionId)
+        .map(connection => connection.profileUrl)
+        .filter(profileUrl => profileUrl && profileUrl.includes('/in/'))
+    )).slice(0, this.settings.maxEnrichedProfiles || DEFAULT_MAX_ENRICHED_PROFILES);
+    progressCallback(10, `Enriching ${profileUrls.length} profiles...`);
+
+    try {
+      let processedCount = 0;
+      let positionCount = 0;
+
+      for (const profileUrl of profileUrls) {
+        processedCount++;
+
+        if (this.completedConnections.has(profileUrl)) {
+          this.logger.debug('crawl', `Skipping already enriched profile: ${profileUrl}`);
+          continue;
+        }
+
+        try {
+          this.reportActivity(`Enriching ${profileUrl}`, { person: profileUrl });
+          const positions = parseExperienceEntries(await this.extractProfileDetails(profileUrl, 'experience'));
+          const education = parseEducationEntries(await this.extractProfileDetails(profileUrl, 'education'));
+
+          this.db.saveProfileHistory(profileUrl, sessionId, positions, education);
+          positionCount += positions.length;
+          this.logger.info('profile', `Enriched ${profileUrl}: ${positions.length} positions, ${education.length} schools`, { url: profileUrl });
+
+          // Only saved profiles count as done, so a resumed crawl retries the ones that failed
+          this.markConnectionDone(sessionId, profileUrl, processedCount);
+        } catch (error) {
+          if (error instanceof CrawlThrottledError || error instanceof CrawlCancelledError) throw error;
+          this.logger.warn('profile', `Failed to enrich profile ${profileUrl}`, { url: profileUrl, error });
+          await this.captureFailure('Profile enrichment failed');
+        }
+
+        this.db.updateCrawlSession(sessionId, { totalConnections: profileUrls.length, processedConnections: processedCount });
+
+        const progress = 10 + (processedCount / Math.max(profileUrls.length, 1)) * 85;
+        progressCallback(progress, `Enriched ${processedCount}/${profileUrls.length} profiles (${positionCount} positions)`);
+      }
+
+      progressCallback(100, `Completed! Enriched ${profileUrls.length} profiles with ${positionCount} positions.`);
+    } catch (error) {
+      throw new Error(`Profile enrichment failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Reads the entries on a profile's /details/experience/ or /details/education/ page, which
+  // list the full history rather than the few entries shown on the profile itself
+  private async extractProfileDetails(profileUrl: string, section: 'experience' | 'education'): Promise<RawProfileEntry[]> {
+    if (!this.page) return [];
+
+    const { origin, pathname } = new URL(profileUrl);
+    await this.navigate(`${origin}${pathname.replace(/\/+$/, '')}/details/${section}/`);
+    await this.wait(2000);
+    await this.scrollToLoadResults(2);
+
+    return this.readProfileDetailsPage();
+  }
+
+  private async readProfileDetailsPage(): Promise<RawProfileEntry[]> {
+    if (!this.page) return [];
+
+    await this.captureFixture('profileDetails');
+
+    const result = await this.page.evaluate((registry) => {
+      const entries: RawProfileEntry[] = [];
+      const hits: SelectorHit[] = [];
+
+      const itemStrategy = registry.item.find(s => document.querySelectorAll(s.selector).length > 0);
+      if (!itemStrategy) return { entries, hits };
+      hits.push({ field: 'profileDetails.item', strategy: itemStrategy.name });
+
+      // Visible text lines of an element, leaving out anything inside the excluded elements
+      const readLines = (root: Element, exclude: Element[]) => {
+        for (const strategy of registry.text) {
+          const lines = Array.from(root.querySelectorAll(strategy.selector))
+            .filter(element => !exclude.some(excluded => excluded.contains(element)))
+            .map(element => element.textContent?.replace(/\s+/g, ' ').trim() || '')
+            .filter(Boolean);
+          if (lines.length > 0) {
+            hits.push({ field: 'profileDetails.text', strategy: strategy.name });
+            return Array.from(new Set(lines));
+          }
+        }
+        return [];
+      };
+
+      const items = Array.from(document.querySelectorAll(itemStrategy.selector))
+        // Nested lists reuse the item markup; only take top-level entries
+        .filter(item => !item.parentElement?.closest(itemStrategy.selector));
+
+      for (const item of items) {
+        const subItems = registry.subItem.flatMap(strategy => Array.from(item.querySelectorAll(strategy.selector)));
+        const companyLink = registry.companyLink
+          .map(strategy => item.querySelector(strategy.selector) as HTMLAnchorElement | null)
+          .find(Boolean);
+
+        entries.push({
+          lines: readLines(item, subItems),
+          companyUrl: companyLink ? companyLink.href.split('?')[0] : undefined,
+          subEntries: subItems.map(subItem => ({ lines: readLines(subItem, []) }))
+        });
+      }
+
+      return { entries, hits };
+    }, this.selectors.profileDetails);
+
+    this.recordSelectorHits(result.hits);
+    return result.entries;
+  }
+
+  // Reads industry, size, HQ and follower count off a company's About page the first time the
+  // company is seen, and again once its details are older than settings.companyRefreshDays
+  private async enrichCompany(companyId: string): Promise<void> {
+    if (!this.page || this.settings.enrichCompanies === false) return;
+
+    const company = this.db.getCompanyById(companyId);
+    const maxAgeDays = this.settings.companyRefreshDays || DEFAULT_COMPANY_REFRESH_DAYS;
+    if (!company?.linkedinUrl?.includes('/company/') || !isCompanyDetailsStale(company.detailsUpdatedAt, maxAgeDays)) {
+      return;
+    }
+
+    try {
+      await this.navigate(`${company.linkedinUrl.split('?')[0].replace(/\/+$/, '')}/about/`);
+      await this.wait(2000);
+
+      // Fields the page doesn't show are left undefined, which keeps the stored value
+      const details = parseCompanyAbout(await this.readCompanyAboutPage());
+      this.db.updateCompany(company.id, { ...details, detailsUpdatedAt: new Date().toISOString() });
+      this.logger.info('company', `Updated details for ${company.name}: ${[details.industry, details.size, details.headquarters].filter(Boolean).join(', ') || 'nothing found'}`, { payload: { ...details } });
+    } catch (error) {
+      if (error instanceof CrawlThrottledError || error instanceof CrawlCancelledError) throw error;
+      this.logger.warn('company', `Failed to read company details for ${company.name}`, { url: company.linkedinUrl, error });
+      await this.captureFailure('Company details failed');
+    }
+  }
+
+  private async readCompanyAboutPage(): Promise<RawCompanyAbout> {
+    if (!this.page) return { details: [], topCardItems: [] };
+
+    await this.captureFixture('companyAbout');
+
+    const result = await this.page.evaluate((registry) => {
+      const about: RawCompanyAbout = { details: [], topCardItems: [] };
+      const hits: SelectorHit[] = [];
+      const cleanText = (element: Element) => element.textContent?.replace(/\s+/g, ' ').trim() || '';
+
+      for (const strategy of registry.details) {
+        const list = document.querySelector(strategy.selector);
+        if (!list) continue;
+        hits.push({ field: 'companyAbout.details', strategy: strategy.name });
+
+        // Each <dt> label owns the <dd> values that follow it
+        for (const element of Array.from(list.children)) {
+          if (element.tagName === 'DT') {
+            about.details.push({ label: cleanText(element), values: [] });
+          } else if (element.tagName === 'DD' && about.details.length > 0) {
+            const value = cleanText(element);
+            if (value) about.details[about.details.length - 1].values.push(value);
+          }
+        }
+        break;
+      }
+
+      for (const strategy of registry.topCardItem) {
+        const items = Array.from(document.querySelectorAll(strategy.selector)).map(cleanText).filter(Boolean);
+        if (items.length > 0) {
+          hits.push({ field: 'companyAbout.topCardItem', strategy: strategy.name });
+          about.topCardItems = items;
+          break;
+        }
+      }
+
+      return { about, hits };
+    }, this.selectors.companyAbout);
+
+    this.recordSelectorHits(result.hits);
+    return result.about;
+  }
+
+  // Looks the company up on its ATS job board (see job-boards.ts) and caches the board found
+  private async collectJobBoardJobs(company: Company) {
+    try {
+      const result = await this.jobBoards.findCompanyJobs(company);
+      if (!result) {
+        this.logger.info('job', `No public job board found for ${company.name}`);
+        return [];
+      }
+
+      if (result.board.provider !== company.atsProvider || result.board.slug !== company.atsSlug) {
+        this.db.updateCompany(company.id, { atsProvider: result.board.provider, atsSlug: result.board.slug });
+      }
+
+      this.logger.info('job', `Found ${result.jobs.length} jobs on ${company.name}'s ${result.board.provider} board (${result.board.slug})`);
+      return result.jobs;
+    } catch (error) {
+      this.logger.warn('job', `Failed to load job board for ${company.name}`, { error });
+      return [];
+    }
+  }
+
+  // Jobs search filters by LinkedIn's numeric company ID (f_C), which only appears on the
+  // company's own pages. The company's website is picked up from the same page on the way.
+  private async resolveLinkedInCompanyId(company: Company): Promise<string | null> {
+    if (!this.page || !company.linkedinUrl?.includes('/company/')) return null;
+
+    await this.navigate(`${company.linkedinUrl.replace(/\/+$/, '')}/jobs/`);
+    await this.wait(2000);
+
+    if (!company.website) {
+      const websiteLink = await this.findFirstMatch('companyPage.websiteLink', this.selectors.companyPage.websiteLink);
+      if (websiteLink?.href) {
+        company.website = websiteLink.href;
+        this.db.updateCompany(company.id, { website: websiteLink.href });
+      }
+    }
+
+    const jobsLink = await this.findFirstMatch('companyPage.jobsLink', this.selectors.companyPage.jobsLink);
+    const fromLink = jobsLink?.href.match(/f_C=(\d+)/);
+    if (fromLink) return fromLink[1];
+
+    // Fall back to the company URN embedded in the page's data
+    const html = await this.page.content();
+    return html.match(/urn:li:(?:fsd_)?company:(\d+)/)?.[1] || null;
+  }
+
+  private async extractJobsFromSearch(): Promise<BoardJob[]> {
+    if (!this.page) return [];
+
+    // The results list is its own scroll container and lazy-renders cards as it scrolls
+    await this.page.evaluate(() => {
+      const list = document.querySelector('.jobs-search-results-list, .scaffold-layout__list');
+      if (list) list.scrollTop = list.scrollHeight;
+    });
+    await this.wait(1000);
+    await this.captureFixture('jobSearch');
+
+    const result = await this.page.evaluate((registry) => {
+      const jobs: Array<{ source: 'linkedin'; externalId: string; title: string; location?: string; isRemote: boolean; postedAt?: string; url: string }> = [];
+      const hits: SelectorHit[] = [];
+
+      // Returns the first element matched by a strategy and records which one it was
+      const findFirst = (root: ParentNode, field: string, strategies: typeof registry.card) => {
+        for (const strategy of strategies) {
+          const element = root.querySelector(strategy.selector);
+          if (element) {
+            hits.push({ field, strategy: strategy.name });
+            return element;
+          }
+        }
+        return null;
+      };
+
+      const cardStrategy = registry.card.find(s => document.querySelectorAll(s.selector).length > 0);
+      if (!cardStrategy) {
+        return { jobs, hits };
+      }
+      hits.push({ field: 'jobSearch.card', strategy: cardStrategy.name });
+
+      document.querySelectorAll(cardStrategy.selector).forEach((card) => {
+        const titleElement = findFirst(card, 'jobSearch.title', registry.title);
+        const linkElement = findFirst(card, 'jobSearch.link', registry.link) as HTMLAnchorElement | null;
+        const locationElement = findFirst(card, 'jobSearch.location', registry.location);
+        const timeElement = findFirst(card, 'jobSearch.postedDate', registry.postedDate);
+
+        const title = titleElement?.textContent?.trim().split('\n')[0].trim() || '';
+        const jobId = linkElement?.href.match(/\/jobs\/view\/(?:[^/]*-)?(\d+)/)?.[1];
+        if (!title || !jobId) return;
+
+        const location = locationElement?.textContent?.replace(/\s+/g, ' ').trim() || undefined;
+        jobs.push({
+          source: 'linkedin',
+          externalId: jobId,
+          title,
+          location,
+          isRemote: /\bremote\b/i.test(card.textContent || ''),
+          postedAt: timeElement?.getAttribute('datetime')?.slice(0, 10) || undefined,
+          // Drop tracking parameters so the same posting always has the same URL
+          url: `https://www.linkedin.com/jobs/view/${jobId}/`
+        });
+      });
+
+      return { jobs, hits };
+    }, this.selectors.jobSearch);
+
+    this.recordSelectorHits(result.hits);
+    this.logger.info('job', `Extracted ${result.jobs.length} jobs from search page`, { url: this.page.url() });
+    return result.jobs;
+  }
+
+  // Walks a paginated LinkedIn search via the page=N parameter (or a caller-built URL per
+  // page). Each page is extracted and handed to onPage until results run out, the "Next"
+  // button is disabled or settings.maxPages is reached. onPage may return true to stop early.
+  // Returns the number of pages visited.
+  private async paginateSearch<T>(
+    searchUrl: string | ((pageNumber: number) => string),
+    extractPage: () => Promise<T[]>,
+    onPage: (pageNumber: number, items: T[]) => Promise<boolean | void>,
+    startPage = 1
+  ): Promise<number> {
+    if (!this.page) return 0;
+
+    const maxPages = this.settings.maxPages || DEFAULT_MAX_PAGES;
+    let pagesVisited = 0;
+
+    for (let pageNumber = startPage; pageNumber <= maxPages; pageNumber++) {
+      const pageUrl = new URL(typeof searchUrl === 'string' ? searchUrl : searchUrl(pageNumber));
+      if (typeof searchUrl === 'string') {
+        pageUrl.searchParams.set('page', String(pageNumber));
+      }
 
-    try {
-      // First, get my direct connections
-      await this.page.goto('https://www.linkedin.com/mynetwork/invite-connect/connections/');
+      this.logger.debug('navigation', `Navigating to results page ${pageNumber}`, { url: pageUrl.toString() });
+      await this.navigate(pageUrl.toString());
       await this.wait(3000);
 
-      progressCallback(10, 'Loading your connections...');
+      // Search results lazy-render as the page scrolls
+      await this.scrollToLoadResults(2);
 
-      // Scroll to load connections
-      await this.scrollToLoadResults();
-      
-      const firstDegreeConnections = await this.extractDirectConnections();
-      
-      progressCallback(30, `Found ${firstDegreeConnections.length} direct connections. Analyzing their networks...`);
+      const items = await extractPage();
 
-      // Process each connection to find their network
-      let processedCount = 0;
-      for (const connection of firstDegreeConnections.slice(0, this.settings.maxConnections || 50)) {
-        try {
-          await this.analyzeFriendNetwork(sessionId, connection);
-          processedCount++;
-          
-          const progress = 30 + (processedCount / Math.min(firstDegreeConnections.length, 50)) * 65;
-          progressCallback(progress, `Analyzed ${processedCount} connections' networks`);
-          
-          await this.wait(this.settings.rateLimit);
-        } catch (error) {
-          console.warn(`Failed to analyze connection ${connection.name}:`, error);
-        }
+      // Throttling shows up in navigate() as a 429 or the interstitial, so an empty page here
+      // is just the end of the results
+      if (items.length === 0) {
+        pagesVisited++;
+        this.logger.info('navigation', `No results on page ${pageNumber}, stopping pagination`);
+        break;
       }
 
-      progressCallback(100, `Completed! Analyzed ${processedCount} connections' networks.`);
-    } catch (error) {
-      throw new Error(`Friends of friends crawl failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      pagesVisited++;
+
+      // Check before onPage, which may navigate away from the results
+      const hasNextPage = await this.hasNextPage();
+
+      if (await onPage(pageNumber, items) === true || !hasNextPage) {
+        break;
+      }
     }
+
+    return pagesVisited;
+  }
+
+  private async hasNextPage(): Promise<boolean> {
+    if (!this.page) return false;
+
+    return await this.page.evaluate(() => {
+      const nextButton = document.querySelector(
+        'button[aria-label="Next"], .artdeco-pagination__button--next'
+      ) as HTMLButtonElement | null;
+
+      // Without pagination controls, keep going until a page comes back empty
+      return nextButton ? !nextButton.disabled : true;
+    });
   }
 
-  private async scrollToLoadResults(): Promise<void> {
+  private async scrollToLoadResults(scrolls = 5): Promise<void> {
     if (!this.page) return;
 
-    for (let i = 0; i < 5; i++) {
+    for (let i = 0; i < scrolls; i++) {
       await this.page.evaluate(() => {
         window.scrollTo(0, document.body.scrollHeight);
       });
@@ -238,12 +1062,11 @@ export class LinkedInCrawler {
     }
   }
 
-  private async extractCompaniesFromSearch(): Promise<Array<Company & { connectionInfo: string; connectionNames: Array<{name: string, profileUrl: string, profileImageUrl?: string, isConnectionSummary?: boolean, connectionSource?: string}> }>> {
+  private async extractCompaniesFromSearch(): Promise<SearchCompany[]> {
     if (!this.page) return [];
 
     // Add debugging to see what's on the page
-    console.log('Extracting companies from search results page...');
-    console.log('Current URL:', this.page.url());
+    this.logger.debug('selector', 'Extracting companies from search results page...', { url: this.page.url() });
     
     // Wait for content to load
     await this.wait(5000);
@@ -251,11 +1074,12 @@ export class LinkedInCrawler {
     // First check what's actually on the page from Node.js side
     const pageTitle = await this.page.title();
     const currentUrl = await this.page.url();
-    console.log('Page title from Node.js:', pageTitle);
-    console.log('Current URL from Node.js:', currentUrl);
+    this.logger.debug('selector', `Page title: ${pageTitle}`, { url: currentUrl });
+    await this.captureFixture('companySearch');
 
-    const result = await this.page.evaluate(() => {
-      const companies: Array<Company & { connectionInfo: string; connectionNames: Array<{name: string, profileUrl: string, profileImageUrl?: string, isConnectionSummary?: boolean, connectionSource?: string}> }> = [];
+    const result = await this.page.evaluate((registry) => {
+      const companies: SearchCompany[] = [];
+      const hits: SelectorHit[] = [];
       const debugInfo = {
         usedSelector: '',
         selectorResults: [] as Array<{ selector: string; count: number }>,
@@ -263,45 +1087,27 @@ export class LinkedInCrawler {
         cardDebugInfo: [] as Array<{ cardIndex: number; htmlSample: string; strategies: string; finalResult: string; connectionDebug?: { connectionInfo: string; connectionNamesFound: number; connectionNames: string[]; connectionLinks: string[] } }>
       };
       
-      // Try multiple selector strategies as LinkedIn changes their HTML frequently
-      const possibleSelectors = [
-        '[data-test-result-container]', // Original selector
-        '.reusable-search__result-container', // Alternative selector
-        '.search-result__wrapper', // Another common pattern
-        '.entity-result', // Generic entity result
-        '[data-chameleon-result-urn]', // URN-based results
-        'li[data-row]', // List items with data-row
-        '.search-results li', // Simple list approach
-        '.org-company-card', // Company card specific
-        '.search-results__list li', // More specific list approach
-        '[data-control-name="search_srp_result"]', // Control name based
-        '.app-aware-link', // App aware link containers
-        'div[data-view-name="search-entity-result"]', // View name based
-        '.artdeco-entity-lockup', // Artdeco framework components
-        '.org-top-card-primary-content__entities li', // Org card entities
-        'li.reusable-search__result-container', // Combined approach
-      ];
-
-      // Record results for all selectors
-      debugInfo.selectorResults = possibleSelectors.map(s => ({
-        selector: s,
-        count: document.querySelectorAll(s).length
+      // Try each registered card strategy in order, LinkedIn changes their HTML frequently
+      debugInfo.selectorResults = registry.card.map(s => ({
+        selector: `${s.name} (${s.selector})`,
+        count: document.querySelectorAll(s.selector).length
       }));
 
       let companyCards: NodeListOf<Element> | null = null;
 
-      // Find the selector that actually returns results
-      for (const selector of possibleSelectors) {
-        const elements = document.querySelectorAll(selector);
+      // Find the strategy that actually returns results
+      for (const strategy of registry.card) {
+        const elements = document.querySelectorAll(strategy.selector);
         if (elements.length > 0) {
           companyCards = elements;
-          debugInfo.usedSelector = selector;
+          debugInfo.usedSelector = strategy.name;
+          hits.push({ field: 'companySearch.card', strategy: strategy.name });
           break;
         }
       }
 
       if (!companyCards) {
-        return { companies, debugInfo };
+        return { companies, debugInfo, hits };
       }
 
       companyCards.forEach((card, cardIndex) => {
@@ -314,9 +1120,18 @@ export class LinkedInCrawler {
           const cardHTML = card.outerHTML.substring(0, 200);
           let strategyLog = '';
 
-          // Strategy 1: Original approach
-          nameElement = card.querySelector('a[data-test-app-aware-link] span[aria-hidden="true"]');
-          linkElement = card.querySelector('a[data-test-app-aware-link]') as HTMLAnchorElement;
+          // Strategy 1: Registered title link strategies
+          for (const strategy of registry.titleLink) {
+            const link = card.querySelector(strategy.selector) as HTMLAnchorElement | null;
+            const nameStrategy = link && registry.nameInLink.find(s => link.querySelector(s.selector)?.textContent?.trim());
+            if (link && nameStrategy) {
+              linkElement = link;
+              nameElement = link.querySelector(nameStrategy.selector);
+              hits.push({ field: 'companySearch.titleLink', strategy: strategy.name });
+              hits.push({ field: 'companySearch.nameInLink', strategy: nameStrategy.name });
+              break;
+            }
+          }
           strategyLog += `S1: ${nameElement ? 'name✓' : 'name✗'} ${linkElement ? 'link✓' : 'link✗'}; `;
 
           // Strategy 2: More generic approach
@@ -327,23 +1142,18 @@ export class LinkedInCrawler {
               if (link.href?.includes('/company/')) {
                 linkElement = link as HTMLAnchorElement;
                 
-                // Try multiple approaches to find the company name
-                const possibleNameElements = [
-                  link.querySelector('span[aria-hidden="true"]'),
-                  link.querySelector('span:not([aria-hidden="false"])'),
-                  link.querySelector('.entity-result__title-text span'),
-                  link.querySelector('span'),
-                  link.querySelector('*'),
-                  link
-                ];
-                
-                for (const elem of possibleNameElements) {
-                  const text = elem?.textContent?.trim();
-                  if (text && text.length > 0) {
+                // Try the registered name strategies, then the link text itself
+                for (const strategy of registry.nameInLink) {
+                  const elem = link.querySelector(strategy.selector);
+                  if (elem?.textContent?.trim()) {
                     nameElement = elem;
+                    hits.push({ field: 'companySearch.nameInLink', strategy: strategy.name });
                     break;
                   }
                 }
+                if (!nameElement && link.textContent?.trim()) {
+                  nameElement = link;
+                }
                 
                 s2Found = true;
                 break;
@@ -372,21 +1182,18 @@ export class LinkedInCrawler {
             for (const anchor of allAnchors) {
               if (anchor.href?.includes('/company/') || anchor.href?.includes('/school/')) {
                 linkElement = anchor as HTMLAnchorElement;
-                // Try to find the company name in various ways
-                const possibleNameElements = [
-                  anchor.querySelector('span[aria-hidden="true"]'),
-                  anchor.querySelector('.entity-result__title-text span'),
-                  anchor.querySelector('[data-anonymize="company-name"]'),
-                  anchor.querySelector('span'),
-                  anchor
-                ];
-                
-                for (const elem of possibleNameElements) {
+                // Try the registered name strategies, then the anchor text itself
+                for (const strategy of registry.nameInLink) {
+                  const elem = anchor.querySelector(strategy.selector);
                   if (elem?.textContent?.trim()) {
                     nameElement = elem;
+                    hits.push({ field: 'companySearch.nameInLink', strategy: strategy.name });
                     break;
                   }
                 }
+                if (!nameElement && anchor.textContent?.trim()) {
+                  nameElement = anchor;
+                }
                 break;
               }
             }
@@ -449,44 +1256,25 @@ export class LinkedInCrawler {
           const logoUrl = logoElement?.src || '';
           let description = '';
           let connectionInfo = '';
-          const connectionNames: Array<{name: string, profileUrl: string, profileImageUrl?: string, isConnectionSummary?: boolean, connectionSource?: string}> = [];
+          const connectionNames: ExtractedPerson[] = [];
           
           if (nameElement && linkElement) {
-            // Try multiple selectors for company description
-            const descriptionSelectors = [
-              '[data-test-entity-subtitle]',
-              '.entity-result__summary', 
-              '.search-result__info .subline-level-1',
-              '.t-14', // Common LinkedIn text class
-              '.t-black--light',
-              'p', // Generic paragraph
-              '.entity-result__content p'
-            ];
+            // Try the registered strategies for company description
             let descriptionElement: Element | null = null;
-            for (const selector of descriptionSelectors) {
-              descriptionElement = card.querySelector(selector);
+            for (const strategy of registry.description) {
+              descriptionElement = card.querySelector(strategy.selector);
               if (descriptionElement?.textContent?.trim() && descriptionElement.textContent.length > 10) {
+                hits.push({ field: 'companySearch.description', strategy: strategy.name });
                 break;
               }
             }
 
-            // Try multiple selectors for connection information - look for text like "John Smith works here" or "2 connections work here"
-            const connectionSelectors = [
-              '[data-test-entity-context]',
-              '.entity-result__context', 
-              '.search-result__info .subline-level-2',
-              '.entity-result__content .t-12',
-              '.entity-result__content .t-black--light',
-              '.t-12', // Small text often contains connection info
-              '.t-black--light',
-              'span[aria-hidden="false"]', // Sometimes connection info is in these spans
-              '.entity-result__content span:not([aria-hidden="true"])'
-            ];
+            // Try the registered strategies for connection information - look for text like "John Smith works here" or "2 connections work here"
             const allConnectionTexts: string[] = [];
             
             // Collect all potential connection text
-            for (const selector of connectionSelectors) {
-              const elements = card.querySelectorAll(selector);
+            for (const strategy of registry.connectionInfo) {
+              const elements = card.querySelectorAll(strategy.selector);
               elements.forEach(elem => {
                 const text = elem.textContent?.trim();
                 if (text && text.length > 5 && (
@@ -498,6 +1286,9 @@ export class LinkedInCrawler {
                   text.includes('people you may know') ||
                   /\d+ (person|people)/.test(text)
                 )) {
+                  if (allConnectionTexts.length === 0) {
+                    hits.push({ field: 'companySearch.connectionInfo', strategy: strategy.name });
+                  }
                   allConnectionTexts.push(text);
                 }
               });
@@ -622,7 +1413,7 @@ export class LinkedInCrawler {
                 createdAt: '',
                 connectionInfo,
                 connectionNames // Add the extracted connection names and profile links
-              } as Company & { connectionInfo: string; connectionNames: Array<{name: string, profileUrl: string}> });
+              } as SearchCompany);
             }
           }
         } catch {
@@ -630,46 +1421,46 @@ export class LinkedInCrawler {
         }
       });
 
-      return { companies, debugInfo };
-    });
+      return { companies, debugInfo, hits };
+    }, this.selectors.companySearch);
 
-    console.log(`\n=== EXTRACTION RESULTS ===`);
-    console.log(`Page title: ${result.debugInfo.pageTitle}`);
-    console.log(`Selector test results:`);
-    result.debugInfo.selectorResults.forEach(r => {
-      console.log(`  "${r.selector}": found ${r.count} elements`);
+    this.recordSelectorHits(result.hits);
+
+    this.logger.debug('selector', `Company search selector results on "${result.debugInfo.pageTitle}"`, {
+      url: this.page.url(),
+      payload: { selectorResults: result.debugInfo.selectorResults }
     });
 
     if (result.debugInfo.usedSelector) {
-      console.log(`✅ Successfully used selector: "${result.debugInfo.usedSelector}"`);
-      console.log(`✅ Found ${result.companies.length} companies`);
-      
-      // Show detailed card extraction results
+      this.logger.info('selector', `Used card strategy "${result.debugInfo.usedSelector}" and found ${result.companies.length} companies`);
+
+      // Per-card extraction details, for working out why a card was read wrong
       if (result.debugInfo.cardDebugInfo.length > 0) {
-        console.log(`\n--- CARD EXTRACTION DETAILS ---`);
-        result.debugInfo.cardDebugInfo.forEach(card => {
-          console.log(`Card ${card.cardIndex}:`);
-          console.log(`  HTML: ${card.htmlSample}...`);
-          console.log(`  Strategies: ${card.strategies}`);
-          console.log(`  Result: ${card.finalResult}`);
-          if (card.connectionDebug) {
-            console.log(`  Connection Info: "${card.connectionDebug.connectionInfo}"`);
-            console.log(`  Names Found: ${card.connectionDebug.connectionNamesFound}`);
-            if (card.connectionDebug.connectionNames.length > 0) {
-              console.log(`  Connection Names: ${card.connectionDebug.connectionNames.join(', ')}`);
-            }
-          }
-          console.log(``);
+        this.logger.debug('selector', `Card extraction details for ${result.debugInfo.cardDebugInfo.length} cards`, {
+          payload: { cards: result.debugInfo.cardDebugInfo }
         });
       }
     } else {
-      console.log(`❌ No working selector found!`);
-      
       // Get a sample of the page HTML to debug
       const bodyHTML = await this.page.evaluate(() => document.body.innerHTML.substring(0, 2000));
-      console.log('Page HTML sample:', bodyHTML);
+      this.logger.warn('selector', 'No working selector found!', {
+        url: this.page.url(),
+        payload: { htmlSample: bodyHTML }
+      });
+    }
+
+    if (result.companies.length === 0) {
+      const llmCompanies = await this.extractWithLlm('companySearch', (extractor, snapshot) => extractor.extractCompanies(snapshot));
+      return llmCompanies.map(company => ({
+        id: '',
+        name: company.name,
+        linkedinUrl: company.linkedinUrl,
+        createdAt: '',
+        extractionMethod: 'llm',
+        connectionInfo: company.connectionInfo,
+        connectionNames: company.connections.map(person => ({ ...person, isConnectionSummary: false, extractionMethod: 'llm' }))
+      }));
     }
-    console.log(`=========================\n`);
 
     return result.companies;
   }
@@ -677,15 +1468,36 @@ export class LinkedInCrawler {
   private async extractDirectConnections(): Promise<Connection[]> {
     if (!this.page) return [];
 
-    return await this.page.evaluate(() => {
+    await this.captureFixture('connectionsList');
+
+    const result = await this.page.evaluate((registry) => {
       const connections: Connection[] = [];
-      const connectionCards = document.querySelectorAll('[data-test-member-card]');
+      const hits: SelectorHit[] = [];
+
+      // Returns the first element matched by a strategy and records which one it was
+      const findFirst = (root: ParentNode, field: string, strategies: typeof registry.card) => {
+        for (const strategy of strategies) {
+          const element = root.querySelector(strategy.selector);
+          if (element) {
+            hits.push({ field, strategy: strategy.name });
+            return element;
+          }
+        }
+        return null;
+      };
+
+      const cardStrategy = registry.card.find(s => document.querySelectorAll(s.selector).length > 0);
+      if (!cardStrategy) {
+        return { connections, hits };
+      }
+      hits.push({ field: 'memberCard.card', strategy: cardStrategy.name });
+      const connectionCards = document.querySelectorAll(cardStrategy.selector);
 
       connectionCards.forEach((card) => {
         try {
-          const nameElement = card.querySelector('a span[aria-hidden="true"]');
-          const linkElement = card.querySelector('a') as HTMLAnchorElement;
-          const headlineElement = card.querySelector('[data-test-member-headline]');
+          const nameElement = findFirst(card, 'memberCard.name', registry.name);
+          const linkElement = findFirst(card, 'memberCard.link', registry.link) as HTMLAnchorElement | null;
+          const headlineElement = findFirst(card, 'memberCard.headline', registry.headline);
 
           if (nameElement && linkElement) {
             const name = nameElement.textContent?.trim() || '';
@@ -709,19 +1521,36 @@ export class LinkedInCrawler {
         }
       });
 
-      return connections;
-    });
+      return { connections, hits };
+    }, this.selectors.memberCard);
+
+    this.recordSelectorHits(result.hits);
+
+    if (result.connections.length === 0) {
+      const people = await this.extractWithLlm('memberCard', (extractor, snapshot) => extractor.extractPeople(snapshot));
+      return people.map(person => ({
+        id: '',
+        crawlSessionId: '',
+        name: person.name,
+        headline: person.headline,
+        profileUrl: person.profileUrl,
+        connectionDegree: 1,
+        extractionMethod: 'llm',
+        createdAt: ''
+      }));
+    }
+
+    return result.connections;
   }
 
-  private async processConnectionSummaryLinks(company: Company & { connectionInfo: string; connectionNames: Array<{name: string, profileUrl: string, profileImageUrl?: string, isConnectionSummary?: boolean, connectionSource?: string}> }): Promise<Company & { connectionInfo: string; connectionNames: Array<{name: string, profileUrl: string, profileImageUrl?: string, isConnectionSummary?: boolean, connectionSource?: string}> }> {
-    console.log(`Processing connection summary links for ${company.name}`);
+  private async processConnectionSummaryLinks(company: SearchCompany): Promise<SearchCompany> {
+    this.logger.debug('connection', `Processing connection summary links for ${company.name}`);
     
-    const processedConnectionNames: Array<{name: string, profileUrl: string, profileImageUrl?: string, isConnectionSummary?: boolean, connectionSource?: string}> = [];
+    const processedConnectionNames: ExtractedPerson[] = [];
     
     for (const connection of company.connectionNames) {
       if (connection.isConnectionSummary && connection.profileUrl.includes('linkedin.com/search/results/people')) {
-        console.log(`Following connection link: ${connection.name}`);
-        console.log(`URL: ${connection.profileUrl}`);
+        this.logger.debug('connection', `Following connection link: ${connection.name}`, { url: connection.profileUrl });
         
         try {
           // Navigate to the connection details page
@@ -729,11 +1558,9 @@ export class LinkedInCrawler {
           
           // Add all individual connections found
           processedConnectionNames.push(...individualConnections);
-          
-          // Add a small delay between requests
-          await this.wait(2000);
         } catch (error) {
-          console.warn(`Failed to process connection link ${connection.profileUrl}:`, error);
+          if (error instanceof CrawlThrottledError || error instanceof CrawlCancelledError) throw error;
+          this.logger.warn('connection', 'Failed to process connection link', { url: connection.profileUrl, error });
           // Keep the original summary if we can't process the details
           processedConnectionNames.push(connection);
         }
@@ -749,43 +1576,59 @@ export class LinkedInCrawler {
     };
   }
 
-  private async extractIndividualConnections(connectionUrl: string, connectionSource: string): Promise<Array<{name: string, profileUrl: string, profileImageUrl?: string, isConnectionSummary?: boolean, connectionSource?: string}>> {
+  private async extractIndividualConnections(connectionUrl: string, connectionSource: string, limit?: number): Promise<ExtractedPerson[]> {
     if (!this.page) return [];
 
     try {
-      console.log(`Navigating to connection details: ${connectionUrl}`);
-      await this.page.goto(connectionUrl, { waitUntil: 'domcontentloaded' });
-      await this.wait(3000);
+      this.logger.debug('navigation', 'Navigating to connection details', { url: connectionUrl });
+      const connections: ExtractedPerson[] = [];
+
+      await this.paginateSearch(
+        connectionUrl,
+        () => this.extractPeopleFromSearchPage(connectionSource),
+        async (pageNumber, pageConnections) => {
+          connections.push(...pageConnections);
+          this.logger.info('connection', `Page ${pageNumber}: found ${pageConnections.length} connections (${connections.length} total)`);
+
+          // Stop paging once we have as many people as the caller will use
+          return limit !== undefined && connections.length >= limit;
+        }
+      );
 
-      // Scroll to load more connections
-      await this.scrollToLoadResults();
+      return limit !== undefined ? connections.slice(0, limit) : connections;
+    } catch (error) {
+      if (error instanceof CrawlThrottledError || error instanceof CrawlCancelledError) throw error;
+      this.logger.error('connection', 'Failed to extract individual connections', { url: connectionUrl, error });
+      await this.captureFailure('Connections extraction failed');
+      return [];
+    }
+  }
+
+  private async extractPeopleFromSearchPage(connectionSource: string): Promise<ExtractedPerson[]> {
+    if (!this.page) return [];
 
-      const connections = await this.page.evaluate((source) => {
-        const foundConnections: Array<{name: string, profileUrl: string, profileImageUrl?: string, isConnectionSummary?: boolean, connectionSource?: string}> = [];
+    try {
+      await this.captureFixture('peopleSearch');
+      const result = await this.page.evaluate(({ source, registry }) => {
+        const foundConnections: ExtractedPerson[] = [];
+        const hits: SelectorHit[] = [];
         
         // Look for connection cards in the people search results
-        const possibleSelectors = [
-          '.reusable-search__result-container',
-          '[data-test-result-container]',
-          '.entity-result',
-          '.search-result__wrapper',
-          '[data-chameleon-result-urn]'
-        ];
-
         let connectionCards: NodeListOf<Element> | null = null;
         
-        for (const selector of possibleSelectors) {
-          const elements = document.querySelectorAll(selector);
+        for (const strategy of registry.card) {
+          const elements = document.querySelectorAll(strategy.selector);
           if (elements.length > 0) {
             connectionCards = elements;
-            console.log(`Using selector: ${selector}, found ${elements.length} cards`);
+            hits.push({ field: 'peopleSearch.card', strategy: strategy.name });
+            console.log(`Using card strategy: ${strategy.name}, found ${elements.length} cards`);
             break;
           }
         }
 
         if (!connectionCards || connectionCards.length === 0) {
           console.log('No connection cards found on the page');
-          return foundConnections;
+          return { foundConnections, hits };
         }
 
         connectionCards.forEach((card, index) => {
@@ -801,25 +1644,17 @@ export class LinkedInCrawler {
             for (const link of profileLinks) {
               // Try multiple strategies to find the person's name
               let nameText = '';
+              let nameStrategy = '';
               
-              // Strategy 1: Look for name in specific LinkedIn selectors
-              const nameSelectors = [
-                'span[aria-hidden="true"]',
-                '.entity-result__title-text span',
-                '.actor-name',
-                '.search-result__result-text h3 span',
-                'h3 > span',
-                '.result-lockup__name',
-                '[data-anonymize="person-name"]'
-              ];
-              
-              for (const selector of nameSelectors) {
-                const nameElement = link.querySelector(selector);
+              // Strategy 1: Look for name with the registered name strategies
+              for (const strategy of registry.name) {
+                const nameElement = link.querySelector(strategy.selector);
                 const text = nameElement?.textContent?.trim();
-                console.log(`Selector "${selector}": "${text}"`);
+                console.log(`Strategy "${strategy.name}": "${text}"`);
                 if (text && text.length > 3 && /^[A-Z][a-z]+\s+[A-Z]/.test(text)) {
                   nameText = text;
-                  console.log(`Found name with selector "${selector}": "${nameText}"`);
+                  nameStrategy = strategy.name;
+                  console.log(`Found name with strategy "${strategy.name}": "${nameText}"`);
                   break;
                 }
               }
@@ -829,6 +1664,7 @@ export class LinkedInCrawler {
                 const linkText = link.textContent?.trim();
                 if (linkText && /^[A-Z][a-z]+\s+[A-Z][a-z]/.test(linkText)) {
                   nameText = linkText;
+                  nameStrategy = 'link-text';
                 }
               }
               
@@ -875,6 +1711,7 @@ export class LinkedInCrawler {
                   isConnectionSummary: false,
                   connectionSource: source
                 });
+                hits.push({ field: 'peopleSearch.name', strategy: nameStrategy });
                 
                 // Only take the first valid profile link per card
                 break;
@@ -886,19 +1723,35 @@ export class LinkedInCrawler {
         });
 
         console.log(`Extracted ${foundConnections.length} individual connections`);
-        return foundConnections;
-      }, connectionSource);
+        return { foundConnections, hits };
+      }, { source: connectionSource, registry: this.selectors.peopleSearch });
+
+      this.recordSelectorHits(result.hits);
+
+      if (result.foundConnections.length === 0) {
+        const people = await this.extractWithLlm('peopleSearch', (extractor, snapshot) => extractor.extractPeople(snapshot));
+        return people.map(person => ({
+          name: person.name,
+          profileUrl: person.profileUrl,
+          isConnectionSummary: false,
+          connectionSource,
+          extractionMethod: 'llm'
+        }));
+      }
 
-      return connections;
+      return result.foundConnections;
     } catch (error) {
-      console.error(`Failed to extract individual connections from ${connectionUrl}:`, error);
+      this.logger.error('connection', 'Failed to extract connections from search page', { url: this.page.url(), error });
+      await this.captureFailure('People search extraction failed');
       return [];
     }
   }
 
-  private async processCompanyConnections(sessionId: string, company: Company & { connectionInfo: string; connectionNames: Array<{name: string, profileUrl: string, profileImageUrl?: string, isConnectionSummary?: boolean, connectionSource?: string}> }): Promise<void> {
-    console.log(`Processing company: ${company.name} (${company.linkedinUrl})`);
-    console.log(`Connection info: "${company.connectionInfo}"`);
+  private async processCompanyConnections(sessionId: string, company: SearchCompany): Promise<void> {
+    this.logger.debug('company', `Processing company: ${company.name}`, {
+      url: company.linkedinUrl,
+      payload: { connectionInfo: company.connectionInfo }
+    });
     
     try {
       // Create or get company record
@@ -906,140 +1759,152 @@ export class LinkedInCrawler {
       let companyId: string;
       
       if (existingCompany) {
-        console.log(`Company already exists in DB: ${existingCompany.name}`);
+        this.logger.debug('company', `Company already exists in DB: ${existingCompany.name}`);
         companyId = existingCompany.id;
       } else {
-        console.log(`Creating new company record: ${company.name}`);
+        this.logger.debug('company', `Creating new company record: ${company.name}`);
         companyId = this.db.createCompany({
           name: company.name,
           linkedinUrl: company.linkedinUrl,
           logoUrl: company.logoUrl,
-          description: company.description
+          description: company.description,
+          extractionMethod: company.extractionMethod
         });
-        console.log(`Created company with ID: ${companyId}`);
+        this.logger.debug('company', `Created company with ID: ${companyId}`);
       }
 
+      await this.enrichCompany(companyId);
+
       // If no specific connection names were found, try to visit the company page to find actual names
       if ((!company.connectionNames || company.connectionNames.length === 0) && 
           company.connectionInfo.match(/\d+\s+connections?\s+work here/i)) {
-        console.log(`Attempting to find actual connection names for ${company.name}`);
+        this.logger.debug('connection', `Attempting to find actual connection names for ${company.name}`);
         const actualConnections = await this.extractConnectionsFromCompanyPage(company.linkedinUrl);
         if (actualConnections.length > 0) {
           company.connectionNames = actualConnections;
-          console.log(`Found ${actualConnections.length} actual connection names from company page`);
+          this.logger.info('connection', `Found ${actualConnections.length} actual connection names from company page`);
         }
       }
 
-      // Create connections based on what we extracted from the search results
-      if (company.connectionNames && company.connectionNames.length > 0) {
-        console.log(`Found ${company.connectionNames.length} named connections for ${company.name}`);
+      // A resumed crawl may have stored some of this company's connections before it stopped.
+      // Those are replaced in one transaction, so re-processing the company never duplicates them.
+      this.db.transaction(() => {
+        this.db.deleteCompanyConnections(sessionId, companyId);
+
+        // Create connections based on what we extracted from the search results
+        if (company.connectionNames && company.connectionNames.length > 0) {
+          this.logger.info('connection', `Found ${company.connectionNames.length} named connections for ${company.name}`);
+        
+          // Create connection records for each named person
+          for (const connection of company.connectionNames) {
+            const connectionId = this.db.createConnection({
+              crawlSessionId: sessionId,
+              name: connection.name,
+              headline: company.connectionInfo, // Use the connection info as headline
+              profileUrl: connection.profileUrl,
+              profileImageUrl: connection.profileImageUrl,
+              connectionSource: connection.connectionSource,
+              connectionDegree: 1,
+              company: company.name,
+              companyUrl: company.linkedinUrl,
+              extractionMethod: connection.extractionMethod
+            });
+          
+            // Link the company and connection
+            this.db.createCompanyConnection({
+              companyId,
+              connectionId,
+              crawlSessionId: sessionId,
+              connectionPath: `You -> ${connection.name}`
+            });
+          
+            this.logger.debug('connection', `Created named connection: ${connection.name}`, { url: connection.profileUrl });
+          }
+        } else {
+          // Fallback: Create a meaningful connection record from the connection info
+          this.logger.debug('connection', `Creating fallback connection from info: "${company.connectionInfo}"`);
+        
+          let connectionName: string;
+          let headline: string;
+        
+          if (company.connectionInfo.includes('connection') || company.connectionInfo.includes('people')) {
+            // Extract meaningful connection info from patterns like "4 connections work here"
+            const numericMatch = company.connectionInfo.match(/(\d+)\s+(connections?|people)/i);
+            if (numericMatch) {
+              const count = parseInt(numericMatch[1]);
+              if (count === 1) {
+                connectionName = '1st Degree Connection';
+              } else {
+                connectionName = `${count} Connections`;
+              }
+            } else {
+              // Fallback for other patterns
+              connectionName = company.connectionInfo
+                .replace(/\s+(work here|were hired here).*$/i, '')
+                .replace(/^\d+\s+/, '') // Remove leading numbers
+                .trim();
+            
+              // If still looks generic, make it more meaningful
+              if (connectionName.toLowerCase().includes('connection')) {
+                connectionName = 'Your Network Connection';
+              } else if (connectionName.toLowerCase().includes('people')) {
+                connectionName = 'Network Contact';
+              }
+            }
+            headline = company.connectionInfo;
+          } else {
+            // For specific names if found
+            const nameMatch = company.connectionInfo.match(/^([A-Z][a-z]+ [A-Z][a-z]+)/);
+            connectionName = nameMatch ? nameMatch[1] : 'Network Connection';
+            headline = company.connectionInfo;
+          }
         
-        // Create connection records for each named person
-        for (const connection of company.connectionNames) {
+          // Create a connection record based on the search result
           const connectionId = this.db.createConnection({
             crawlSessionId: sessionId,
-            name: connection.name,
-            headline: company.connectionInfo, // Use the connection info as headline
-            profileUrl: connection.profileUrl,
-            profileImageUrl: connection.profileImageUrl,
-            connectionSource: connection.connectionSource,
+            name: connectionName,
+            headline: headline,
+            profileUrl: '',
+            profileImageUrl: undefined,
+            connectionSource: undefined,
             connectionDegree: 1,
             company: company.name,
             companyUrl: company.linkedinUrl
           });
-          
+
           // Link the company and connection
           this.db.createCompanyConnection({
             companyId,
             connectionId,
             crawlSessionId: sessionId,
-            connectionPath: `You -> ${connection.name}`
+            connectionPath: `You -> ${connectionName}`
           });
-          
-          console.log(`Created named connection: ${connection.name} -> ${connection.profileUrl}`);
-        }
-      } else {
-        // Fallback: Create a meaningful connection record from the connection info
-        console.log(`Creating fallback connection from info: "${company.connectionInfo}"`);
         
-        let connectionName: string;
-        let headline: string;
-        
-        if (company.connectionInfo.includes('connection') || company.connectionInfo.includes('people')) {
-          // Extract meaningful connection info from patterns like "4 connections work here"
-          const numericMatch = company.connectionInfo.match(/(\d+)\s+(connections?|people)/i);
-          if (numericMatch) {
-            const count = parseInt(numericMatch[1]);
-            if (count === 1) {
-              connectionName = '1st Degree Connection';
-            } else {
-              connectionName = `${count} Connections`;
-            }
-          } else {
-            // Fallback for other patterns
-            connectionName = company.connectionInfo
-              .replace(/\s+(work here|were hired here).*$/i, '')
-              .replace(/^\d+\s+/, '') // Remove leading numbers
-              .trim();
-            
-            // If still looks generic, make it more meaningful
-            if (connectionName.toLowerCase().includes('connection')) {
-              connectionName = 'Your Network Connection';
-            } else if (connectionName.toLowerCase().includes('people')) {
-              connectionName = 'Network Contact';
-            }
-          }
-          headline = company.connectionInfo;
-        } else {
-          // For specific names if found
-          const nameMatch = company.connectionInfo.match(/^([A-Z][a-z]+ [A-Z][a-z]+)/);
-          connectionName = nameMatch ? nameMatch[1] : 'Network Connection';
-          headline = company.connectionInfo;
+          this.logger.debug('connection', `Created connection: "${connectionName}" with headline: "${headline}"`);
         }
-        
-        // Create a connection record based on the search result
-        const connectionId = this.db.createConnection({
-          crawlSessionId: sessionId,
-          name: connectionName,
-          headline: headline,
-          profileUrl: '',
-          profileImageUrl: undefined,
-          connectionSource: undefined,
-          connectionDegree: 1,
-          company: company.name,
-          companyUrl: company.linkedinUrl
-        });
-
-        // Link the company and connection
-        this.db.createCompanyConnection({
-          companyId,
-          connectionId,
-          crawlSessionId: sessionId,
-          connectionPath: `You -> ${connectionName}`
-        });
-        
-        console.log(`Created connection: "${connectionName}" with headline: "${headline}"`);
-      }
+      });
       
     } catch (error) {
-      console.error(`Error processing company connections for ${company.name}:`, error);
+      this.logger.error('company', `Error processing company connections for ${company.name}`, { url: company.linkedinUrl, error });
       throw error;
     }
   }
 
 
-  private async extractConnectionsFromCompanyPage(companyUrl: string): Promise<Array<{name: string, profileUrl: string, profileImageUrl?: string, isConnectionSummary?: boolean, connectionSource?: string}>> {
+  private async extractConnectionsFromCompanyPage(companyUrl: string): Promise<ExtractedPerson[]> {
     if (!this.page) return [];
 
     try {
       // Navigate to the company page
-      console.log(`Navigating to company page: ${companyUrl}`);
-      await this.page.goto(companyUrl, { waitUntil: 'domcontentloaded' });
+      this.logger.debug('navigation', 'Navigating to company page', { url: companyUrl });
+      await this.navigate(companyUrl);
       await this.wait(3000);
+      await this.captureFixture('companyPage');
 
       // Look for a "People" or "Employees" section that might show connections
-      const connections = await this.page.evaluate(() => {
-        const foundConnections: Array<{name: string, profileUrl: string, profileImageUrl?: string, isConnectionSummary?: boolean, connectionSource?: string}> = [];
+      const result = await this.page.evaluate((registry) => {
+        const foundConnections: ExtractedPerson[] = [];
+        const hits: SelectorHit[] = [];
 
         // Try to find employee/people sections (could be used for future enhancement)
         // const peopleSelectors = [
@@ -1050,15 +1915,18 @@ export class LinkedInCrawler {
         //   '.org-page-navigation__item-anchor[href*="people"]', // People tab
         // ];
 
-        // First try to find a "People" tab and click it
-        const peopleTab = document.querySelector('.org-page-navigation__item-anchor[href*="people"]') as HTMLAnchorElement;
-        if (peopleTab) {
-          console.log('Found people tab, would need to navigate');
-          // We could navigate here but it adds complexity
-        }
+        // First try to find a "People" tab. Following it could find more people, but it adds
+        // complexity, so it is only logged from Node below.
+        const hasPeopleTab = !!document.querySelector('.org-page-navigation__item-anchor[href*="people"]');
 
         // Look for any profile links in employee sections
-        const profileLinks = Array.from(document.querySelectorAll('a[href*="/in/"]')) as HTMLAnchorElement[];
+        const linkStrategy = registry.profileLink.find(s => document.querySelectorAll(s.selector).length > 0);
+        if (linkStrategy) {
+          hits.push({ field: 'companyPage.profileLink', strategy: linkStrategy.name });
+        }
+        const profileLinks = linkStrategy
+          ? Array.from(document.querySelectorAll(linkStrategy.selector)) as HTMLAnchorElement[]
+          : [];
         
         for (const link of profileLinks) {
           const nameText = link.textContent?.trim();
@@ -1083,88 +1951,423 @@ export class LinkedInCrawler {
           }
         }
 
-        return foundConnections;
-      });
+        return { foundConnections, hits, hasPeopleTab };
+      }, this.selectors.companyPage);
 
-      console.log(`Found ${connections.length} connections on company page`);
+      this.recordSelectorHits(result.hits);
+      if (result.hasPeopleTab) {
+        this.logger.debug('navigation', 'Found people tab, would need to navigate', { url: companyUrl });
+      }
+      const connections = result.foundConnections;
+      this.logger.info('connection', `Found ${connections.length} connections on company page`, { url: companyUrl });
       return connections.slice(0, 5); // Limit to first 5 to avoid overwhelming
       
     } catch (error) {
-      console.warn(`Failed to extract connections from company page: ${error}`);
+      if (error instanceof CrawlThrottledError || error instanceof CrawlCancelledError) throw error;
+      this.logger.warn('connection', 'Failed to extract connections from company page', { url: companyUrl, error });
+      await this.captureFailure('Company page extraction failed');
       return [];
     }
   }
 
-  private async analyzeFriendNetwork(sessionId: string, connection: Connection): Promise<void> {
+  // firstDegreeUrls: normalized profile URLs of your own connections, which the friend's
+  // connection list includes as mutual contacts
+  private async analyzeFriendNetwork(sessionId: string, connection: Connection, firstDegreeUrls: Set<string>): Promise<void> {
     if (!this.page) return;
 
     try {
       // Visit the connection's profile
-      await this.page.goto(connection.profileUrl);
+      await this.navigate(connection.profileUrl);
       await this.wait(2000);
 
-      // Extract their current company information
-      const companyInfo = await this.page.evaluate(() => {
-        const companyElement = document.querySelector('[data-test-experience-item]');
-        if (!companyElement) return null;
-
-        const companyNameElement = companyElement.querySelector('a span[aria-hidden="true"]');
-        const companyLinkElement = companyElement.querySelector('a') as HTMLAnchorElement;
-
-        return {
-          name: companyNameElement?.textContent?.trim() || '',
-          linkedinUrl: companyLinkElement?.href || ''
-        };
-      });
-
-      if (companyInfo && companyInfo.name) {
-        // Create or get company record
-        const existingCompany = this.db.getCompanyByLinkedInUrl(companyInfo.linkedinUrl);
-        let companyId: string;
-        
-        if (existingCompany) {
-          companyId = existingCompany.id;
-        } else {
-          companyId = this.db.createCompany({
-            name: companyInfo.name,
-            linkedinUrl: companyInfo.linkedinUrl
-          });
-        }
+      // Record the friend themselves at their current company ("You -> Joe")
+      const companyInfo = await this.extractCurrentCompany();
+      let friendCompanyId: string | null = null;
+      if (companyInfo && !this.completedConnections.has(connection.profileUrl)) {
+        friendCompanyId = this.getOrCreateCompany(companyInfo);
 
-        // Create connection record
         const connectionId = this.db.createConnection({
           crawlSessionId: sessionId,
           name: connection.name,
           headline: connection.headline,
           profileUrl: connection.profileUrl,
-          profileImageUrl: undefined,
+          profileImageUrl: connection.profileImageUrl,
           connectionSource: undefined,
           connectionDegree: 1,
           company: companyInfo.name,
-          companyUrl: companyInfo.linkedinUrl
+          companyUrl: companyInfo.linkedinUrl,
+          extractionMethod: connection.extractionMethod
         });
 
-        // Link company and connection
         this.db.createCompanyConnection({
-          companyId,
+          companyId: friendCompanyId,
           connectionId,
           crawlSessionId: sessionId,
-          connectionPath: `You -> ${connection.name} works here`
+          connectionPath: `You -> ${connection.name}`
+        });
+
+        this.markConnectionDone(sessionId, connection.profileUrl);
+      }
+
+      // Find the link to the friend's visible connections. LinkedIn only exposes it when
+      // the friend hasn't hidden their connection list.
+      const connectionsLink = await this.findFirstMatch('profile.connectionsLink', this.selectors.profile.connectionsLink);
+      const friendConnectionsUrl = connectionsLink?.href || '';
+
+      // Leaves the profile page, so only once everything on it has been read
+      if (friendCompanyId) {
+        await this.enrichCompany(friendCompanyId);
+      }
+
+      if (!friendConnectionsUrl) {
+        this.logger.info('connection', `${connection.name} does not share their connections, skipping 2nd degree discovery`, { url: connection.profileUrl });
+        return;
+      }
+
+      const limit = this.settings.maxSecondDegreePerConnection || 10;
+      const secondDegreeConnections = await this.extractIndividualConnections(friendConnectionsUrl, connection.name, limit);
+      this.logger.info('connection', `Found ${secondDegreeConnections.length} connections of ${connection.name}`);
+
+      for (const person of secondDegreeConnections) {
+        const personKey = `${connection.profileUrl} -> ${person.profileUrl}`;
+        if (this.completedConnections.has(personKey)) {
+          continue;
+        }
+
+        // Mutual contacts are already recorded as your 1st degree connections
+        if (firstDegreeUrls.has(normalizeProfileUrl(person.profileUrl))) {
+          this.logger.debug('connection', `Skipping ${person.name}, already a 1st degree connection`, { url: person.profileUrl });
+          continue;
+        }
+
+        await this.recordSecondDegreeConnection(sessionId, connection, person);
+        this.markConnectionDone(sessionId, personKey);
+      }
+    } catch (error) {
+      if (error instanceof CrawlThrottledError || error instanceof CrawlCancelledError) throw error;
+      this.logger.warn('connection', `Failed to analyze ${connection.name}'s network`, { url: connection.profileUrl, error });
+    }
+  }
+
+  private async recordSecondDegreeConnection(
+    sessionId: string,
+    friend: Connection,
+    person: ExtractedPerson
+  ): Promise<void> {
+    if (!this.page) return;
+
+    try {
+      // Visit the 2nd degree person's profile to find where they work
+      await this.navigate(person.profileUrl);
+      await this.wait(2000);
+
+      const companyInfo = await this.extractCurrentCompany();
+      if (!companyInfo) {
+        this.logger.debug('connection', `No current company found for ${person.name}`, { url: person.profileUrl });
+        return;
+      }
+
+      const companyId = this.getOrCreateCompany(companyInfo);
+
+      const connectionId = this.db.createConnection({
+        crawlSessionId: sessionId,
+        name: person.name,
+        headline: `Connected through ${friend.name}`,
+        profileUrl: person.profileUrl,
+        profileImageUrl: person.profileImageUrl,
+        connectionSource: friend.name,
+        connectionDegree: 2,
+        mutualConnection: friend.name,
+        company: companyInfo.name,
+        companyUrl: companyInfo.linkedinUrl,
+        extractionMethod: person.extractionMethod
+      });
+
+      this.db.createCompanyConnection({
+        companyId,
+        connectionId,
+        crawlSessionId: sessionId,
+        connectionPath: `You -> ${friend.name} -> ${person.name}`
+      });
+
+      this.logger.info('connection', `Created 2nd degree connection: You -> ${friend.name} -> ${person.name} (${companyInfo.name})`);
+      await this.enrichCompany(companyId);
+    } catch (error) {
+      if (error instanceof CrawlThrottledError || error instanceof CrawlCancelledError) throw error;
+      this.logger.warn('connection', `Failed to record 2nd degree connection ${person.name}`, { url: person.profileUrl, error });
+    }
+  }
+
+  private async extractCurrentCompany(): Promise<{ name: string; linkedinUrl: string } | null> {
+    if (!this.page) return null;
+
+    await this.captureFixture('profile');
+
+    const result = await this.page.evaluate((registry) => {
+      const hits: SelectorHit[] = [];
+      const findFirst = (root: ParentNode, field: string, strategies: typeof registry.experienceItem) => {
+        for (const strategy of strategies) {
+          const element = root.querySelector(strategy.selector);
+          if (element) {
+            hits.push({ field, strategy: strategy.name });
+            return element;
+          }
+        }
+        return null;
+      };
+
+      const companyElement = findFirst(document, 'profile.experienceItem', registry.experienceItem);
+      if (!companyElement) return { companyInfo: null, hits };
+
+      const companyNameElement = findFirst(companyElement, 'profile.experienceCompanyName', registry.experienceCompanyName);
+      const companyLinkElement = findFirst(companyElement, 'profile.experienceCompanyLink', registry.experienceCompanyLink) as HTMLAnchorElement | null;
+
+      return {
+        companyInfo: {
+          name: companyNameElement?.textContent?.trim() || '',
+          linkedinUrl: companyLinkElement?.href || ''
+        },
+        hits
+      };
+    }, this.selectors.profile);
+
+    this.recordSelectorHits(result.hits);
+    const companyInfo = result.companyInfo;
+
+    if (!companyInfo || !companyInfo.name || !companyInfo.linkedinUrl.includes('/company/')) {
+      return null;
+    }
+
+    return companyInfo;
+  }
+
+  // Reads the current page with the LLM after every selector strategy came up empty, so a
+  // LinkedIn markup change doesn't silently empty the crawl. Returns nothing when the
+  // fallback is off, the page is a genuine "no results" page, or the model call fails.
+  // Only a failed model call is saved as a failure artifact; an empty page is normal at the
+  // end of a result list.
+  private async extractWithLlm<T>(
+    section: keyof SelectorRegistry,
+    extract: (extractor: LlmExtractor, snapshot: PageSnapshot) => Promise<T[]>
+  ): Promise<T[]> {
+    if (!this.page) return [];
+    if (await this.page.$(NO_RESULTS_SELECTOR)) return [];
+    if (!this.llmExtractor) return [];
+
+    try {
+      this.logger.warn('llm', `No ${section} selector strategy matched, falling back to LLM extraction...`, { url: this.page.url() });
+      const snapshot = await this.page.evaluate((): PageSnapshot => {
+        const root = document.querySelector('main') || document.body;
+        const links = new Map<string, string>();
+        root.querySelectorAll<HTMLAnchorElement>('a[href*="/in/"], a[href*="/company/"]').forEach(link => {
+          if (!links.has(link.href)) {
+            links.set(link.href, (link.textContent || '').replace(/\s+/g, ' ').trim().slice(0, 100));
+          }
         });
+
+        return {
+          url: location.href,
+          title: document.title,
+          text: (root as HTMLElement).innerText.replace(/\n{2,}/g, '\n'),
+          links: Array.from(links, ([href, text]) => ({ href, text }))
+        };
+      });
+
+      const results = await extract(this.llmExtractor, snapshot);
+      this.logger.info('llm', `LLM fallback extracted ${results.length} results`, { url: snapshot.url });
+      if (results.length > 0) {
+        this.recordSelectorHits([{ field: `${section}.card`, strategy: 'llm-fallback' }]);
       }
+      return results;
     } catch (error) {
-      console.warn(`Failed to analyze ${connection.name}'s network:`, error);
+      this.logger.error('llm', 'LLM fallback extraction failed', { error });
+      await this.captureFailure(`LLM ${section} extraction failed`);
+      return [];
+    }
+  }
+
+  // Returns the first element on the page matched by the given strategies
+  private async findFirstMatch(field: string, strategies: SelectorStrategy[]): Promise<{ text: string; href: string } | null> {
+    if (!this.page) return null;
+
+    const match = await this.page.evaluate((strategies) => {
+      for (const strategy of strategies) {
+        const element = document.querySelector(strategy.selector);
+        if (element) {
+          return {
+            strategy: strategy.name,
+            text: element.textContent?.trim() || '',
+            href: (element as HTMLAnchorElement).href || ''
+          };
+        }
+      }
+      return null;
+    }, strategies);
+
+    if (!match) return null;
+
+    this.recordSelectorHits([{ field, strategy: match.strategy }]);
+    return { text: match.text, href: match.href };
+  }
+
+  private recordSelectorHits(hits: SelectorHit[]): void {
+    for (const hit of hits) {
+      const key = `${hit.field} => ${hit.strategy}`;
+      this.selectorHits.set(key, (this.selectorHits.get(key) || 0) + 1);
+    }
+  }
+
+  // Which selector strategies matched during this crawl, with counts
+  getSelectorHits(): Array<SelectorHit & { count: number }> {
+    return Array.from(this.selectorHits.entries()).map(([key, count]) => {
+      const [field, strategy] = key.split(' => ');
+      return { field, strategy, count };
+    });
+  }
+
+  private getOrCreateCompany(company: Omit<Company, 'id' | 'createdAt'> & { linkedinUrl: string }): string {
+    const existingCompany = this.db.getCompanyByLinkedInUrl(company.linkedinUrl);
+    if (existingCompany) {
+      return existingCompany.id;
+    }
+
+    return this.db.createCompany(company);
+  }
+
+  private loadCheckpoint(sessionId: string): void {
+    const checkpoint = this.db.getCheckpoint(sessionId);
+    this.completedCompanies = new Set(checkpoint?.completedCompanies || []);
+    this.completedConnections = new Set(checkpoint?.completedConnections || []);
+    this.resumePage = checkpoint?.currentPage || 1;
+
+    if (checkpoint) {
+      this.logger.info('crawl', `Loaded checkpoint: page ${checkpoint.currentPage}, offset ${checkpoint.currentOffset}`);
+    }
+  }
+
+  // The page is only known for crawls that follow search result pages; list crawls keep
+  // whatever page the checkpoint has
+  private markCompanyDone(sessionId: string, companyKey: string, offset: number, page?: number): void {
+    this.completedCompanies.add(companyKey);
+    this.db.markCheckpointItem(sessionId, 'company', companyKey);
+    if (page !== undefined) {
+      this.db.saveCheckpointPosition(sessionId, page, offset);
+    } else {
+      this.db.saveCheckpointOffset(sessionId, offset);
     }
   }
 
+  private markConnectionDone(sessionId: string, key: string, offset?: number): void {
+    this.completedConnections.add(key);
+    this.db.markCheckpointItem(sessionId, 'connection', key);
+    if (offset !== undefined) {
+      this.db.saveCheckpointOffset(sessionId, offset);
+    }
+  }
+
+  // Checkpoint key marking a friend's whole network as analyzed
+  private networkKey(profileUrl: string): string {
+    return `${profileUrl} -> *`;
+  }
+
+  // Every LinkedIn navigation goes through here so the pacer can space requests out and
+  // back off (retrying the same URL) when LinkedIn pushes back
+  private async navigate(url: string, options: { checkAuthWall?: boolean } = {}): Promise<void> {
+    if (!this.page) throw new Error('Crawler not initialized');
+
+    for (;;) {
+      // Cancel and pause requests take effect between pages
+      await this.control?.checkpoint();
+      await this.pacer.waitForTurn();
+      const response = await this.page.goto(url, { waitUntil: 'domcontentloaded' });
+
+      // LinkedIn can ask for a security check partway through a crawl too. Once the user has
+      // completed it, the page is loaded again with the refreshed session.
+      if (options.checkAuthWall !== false && this.page.url().includes('/challenge')) {
+        await this.handleSecurityChallenge();
+        await this.saveSession();
+        continue;
+      }
+
+      // Waiting doesn't get past a login wall, so stop and let a resumed crawl log in again
+      if (options.checkAuthWall !== false && AUTH_WALL_PATHS.some(path => this.page!.url().includes(path))) {
+        if (this.accountId) {
+          BrowserSessionStore.clearStoredSession(this.accountId);
+        }
+        throw new Error(`LinkedIn redirected to a login wall at ${url}. Resume the crawl to log in again.`);
+      }
+
+      const signal = await this.detectPushback(response?.status() ?? null);
+      if (!signal) {
+        this.pacer.recordSuccess();
+        return;
+      }
+
+      await this.pacer.backoff(signal, url);
+    }
+  }
+
+  private async detectPushback(status: number | null): Promise<PushbackSignal | null> {
+    if (!this.page) return null;
+
+    // LinkedIn answers scrapers with 999 as well as the standard 429
+    if (status === 429 || status === 999) {
+      return 'rate_limited';
+    }
+
+    const headings = await this.page.evaluate(() => [document.title, ...Array.from(document.querySelectorAll('h1, h2'), heading => heading.textContent || '')]
+      .join('\n').toLowerCase())
+      .catch(() => '');
+    if (UNUSUAL_ACTIVITY_PHRASES.some(phrase => headings.includes(phrase))) {
+      return 'unusual_activity';
+    }
+
+    return null;
+  }
+
+  private reportActivity(message: string, subject: { company?: string; person?: string }): void {
+    this.activityListener?.({ message, ...subject });
+  }
+
   private async wait(ms: number): Promise<void> {
-    await new Promise(resolve => setTimeout(resolve, ms));
+    // Saved fixtures are already fully rendered
+    if (this.replayMode) return;
+
+    // A cancelled crawl stops waiting; the next navigation throws
+    const signal = this.control?.signal;
+    if (signal?.aborted) return;
+    await new Promise<void>(resolve => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
 
   async close(): Promise<void> {
+    if (this.selectorHits.size > 0) {
+      const hits = this.getSelectorHits();
+      this.logger.info('selector', [
+        `Selector strategy hits (registry ${this.selectors.version}):`,
+        ...hits.map(hit => `  ${hit.field}: ${hit.strategy} x${hit.count}`)
+      ].join('\n'), { payload: { registryVersion: this.selectors.version, hits } });
+    }
+
     if (this.browser) {
+      // Persist refreshed cookies so the next crawl can skip the login form
+      if (this.isAuthenticated) {
+        await this.saveSession();
+      }
+
+      await this.saveTrace();
       await this.browser.close();
       this.browser = null;
+      this.context = null;
       this.page = null;
     }
   }
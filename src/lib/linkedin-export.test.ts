@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import zlib from 'zlib';
+import { InvalidExportError, parseConnectionsCsv, readConnectionsCsv } from './linkedin-export';
+
+const CSV = [
+  'Notes:',
+  '"When exporting your connection data, you may notice that some of the email addresses are missing."',
+  '',
+  'First Name,Last Name,URL,Email Address,Company,Position,Connected On',
+  'Jane,Doe,https://www.linkedin.com/in/janedoe,jane@example.com,"Acme, Inc.",Engineer,15 Mar 2021',
+].join('\n');
+
+// A single-entry deflated ZIP archive, as LinkedIn's export is laid out
+function zipWith(name: string, content: Buffer): Buffer {
+  const data = zlib.deflateRawSync(content);
+  const nameBytes = Buffer.from(name);
+
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(8, 8);
+  local.writeUInt32LE(data.length, 18);
+  local.writeUInt32LE(content.length, 22);
+  local.writeUInt16LE(nameBytes.length, 26);
+
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02014b50, 0);
+  central.writeUInt16LE(8, 10);
+  central.writeUInt32LE(data.length, 20);
+  central.writeUInt32LE(content.length, 24);
+  central.writeUInt16LE(nameBytes.length, 28);
+
+  const centralOffset = local.length + nameBytes.length + data.length;
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(1, 8);
+  end.writeUInt16LE(1, 10);
+  end.writeUInt32LE(central.length + nameBytes.length, 12);
+  end.writeUInt32LE(centralOffset, 16);
+
+  return Buffer.concat([local, nameBytes, data, central, nameBytes, end]);
+}
+
+describe('parseConnectionsCsv', () => {
+  it('reads connections after the notes preamble, leaving out email addresses', () => {
+    assert.deepEqual(parseConnectionsCsv(CSV), [{
+      firstName: 'Jane',
+      lastName: 'Doe',
+      profileUrl: 'https://www.linkedin.com/in/janedoe',
+      company: 'Acme, Inc.',
+      position: 'Engineer',
+      connectedOn: '2021-03-15'
+    }]);
+  });
+
+  it('rejects a CSV without the connections header', () => {
+    assert.throws(() => parseConnectionsCsv('Name,Title\nJane,Engineer'), InvalidExportError);
+  });
+});
+
+describe('readConnectionsCsv', () => {
+  it('extracts Connections.csv from the export ZIP', () => {
+    assert.equal(readConnectionsCsv(zipWith('Basic_LinkedInDataExport/Connections.csv', Buffer.from(CSV))), CSV);
+  });
+
+  it('refuses to inflate an entry past the size limit', () => {
+    const bomb = zipWith('Connections.csv', Buffer.alloc(60 * 1024 * 1024));
+    assert.throws(() => readConnectionsCsv(bomb), InvalidExportError);
+  });
+
+  it('rejects a truncated archive as an invalid export', () => {
+    const zip = zipWith('Connections.csv', Buffer.from(CSV));
+    const truncated = Buffer.concat([zip.subarray(0, 10), zip.subarray(zip.length - 22)]);
+    assert.throws(() => readConnectionsCsv(truncated), InvalidExportError);
+  });
+});
@@ -0,0 +1,262 @@
+import zlib from 'zlib';
+import { getDatabase } from './database';
+
+export interface ExportedConnection {
+  firstName: string;
+  lastName: string;
+  profileUrl: string;
+  company?: string;
+  position?: string;
+  connectedOn?: string; // YYYY-MM-DD
+}
+
+const MONTHS: Record<string, string> = {
+  jan: '01', feb: '02', mar: '03', apr: '04', may: '05', jun: '06',
+  jul: '07', aug: '08', sep: '09', oct: '10', nov: '11', dec: '12'
+};
+
+const EXPORT_SOURCE = 'LinkedIn data export';
+
+// Connections.csv is a few MB even for large networks; anything bigger isn't one
+const MAX_CSV_BYTES = 50 * 1024 * 1024;
+
+// The upload isn't a readable LinkedIn connections export
+export class InvalidExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidExportError';
+  }
+}
+
+// Creates a data_export crawl session from an uploaded Connections.csv or export ZIP,
+// populating 1st degree connections and their companies without any browser automation
+export function importLinkedInExport(file: Buffer, accountId: string): { sessionId: string; importedConnections: number } {
+  const db = getDatabase();
+  const connections = parseConnectionsCsv(readConnectionsCsv(file));
+
+  const sessionId = db.createCrawlSession({
+    mode: 'data_export',
+    status: 'running',
+    progress: 0,
+    totalConnections: connections.length,
+    processedConnections: 0,
+    accountId
+  });
+
+  try {
+    const importedConnections = db.transaction(() => {
+      const seenProfiles = new Set<string>();
+      let imported = 0;
+
+      for (const exported of connections) {
+        if (exported.profileUrl && seenProfiles.has(exported.profileUrl)) continue;
+        seenProfiles.add(exported.profileUrl);
+
+        const name = `${exported.firstName} ${exported.lastName}`.trim();
+        let companyId: string | null = null;
+        let companyUrl: string | undefined;
+
+        if (exported.company) {
+          // The export only has company names, so reuse a crawled company with the same name.
+          // Others are stored without a LinkedIn URL until a crawl finds the company.
+          const existingCompany = db.getCompanyByName(exported.company);
+          companyUrl = existingCompany?.linkedinUrl;
+          companyId = existingCompany?.id || db.createCompany({ name: exported.company });
+        }
+
+        const connectionId = db.createConnection({
+          crawlSessionId: sessionId,
+          name,
+          headline: exported.position || '',
+          profileUrl: exported.profileUrl,
+          connectionSource: EXPORT_SOURCE,
+          connectionDegree: 1,
+          company: exported.company,
+          companyUrl,
+          connectedOn: exported.connectedOn
+        });
+
+        if (companyId) {
+          db.createCompanyConnection({
+            companyId,
+            connectionId,
+            crawlSessionId: sessionId,
+            connectionPath: `You -> ${name}`
+          });
+        }
+
+        imported++;
+      }
+
+      return imported;
+    });
+
+    db.updateCrawlSession(sessionId, {
+      status: 'completed',
+      progress: 100,
+      processedConnections: importedConnections
+    });
+
+    return { sessionId, importedConnections };
+  } catch (error) {
+    db.updateCrawlSession(sessionId, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    throw error;
+  }
+}
+
+// Accepts either the raw Connections.csv or the full LinkedIn data export ZIP
+export function readConnectionsCsv(file: Buffer): string {
+  const isZip = file.length > 4 && file.readUInt32LE(0) === 0x04034b50;
+  if (!isZip) return file.toString('utf-8');
+
+  try {
+    return extractFileFromZip(file, /(^|\/)connections\.csv$/i);
+  } catch (error) {
+    // Offsets in a truncated or malformed archive point outside the buffer
+    if (error instanceof InvalidExportError) throw error;
+    throw new InvalidExportError('Invalid ZIP file');
+  }
+}
+
+export function parseConnectionsCsv(csv: string): ExportedConnection[] {
+  const rows = parseCsv(csv.replace(/^\uFEFF/, ''));
+
+  // The export starts with a "Notes:" preamble before the real header row
+  const headerIndex = rows.findIndex(row => row.includes('First Name') && row.includes('URL'));
+  if (headerIndex === -1) {
+    throw new InvalidExportError('Connections.csv header row not found. Is this a LinkedIn connections export?');
+  }
+
+  const header = rows[headerIndex];
+  const column = (row: string[], name: string) => {
+    const index = header.indexOf(name);
+    return index === -1 ? '' : (row[index] || '').trim();
+  };
+
+  return rows.slice(headerIndex + 1)
+    .filter(row => row.some(cell => cell.trim()))
+    .map(row => ({
+      firstName: column(row, 'First Name'),
+      lastName: column(row, 'Last Name'),
+      profileUrl: column(row, 'URL'),
+      company: column(row, 'Company') || undefined,
+      position: column(row, 'Position') || undefined,
+      connectedOn: parseConnectedOn(column(row, 'Connected On'))
+    }))
+    .filter(connection => connection.firstName || connection.lastName);
+}
+
+// "15 Mar 2021" -> "2021-03-15"
+function parseConnectedOn(value: string): string | undefined {
+  const match = value.match(/^(\d{1,2}) ([A-Za-z]{3}) (\d{4})$/);
+  if (!match) return value || undefined;
+
+  const month = MONTHS[match[2].toLowerCase()];
+  return month ? `${match[3]}-${month}-${match[1].padStart(2, '0')}` : value;
+}
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes and newlines inside quotes
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// Reads a single entry from a ZIP archive using its central directory. Supports the stored
+// and deflate methods LinkedIn's export uses (no ZIP64).
+function extractFileFromZip(zip: Buffer, namePattern: RegExp): string {
+  // End of central directory record is in the last 64KB (22 bytes + optional comment)
+  let eocd = -1;
+  for (let i = zip.length - 22; i >= Math.max(0, zip.length - 65557); i--) {
+    if (zip.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new InvalidExportError('Invalid ZIP file');
+  }
+
+  const entryCount = zip.readUInt16LE(eocd + 10);
+  let offset = zip.readUInt32LE(eocd + 16);
+
+  for (let i = 0; i < entryCount; i++) {
+    if (zip.readUInt32LE(offset) !== 0x02014b50) {
+      throw new InvalidExportError('Invalid ZIP central directory');
+    }
+
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localHeaderOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+    if (namePattern.test(name)) {
+      const localNameLength = zip.readUInt16LE(localHeaderOffset + 26);
+      const localExtraLength = zip.readUInt16LE(localHeaderOffset + 28);
+      const dataStart = localHeaderOffset + 30 + localNameLength + localExtraLength;
+      const data = zip.subarray(dataStart, dataStart + compressedSize);
+
+      if (method === 0) return data.toString('utf-8');
+      if (method === 8) return inflateCsv(data);
+      throw new InvalidExportError(`Unsupported ZIP compression method: ${method}`);
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  throw new InvalidExportError('Connections.csv not found in the ZIP archive');
+}
+
+// Caps the inflated size so a small, highly compressed upload can't exhaust memory
+function inflateCsv(data: Buffer): string {
+  try {
+    return zlib.inflateRawSync(data, { maxOutputLength: MAX_CSV_BYTES }).toString('utf-8');
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new InvalidExportError(`Connections.csv is larger than ${MAX_CSV_BYTES / 1024 / 1024} MB when unzipped`);
+    }
+    throw new InvalidExportError('Connections.csv in the ZIP archive is corrupt');
+  }
+}
@@ -0,0 +1,218 @@
+import { ChatCompletionClient, DEFAULT_MODEL } from './openai-client';
+
+// What the crawler reads off a page for the model: visible text plus the LinkedIn links on it
+export interface PageSnapshot {
+  url: string;
+  title: string;
+  text: string;
+  links: Array<{ href: string; text: string }>;
+}
+
+export interface LlmPerson {
+  name: string;
+  profileUrl: string;
+  headline: string;
+}
+
+export interface LlmCompany {
+  name: string;
+  linkedinUrl: string;
+  connectionInfo: string;
+  connections: Array<Pick<LlmPerson, 'name' | 'profileUrl'>>;
+}
+
+// Keeps the prompt well inside the model's context and the request cheap
+const MAX_TEXT_CHARS = 12000;
+const MAX_LINKS = 150;
+const MAX_NAME_LENGTH = 100;
+
+const PERSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    profileUrl: { type: 'string', description: 'A linkedin.com/in/ link copied from the page links' },
+    headline: { type: 'string', description: 'Job title or headline, empty if not shown' }
+  },
+  required: ['name', 'profileUrl', 'headline'],
+  additionalProperties: false
+} as const;
+
+const PEOPLE_SCHEMA = {
+  type: 'object',
+  properties: {
+    people: { type: 'array', items: PERSON_SCHEMA }
+  },
+  required: ['people'],
+  additionalProperties: false
+} as const;
+
+const COMPANIES_SCHEMA = {
+  type: 'object',
+  properties: {
+    companies: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          linkedinUrl: { type: 'string', description: 'A linkedin.com/company/ link copied from the page links' },
+          connectionInfo: { type: 'string', description: 'The result\'s connection summary, e.g. "3 connections work here"' },
+          connections: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: { name: { type: 'string' }, profileUrl: { type: 'string' } },
+              required: ['name', 'profileUrl'],
+              additionalProperties: false
+            }
+          }
+        },
+        required: ['name', 'linkedinUrl', 'connectionInfo', 'connections'],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ['companies'],
+  additionalProperties: false
+} as const;
+
+// Reads companies or people off a LinkedIn results page with an OpenAI chat model. Used
+// when none of the registered selector strategies match, e.g. after a LinkedIn redesign.
+export class LlmExtractor {
+  private client: ChatCompletionClient;
+  private model: string;
+
+  constructor(client: ChatCompletionClient, model = DEFAULT_MODEL) {
+    this.client = client;
+    this.model = model;
+  }
+
+  async extractCompanies(snapshot: PageSnapshot): Promise<LlmCompany[]> {
+    const { companies } = await this.complete(
+      'companies',
+      COMPANIES_SCHEMA,
+      'List every company search result on this LinkedIn page, with the people named as connections who work there.',
+      snapshot
+    ) as { companies?: unknown };
+
+    const pageLinks = linkSet(snapshot);
+    const seen = new Set<string>();
+
+    return asArray(companies).flatMap(company => {
+      const name = cleanText(company.name);
+      const linkedinUrl = matchPageLink(company.linkedinUrl, pageLinks, '/company/');
+      if (!name || !linkedinUrl || seen.has(linkedinUrl)) return [];
+      seen.add(linkedinUrl);
+
+      return [{
+        name,
+        linkedinUrl,
+        connectionInfo: cleanText(company.connectionInfo),
+        connections: validPeople(asArray(company.connections), pageLinks).map(({ name, profileUrl }) => ({ name, profileUrl }))
+      }];
+    });
+  }
+
+  async extractPeople(snapshot: PageSnapshot): Promise<LlmPerson[]> {
+    const { people } = await this.complete(
+      'people',
+      PEOPLE_SCHEMA,
+      'List every person result on this LinkedIn page.',
+      snapshot
+    ) as { people?: unknown };
+
+    return validPeople(asArray(people), linkSet(snapshot));
+  }
+
+  private async complete(name: string, schema: object, instruction: string, snapshot: PageSnapshot): Promise<Record<string, unknown>> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      temperature: 0,
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: `linkedin_${name}`, strict: true, schema: schema as Record<string, unknown> }
+      },
+      messages: [
+        {
+          role: 'system',
+          content: 'You extract structured data from the text of a LinkedIn page. Only use names and links that appear ' +
+            'on the page; never invent them. Copy URLs exactly from the links list. Return an empty list if there are no results.'
+        },
+        { role: 'user', content: `${instruction}\n\n${formatSnapshot(snapshot)}` }
+      ]
+    });
+
+    const content = completion.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error('OpenAI returned an empty response');
+    }
+
+    try {
+      const parsed = JSON.parse(content);
+      if (!parsed || typeof parsed !== 'object') throw new Error('not an object');
+      return parsed;
+    } catch {
+      throw new Error(`OpenAI returned invalid JSON: ${content.slice(0, 200)}`);
+    }
+  }
+}
+
+function formatSnapshot(snapshot: PageSnapshot): string {
+  const links = snapshot.links
+    .slice(0, MAX_LINKS)
+    .map(link => `- ${link.text || '(no text)'}: ${link.href}`)
+    .join('\n');
+
+  return [
+    `Page: ${snapshot.title} (${snapshot.url})`,
+    '',
+    'Links:',
+    links || '(none)',
+    '',
+    'Page text:',
+    snapshot.text.slice(0, MAX_TEXT_CHARS)
+  ].join('\n');
+}
+
+// Person results the model returned that point at a profile link actually on the page
+function validPeople(people: Array<Record<string, unknown>>, pageLinks: Map<string, string>): LlmPerson[] {
+  const seen = new Set<string>();
+
+  return people.flatMap(person => {
+    const name = cleanText(person.name);
+    const profileUrl = matchPageLink(person.profileUrl, pageLinks, '/in/');
+    if (!name || name.length > MAX_NAME_LENGTH || !profileUrl || seen.has(profileUrl)) return [];
+    seen.add(profileUrl);
+
+    return [{ name, profileUrl, headline: cleanText(person.headline) }];
+  });
+}
+
+// Normalized page link -> the href as it appeared, so model output is checked against the page
+function linkSet(snapshot: PageSnapshot): Map<string, string> {
+  return new Map(snapshot.links.map(link => [normalizeUrl(link.href), link.href]));
+}
+
+function matchPageLink(value: unknown, pageLinks: Map<string, string>, pathPrefix: string): string | null {
+  if (typeof value !== 'string') return null;
+
+  const href = pageLinks.get(normalizeUrl(value));
+  return href && new URL(href).pathname.startsWith(pathPrefix) ? href : null;
+}
+
+function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url, 'https://www.linkedin.com');
+    return `${parsed.hostname.replace(/^www\./, '')}${parsed.pathname.replace(/\/+$/, '')}`.toLowerCase();
+  } catch {
+    return url.toLowerCase();
+  }
+}
+
+function asArray(value: unknown): Array<Record<string, unknown>> {
+  return Array.isArray(value) ? value.filter(item => item && typeof item === 'object') : [];
+}
+
+function cleanText(value: unknown): string {
+  return typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : '';
+}
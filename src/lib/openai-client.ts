@@ -0,0 +1,11 @@
+import OpenAI from 'openai';
+
+// Only the part of the OpenAI client the app uses, so tests can pass a stub or an
+// OpenAI instance pointed at a mock endpoint (baseURL / OPENAI_BASE_URL)
+export type ChatCompletionClient = Pick<OpenAI, 'chat'>;
+
+export const DEFAULT_MODEL = 'gpt-4o-mini';
+
+export function createOpenAIClient(apiKey: string): ChatCompletionClient {
+  return new OpenAI({ apiKey });
+}
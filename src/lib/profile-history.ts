@@ -0,0 +1,110 @@
+import { Education, Position } from '@/types';
+
+// An entry as read off a profile details page: its visible text lines in order, plus the
+// lines of any roles grouped under it (several roles at one company)
+export interface RawProfileEntry {
+  lines: string[];
+  companyUrl?: string;
+  subEntries: Array<{ lines: string[] }>;
+}
+
+export type ParsedPosition = Omit<Position, 'id' | 'profileUrl' | 'crawlSessionId' | 'createdAt'>;
+export type ParsedEducation = Omit<Education, 'id' | 'profileUrl' | 'crawlSessionId' | 'createdAt'>;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+// "Jan 2020 - Present · 3 yrs 2 mos", "2014 - 2018"
+const DATE_RANGE = /^((?:[A-Za-z]{3,9}\s+)?\d{4})\s*[-–—]\s*((?:[A-Za-z]{3,9}\s+)?\d{4}|Present)\b/i;
+// "Full-time · 5 yrs 2 mos" under a company with grouped roles
+const DURATION_ONLY = /^(?:[\w-]+\s*·\s*)?(?:\d+\s+yrs?|\d+\s+mos?|less than a year)/i;
+
+// "Mar 2021" -> "2021-03", "2019" -> "2019"
+function toPartialDate(text: string): string | undefined {
+  const match = text.trim().match(/^(?:([A-Za-z]{3,9})\s+)?(\d{4})$/);
+  if (!match) return undefined;
+
+  const month = match[1] ? MONTHS.indexOf(match[1].slice(0, 3).toLowerCase()) : -1;
+  return month >= 0 ? `${match[2]}-${String(month + 1).padStart(2, '0')}` : match[2];
+}
+
+export function parseDateRange(text: string): { startDate?: string; endDate?: string; isCurrent: boolean } | null {
+  const match = text.trim().match(DATE_RANGE);
+  if (!match) return null;
+
+  const isCurrent = /present/i.test(match[2]);
+  return {
+    startDate: toPartialDate(match[1]),
+    endDate: isCurrent ? undefined : toPartialDate(match[2]),
+    isCurrent
+  };
+}
+
+// "Acme · Full-time" -> "Acme"
+const stripEmploymentType = (line: string) => line.split('·')[0].trim();
+
+// Title, dates and location from the lines of a single role
+function parseRole(lines: string[], companyName: string, companyUrl?: string): ParsedPosition | null {
+  const dateIndex = lines.findIndex(line => DATE_RANGE.test(line));
+  const title = lines[0];
+  if (!title || dateIndex <= 0) return null;
+
+  const location = lines[dateIndex + 1];
+  return {
+    companyName,
+    companyUrl,
+    title,
+    ...parseDateRange(lines[dateIndex])!,
+    location: location && !DATE_RANGE.test(location) && location.length < 100 ? stripEmploymentType(location) : undefined
+  };
+}
+
+export function parseExperienceEntries(entries: RawProfileEntry[]): ParsedPosition[] {
+  return entries.flatMap(entry => {
+    const [first, second] = entry.lines;
+    if (!first) return [];
+
+    // Several roles at one company: the entry names the company and each sub-entry is a role
+    const groupedRoles = entry.subEntries.filter(sub => sub.lines.some(line => DATE_RANGE.test(line)));
+    if (groupedRoles.length > 0 && (!second || DURATION_ONLY.test(second))) {
+      return groupedRoles
+        .map(role => parseRole(role.lines, first, entry.companyUrl))
+        .filter((role): role is ParsedPosition => role !== null);
+    }
+
+    // A single role: title, then "Company · Employment type", then the date range
+    const role = parseRole(entry.lines, second ? stripEmploymentType(second) : '', entry.companyUrl);
+    return role && role.companyName ? [role] : [];
+  });
+}
+
+export function parseEducationEntries(entries: RawProfileEntry[]): ParsedEducation[] {
+  return entries.flatMap(entry => {
+    const [school, degreeLine] = entry.lines;
+    if (!school) return [];
+
+    const dates = entry.lines.map(line => parseDateRange(line)).find(Boolean);
+    // "Bachelor of Science - BS, Computer Science"
+    const [degree, ...field] = degreeLine && !DATE_RANGE.test(degreeLine) ? degreeLine.split(', ') : [];
+
+    return [{
+      school,
+      degree: degree || undefined,
+      fieldOfStudy: field.join(', ') || undefined,
+      startDate: dates?.startDate,
+      endDate: dates?.endDate
+    }];
+  });
+}
+
+// "2021-03" -> "3 yrs 7 mos" as of now
+export function formatTenure(startDate: string, now = new Date()): string {
+  const [year, month = '1'] = startDate.split('-');
+  const months = (now.getFullYear() - Number(year)) * 12 + (now.getMonth() + 1 - Number(month));
+  if (months < 1) return 'less than a month';
+
+  const years = Math.floor(months / 12);
+  const remainder = months % 12;
+  return [
+    years > 0 ? `${years} yr${years !== 1 ? 's' : ''}` : '',
+    remainder > 0 ? `${remainder} mo${remainder !== 1 ? 's' : ''}` : ''
+  ].filter(Boolean).join(' ');
+}
@@ -0,0 +1,89 @@
+// Ways LinkedIn signals that we're going too fast. Empty result pages and login walls are
+// not among them: the first is the end of a result list, the second needs a new login.
+export type PushbackSignal = 'rate_limited' | 'unusual_activity';
+
+const SIGNAL_DESCRIPTIONS: Record<PushbackSignal, string> = {
+  rate_limited: 'LinkedIn rate limited our requests (HTTP 429/999)',
+  unusual_activity: 'LinkedIn showed its rate-limit interstitial',
+};
+
+// Random +/- spread applied to every delay so requests don't arrive on a fixed beat
+const JITTER_RATIO = 0.3;
+const BACKOFF_BASE_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 10 * 60 * 1000;
+// Upper bound on how far pushback stretches the normal delay between requests
+const MAX_SLOWDOWN = 8;
+// Pushbacks in a row (without a clean page in between) before the crawl gives up
+const MAX_CONSECUTIVE_PUSHBACKS = 5;
+
+export class CrawlThrottledError extends Error {
+  constructor(public readonly signal: PushbackSignal, attempts: number) {
+    super(
+      `Crawl stopped to protect your LinkedIn account: ${SIGNAL_DESCRIPTIONS[signal]} ${attempts} times in a row. ` +
+      'Wait a few hours before resuming.'
+    );
+    this.name = 'CrawlThrottledError';
+  }
+}
+
+interface RequestPacerOptions {
+  baseDelayMs: number;
+  sleep: (ms: number) => Promise<void>;
+  now?: () => number;
+  random?: () => number;
+  // Reports each backoff; prints a warning by default
+  onBackoff?: (message: string) => void;
+}
+
+// Spaces out navigations by the configured rate limit (with jitter) and backs off
+// exponentially when LinkedIn pushes back. Every clean page relaxes the pace again.
+export class RequestPacer {
+  private lastRequestAt = 0;
+  private slowdown = 1;
+  private consecutivePushbacks = 0;
+  private options: Required<RequestPacerOptions>;
+
+  constructor(options: RequestPacerOptions) {
+    this.options = { now: Date.now, random: Math.random, onBackoff: (message) => console.warn(message), ...options };
+  }
+
+  // Waits until enough time has passed since the previous navigation
+  async waitForTurn(): Promise<void> {
+    const delay = this.withJitter(this.options.baseDelayMs * this.slowdown);
+    const remaining = this.lastRequestAt + delay - this.options.now();
+
+    if (this.lastRequestAt > 0 && remaining > 0) {
+      await this.options.sleep(remaining);
+    }
+
+    this.lastRequestAt = this.options.now();
+  }
+
+  recordSuccess(): void {
+    this.consecutivePushbacks = 0;
+    this.slowdown = Math.max(1, this.slowdown * 0.75);
+  }
+
+  // Slows the crawl down and waits out an exponential backoff before the caller retries.
+  // Throws CrawlThrottledError once LinkedIn has pushed back too many times in a row.
+  async backoff(signal: PushbackSignal, url: string): Promise<void> {
+    this.consecutivePushbacks++;
+
+    if (this.consecutivePushbacks >= MAX_CONSECUTIVE_PUSHBACKS) {
+      throw new CrawlThrottledError(signal, this.consecutivePushbacks);
+    }
+
+    this.slowdown = Math.min(this.slowdown * 2, MAX_SLOWDOWN);
+    const delay = this.withJitter(Math.min(BACKOFF_BASE_MS * 2 ** (this.consecutivePushbacks - 1), MAX_BACKOFF_MS));
+
+    const message = `${SIGNAL_DESCRIPTIONS[signal]} at ${url}. Backing off for ${Math.round(delay / 1000)}s ` +
+      `(attempt ${this.consecutivePushbacks}/${MAX_CONSECUTIVE_PUSHBACKS - 1}, now pacing at ${this.slowdown}x the rate limit)`;
+    this.options.onBackoff(message);
+
+    await this.options.sleep(delay);
+  }
+
+  private withJitter(ms: number): number {
+    return Math.round(ms * (1 + (this.options.random() * 2 - 1) * JITTER_RATIO));
+  }
+}
@@ -0,0 +1,211 @@
+import path from 'path';
+import fs from 'fs';
+import { SelectorRegistry, SelectorStrategy } from '@/types';
+
+const OVERRIDE_PATH = path.join(process.cwd(), 'data', 'selectors.json');
+
+// Bump when the default strategies change so crawl logs show which set was used
+export const DEFAULT_SELECTORS: SelectorRegistry = {
+  version: '2025.08.4',
+  companySearch: {
+    card: [
+      { name: 'data-test-result-container', selector: '[data-test-result-container]' },
+      { name: 'reusable-search-container', selector: '.reusable-search__result-container' },
+      { name: 'search-result-wrapper', selector: '.search-result__wrapper' },
+      { name: 'entity-result', selector: '.entity-result' },
+      { name: 'chameleon-result-urn', selector: '[data-chameleon-result-urn]' },
+      { name: 'li-data-row', selector: 'li[data-row]' },
+      { name: 'search-results-li', selector: '.search-results li' },
+      { name: 'org-company-card', selector: '.org-company-card' },
+      { name: 'search-results-list-li', selector: '.search-results__list li' },
+      { name: 'control-name-srp-result', selector: '[data-control-name="search_srp_result"]' },
+      { name: 'app-aware-link', selector: '.app-aware-link' },
+      { name: 'view-name-entity-result', selector: 'div[data-view-name="search-entity-result"]' },
+      { name: 'artdeco-entity-lockup', selector: '.artdeco-entity-lockup' },
+      { name: 'org-top-card-entities', selector: '.org-top-card-primary-content__entities li' },
+      { name: 'li-reusable-search-container', selector: 'li.reusable-search__result-container' },
+    ],
+    titleLink: [
+      { name: 'app-aware-link', selector: 'a[data-test-app-aware-link]' },
+    ],
+    nameInLink: [
+      { name: 'aria-hidden-span', selector: 'span[aria-hidden="true"]' },
+      { name: 'visible-span', selector: 'span:not([aria-hidden="false"])' },
+      { name: 'entity-title-span', selector: '.entity-result__title-text span' },
+      { name: 'anonymized-company-name', selector: '[data-anonymize="company-name"]' },
+      { name: 'any-span', selector: 'span' },
+      { name: 'any-child', selector: '*' },
+    ],
+    description: [
+      { name: 'entity-subtitle', selector: '[data-test-entity-subtitle]' },
+      { name: 'entity-summary', selector: '.entity-result__summary' },
+      { name: 'subline-level-1', selector: '.search-result__info .subline-level-1' },
+      { name: 't-14', selector: '.t-14' },
+      { name: 't-black-light', selector: '.t-black--light' },
+      { name: 'paragraph', selector: 'p' },
+      { name: 'entity-content-paragraph', selector: '.entity-result__content p' },
+    ],
+    connectionInfo: [
+      { name: 'entity-context', selector: '[data-test-entity-context]' },
+      { name: 'entity-result-context', selector: '.entity-result__context' },
+      { name: 'subline-level-2', selector: '.search-result__info .subline-level-2' },
+      { name: 'entity-content-t-12', selector: '.entity-result__content .t-12' },
+      { name: 'entity-content-t-black-light', selector: '.entity-result__content .t-black--light' },
+      { name: 't-12', selector: '.t-12' },
+      { name: 't-black-light', selector: '.t-black--light' },
+      { name: 'aria-visible-span', selector: 'span[aria-hidden="false"]' },
+      { name: 'entity-content-span', selector: '.entity-result__content span:not([aria-hidden="true"])' },
+    ],
+  },
+  peopleSearch: {
+    card: [
+      { name: 'reusable-search-container', selector: '.reusable-search__result-container' },
+      { name: 'data-test-result-container', selector: '[data-test-result-container]' },
+      { name: 'entity-result', selector: '.entity-result' },
+      { name: 'search-result-wrapper', selector: '.search-result__wrapper' },
+      { name: 'chameleon-result-urn', selector: '[data-chameleon-result-urn]' },
+    ],
+    name: [
+      { name: 'aria-hidden-span', selector: 'span[aria-hidden="true"]' },
+      { name: 'entity-title-span', selector: '.entity-result__title-text span' },
+      { name: 'actor-name', selector: '.actor-name' },
+      { name: 'result-text-h3-span', selector: '.search-result__result-text h3 span' },
+      { name: 'h3-span', selector: 'h3 > span' },
+      { name: 'result-lockup-name', selector: '.result-lockup__name' },
+      { name: 'anonymized-person-name', selector: '[data-anonymize="person-name"]' },
+    ],
+  },
+  memberCard: {
+    card: [
+      { name: 'data-test-member-card', selector: '[data-test-member-card]' },
+      { name: 'connection-card', selector: '.mn-connection-card' },
+    ],
+    name: [
+      { name: 'link-aria-hidden-span', selector: 'a span[aria-hidden="true"]' },
+      { name: 'connection-card-name', selector: '.mn-connection-card__name' },
+    ],
+    link: [
+      { name: 'first-link', selector: 'a' },
+    ],
+    headline: [
+      { name: 'data-test-member-headline', selector: '[data-test-member-headline]' },
+      { name: 'connection-card-occupation', selector: '.mn-connection-card__occupation' },
+    ],
+  },
+  profile: {
+    experienceItem: [
+      { name: 'data-test-experience-item', selector: '[data-test-experience-item]' },
+      { name: 'experience-section-item', selector: '#experience ~ .pvs-list__outer-container li.artdeco-list__item' },
+    ],
+    experienceCompanyName: [
+      { name: 'link-aria-hidden-span', selector: 'a span[aria-hidden="true"]' },
+    ],
+    experienceCompanyLink: [
+      { name: 'company-link', selector: 'a[href*="/company/"]' },
+      { name: 'first-link', selector: 'a' },
+    ],
+    connectionsLink: [
+      { name: 'connection-of-link', selector: 'a[href*="connectionOf"]' },
+    ],
+  },
+  profileDetails: {
+    item: [
+      { name: 'pvs-paged-list-item', selector: 'main li.pvs-list__paged-list-item' },
+      { name: 'artdeco-list-item', selector: 'main .pvs-list > li.artdeco-list__item' },
+    ],
+    subItem: [
+      { name: 'pvs-sub-components-li', selector: '.pvs-entity__sub-components li' },
+    ],
+    text: [
+      { name: 'aria-hidden-span', selector: 'span[aria-hidden="true"]' },
+      { name: 'visually-hidden-span', selector: 'span.visually-hidden' },
+    ],
+    companyLink: [
+      { name: 'company-link', selector: 'a[href*="/company/"]' },
+    ],
+  },
+  companyAbout: {
+    details: [
+      { name: 'about-overview-dl', selector: 'section.org-about-module__margin-bottom dl, .org-page-details-module__card-spacing dl' },
+      { name: 'main-dl', selector: 'main dl' },
+    ],
+    topCardItem: [
+      { name: 'top-card-info-item', selector: '.org-top-card-summary-info-list__info-item' },
+      { name: 'top-card-summary-item', selector: '.org-top-card-summary__info-item' },
+    ],
+  },
+  companyPage: {
+    profileLink: [
+      { name: 'profile-link', selector: 'a[href*="/in/"]' },
+    ],
+    jobsLink: [
+      { name: 'company-filter-link', selector: 'a[href*="f_C="]' },
+    ],
+    websiteLink: [
+      { name: 'visit-website-control', selector: 'a[data-control-name="visit_company_website"]' },
+      { name: 'top-card-external-link', selector: '.org-top-card-primary-actions__inner a[href^="http"]:not([href*="linkedin.com"])' },
+    ],
+  },
+  jobSearch: {
+    card: [
+      { name: 'occludable-job-id', selector: 'li[data-occludable-job-id]' },
+      { name: 'job-card-container', selector: '.job-card-container' },
+      { name: 'jobs-search-results-item', selector: '.jobs-search-results__list-item' },
+      { name: 'base-card', selector: '.base-card' },
+    ],
+    title: [
+      { name: 'job-card-list-title', selector: '.job-card-list__title' },
+      { name: 'job-card-link-strong', selector: 'a.job-card-container__link strong' },
+      { name: 'base-search-card-title', selector: '.base-search-card__title' },
+    ],
+    link: [
+      { name: 'jobs-view-link', selector: 'a[href*="/jobs/view/"]' },
+    ],
+    location: [
+      { name: 'metadata-item', selector: '.job-card-container__metadata-item' },
+      { name: 'metadata-wrapper-li', selector: '.job-card-container__metadata-wrapper li' },
+      { name: 'job-search-card-location', selector: '.job-search-card__location' },
+    ],
+    postedDate: [
+      { name: 'time-datetime', selector: 'time[datetime]' },
+    ],
+  },
+};
+
+type RegistryOverride = Partial<{
+  [Entity in keyof Omit<SelectorRegistry, 'version'>]: Partial<Record<keyof SelectorRegistry[Entity], SelectorStrategy[]>>;
+}> & { version?: string };
+
+// Loads the registry, applying data/selectors.json on top of the defaults. Fields present in
+// the override replace the default strategy list for that field. Read on every call so
+// selector hot-fixes apply to the next crawl without a restart.
+export function loadSelectorRegistry(): SelectorRegistry {
+  if (!fs.existsSync(OVERRIDE_PATH)) {
+    return DEFAULT_SELECTORS;
+  }
+
+  try {
+    const override = JSON.parse(fs.readFileSync(OVERRIDE_PATH, 'utf-8')) as RegistryOverride;
+    const registry = structuredClone(DEFAULT_SELECTORS);
+
+    for (const entity of Object.keys(override) as Array<keyof RegistryOverride>) {
+      if (entity === 'version' || !(entity in registry)) continue;
+
+      const fields = override[entity] as Record<string, SelectorStrategy[]>;
+      const target = registry[entity] as Record<string, SelectorStrategy[]>;
+      for (const [field, strategies] of Object.entries(fields)) {
+        if (field in target && Array.isArray(strategies)) {
+          target[field] = strategies.filter(s => s && typeof s.name === 'string' && typeof s.selector === 'string');
+        } else {
+          console.warn(`Ignoring unknown selector override field: ${entity}.${field}`);
+        }
+      }
+    }
+
+    registry.version = `${DEFAULT_SELECTORS.version}+${override.version || 'override'}`;
+    return registry;
+  } catch (error) {
+    console.error(`Failed to load selector overrides from ${OVERRIDE_PATH}, using defaults:`, error);
+    return DEFAULT_SELECTORS;
+  }
+}
@@ -0,0 +1,111 @@
+import { CompanyPath, Connection, DiffCompany, DiffPerson, JobChange, SessionDiff } from '@/types';
+
+// What a session found, as compared against another session
+export interface SessionSnapshot {
+  sessionId: string;
+  connections: Connection[];
+  companyPaths: CompanyPath[];
+}
+
+// Profile URLs differ between crawls in trailing slashes, query strings and case
+export function normalizeProfileUrl(url: string): string {
+  try {
+    const parsed = new URL(url, 'https://www.linkedin.com');
+    return `${parsed.hostname.replace(/^www\./, '')}${parsed.pathname.replace(/\/+$/, '')}`.toLowerCase();
+  } catch {
+    return url.trim().toLowerCase();
+  }
+}
+
+const normalizeCompany = (company?: string) => company?.replace(/\s+/g, ' ').trim().toLowerCase() || '';
+
+function groupCompanies(paths: CompanyPath[]): Map<string, DiffCompany> {
+  const companies = new Map<string, DiffCompany>();
+
+  for (const path of paths) {
+    // Companies from the LinkedIn data export have no LinkedIn URL, only a name
+    const key = path.companyLinkedInUrl?.toLowerCase() || `name:${normalizeCompany(path.companyName)}`;
+    if (!companies.has(key)) {
+      companies.set(key, {
+        id: path.companyId,
+        name: path.companyName,
+        linkedinUrl: path.companyLinkedInUrl,
+        logoUrl: path.companyLogoUrl ?? undefined,
+        paths: []
+      });
+    }
+    companies.get(key)!.paths.push({
+      name: path.connectionName,
+      profileUrl: path.connectionProfileUrl,
+      connectionPath: path.connectionPath
+    });
+  }
+
+  return companies;
+}
+
+// One entry per person. A person can be stored more than once in a session (e.g. found at
+// two companies); the first row with a company wins.
+function groupPeople(connections: Connection[]): Map<string, Connection> {
+  const people = new Map<string, Connection>();
+
+  for (const connection of connections) {
+    const key = normalizeProfileUrl(connection.profileUrl);
+    const existing = people.get(key);
+    if (!existing || (!existing.company && connection.company)) {
+      people.set(key, connection);
+    }
+  }
+
+  return people;
+}
+
+function toDiffPerson(connection: Connection): DiffPerson {
+  return {
+    name: connection.name,
+    profileUrl: connection.profileUrl,
+    headline: connection.headline || undefined,
+    profileImageUrl: connection.profileImageUrl ?? undefined,
+    company: connection.company ?? undefined,
+    connectionDegree: connection.connectionDegree
+  };
+}
+
+const byName = <T extends { name: string }>(a: T, b: T) => a.name.localeCompare(b.name);
+
+// Compares a session against an earlier one: companies we can newly reach or lost every path
+// into, people who weren't there before, and people now listed at a different company
+export function diffSessions(current: SessionSnapshot, against: SessionSnapshot): SessionDiff {
+  const currentCompanies = groupCompanies(current.companyPaths);
+  const previousCompanies = groupCompanies(against.companyPaths);
+  const currentPeople = groupPeople(current.connections);
+  const previousPeople = groupPeople(against.connections);
+
+  const newPeople: DiffPerson[] = [];
+  const jobChanges: JobChange[] = [];
+
+  currentPeople.forEach((person, key) => {
+    const previous = previousPeople.get(key);
+    if (!previous) {
+      newPeople.push(toDiffPerson(person));
+    } else if (person.company && previous.company && normalizeCompany(person.company) !== normalizeCompany(previous.company)) {
+      // Only counted when both companies are known; a missing one is more likely a failed extraction
+      jobChanges.push({ ...toDiffPerson(person), previousCompany: previous.company });
+    }
+  });
+
+  return {
+    sessionId: current.sessionId,
+    againstSessionId: against.sessionId,
+    newCompanies: Array.from(currentCompanies.entries())
+      .filter(([key]) => !previousCompanies.has(key))
+      .map(([, company]) => company)
+      .sort(byName),
+    lostCompanies: Array.from(previousCompanies.entries())
+      .filter(([key]) => !currentCompanies.has(key))
+      .map(([, company]) => company)
+      .sort(byName),
+    newPeople: newPeople.sort(byName),
+    jobChanges: jobChanges.sort(byName)
+  };
+}
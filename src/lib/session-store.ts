@@ -0,0 +1,53 @@
+import path from 'path';
+import fs from 'fs';
+import crypto from 'crypto';
+import { normalizeAccountId } from './database';
+
+const SESSIONS_DIR = path.join(process.cwd(), 'data', 'browser-sessions');
+
+// Persists Playwright storage state (cookies/localStorage) per LinkedIn account so
+// crawls can reuse an authenticated session instead of logging in every run.
+export class BrowserSessionStore {
+  // Files are named by a hash of the account id: unlike replacing its punctuation, no two
+  // emails share a file name
+  static getStorageStatePath(accountId: string): string {
+    const hash = crypto.createHash('sha256').update(normalizeAccountId(accountId)).digest('hex');
+    return path.join(SESSIONS_DIR, `${hash}.json`);
+  }
+
+  static hasStoredSession(accountId: string): boolean {
+    this.migrateLegacySession(accountId);
+    return fs.existsSync(this.getStorageStatePath(accountId));
+  }
+
+  static ensureSessionsDir(): void {
+    if (!fs.existsSync(SESSIONS_DIR)) {
+      fs.mkdirSync(SESSIONS_DIR, { recursive: true });
+    }
+  }
+
+  static clearStoredSession(accountId: string): void {
+    for (const statePath of [this.getStorageStatePath(accountId), this.getLegacyStorageStatePath(accountId)]) {
+      if (fs.existsSync(statePath)) {
+        fs.unlinkSync(statePath);
+      }
+    }
+  }
+
+  // Sessions used to be saved as e.g. jane_doe_example_com.json, which jane.doe@example.com and
+  // jane-doe@example.com both map to
+  private static getLegacyStorageStatePath(accountId: string): string {
+    const safeId = accountId.toLowerCase().replace(/[^a-z0-9]+/g, '_');
+    return path.join(SESSIONS_DIR, `${safeId}.json`);
+  }
+
+  // Moves a session saved under the old file name to the new one the first time the account
+  // looks for it
+  private static migrateLegacySession(accountId: string): void {
+    const legacyPath = this.getLegacyStorageStatePath(accountId);
+    const statePath = this.getStorageStatePath(accountId);
+    if (fs.existsSync(legacyPath) && !fs.existsSync(statePath)) {
+      fs.renameSync(legacyPath, statePath);
+    }
+  }
+}
@@ -1,16 +1,26 @@
-import { LinkedInCredentials, OpenAIConfig, CrawlSettings } from '@/types';
+import { LinkedInCredentials, OpenAIConfig, SkillProfile } from '@/types';
 
+const ACTIVE_ACCOUNT_KEY = 'linkedin-networker-active-account';
+const SKILL_PROFILE_KEY = 'linkedin-networker-skill-profile';
+// Where credentials were kept before the server-side vault; only read to move them into it
 const LINKEDIN_CREDENTIALS_KEY = 'linkedin-networker-credentials';
 const OPENAI_CONFIG_KEY = 'linkedin-networker-openai';
-const CRAWL_SETTINGS_KEY = 'linkedin-networker-settings';
 
 export class StorageManager {
-  static saveLinkedInCredentials(credentials: LinkedInCredentials): void {
+  // The account picked in the header; just the id, the password stays in the vault
+  static saveActiveAccountId(accountId: string): void {
     if (typeof window !== 'undefined') {
-      localStorage.setItem(LINKEDIN_CREDENTIALS_KEY, JSON.stringify(credentials));
+      localStorage.setItem(ACTIVE_ACCOUNT_KEY, accountId);
     }
   }
 
+  static getActiveAccountId(): string | null {
+    if (typeof window !== 'undefined') {
+      return localStorage.getItem(ACTIVE_ACCOUNT_KEY);
+    }
+    return null;
+  }
+
   static getLinkedInCredentials(): LinkedInCredentials | null {
     if (typeof window !== 'undefined') {
       const stored = localStorage.getItem(LINKEDIN_CREDENTIALS_KEY);
@@ -25,12 +35,6 @@ export class StorageManager {
     }
   }
 
-  static saveOpenAIConfig(config: OpenAIConfig): void {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem(OPENAI_CONFIG_KEY, JSON.stringify(config));
-    }
-  }
-
   static getOpenAIConfig(): OpenAIConfig | null {
     if (typeof window !== 'undefined') {
       const stored = localStorage.getItem(OPENAI_CONFIG_KEY);
@@ -45,23 +49,19 @@ export class StorageManager {
     }
   }
 
-  static saveCrawlSettings(settings: CrawlSettings): void {
+  // Each account has its own skill profile
+  static saveSkillProfile(accountId: string, profile: SkillProfile): void {
     if (typeof window !== 'undefined') {
-      localStorage.setItem(CRAWL_SETTINGS_KEY, JSON.stringify(settings));
+      localStorage.setItem(`${SKILL_PROFILE_KEY}:${accountId}`, JSON.stringify(profile));
     }
   }
 
-  static getCrawlSettings(): CrawlSettings {
+  // Accounts without their own start from the profile saved before there were accounts
+  static getSkillProfile(accountId: string): SkillProfile | null {
     if (typeof window !== 'undefined') {
-      const stored = localStorage.getItem(CRAWL_SETTINGS_KEY);
-      return stored ? JSON.parse(stored) : {
-        rateLimit: 2500,
-        headless: true
-      };
+      const stored = localStorage.getItem(`${SKILL_PROFILE_KEY}:${accountId}`) ?? localStorage.getItem(SKILL_PROFILE_KEY);
+      return stored ? JSON.parse(stored) : null;
     }
-    return {
-      rateLimit: 2500,
-      headless: true
-    };
+    return null;
   }
 }
\ No newline at end of file
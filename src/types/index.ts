@@ -7,17 +7,141 @@ export interface OpenAIConfig {
   apiKey: string;
 }
 
+// A LinkedIn account whose network is crawled in this workspace. Its password, if saved, is
+// in the credential vault under the same id.
+export interface Account {
+  id: string; // LinkedIn email, lowercased
+  name?: string; // shown in place of "You" in connection paths
+  createdAt: string;
+}
+
+// What the browser may know about the credential vault; the secrets never leave the server
+export interface CredentialVaultStatus {
+  exists: boolean;
+  unlocked: boolean;
+  accounts: string[]; // account ids (LinkedIn emails) with a saved password
+  hasOpenAIKey: boolean;
+}
+
 export interface CrawlSession {
   id: string;
   createdAt: string;
-  mode: 'first_connections' | 'friends_of_friends';
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  mode: 'first_connections' | 'friends_of_friends' | 'data_export' | 'jobs' | 'profile_enrichment';
+  status: 'pending' | 'running' | 'waiting_for_user' | 'paused' | 'completed' | 'failed' | 'cancelled' | 'interrupted'; // interrupted: the server stopped mid-crawl
   progress: number;
   totalConnections?: number;
   processedConnections?: number;
+  sourceSessionId?: string; // jobs / profile_enrichment modes: the session whose companies or connections are used
+  scheduleId?: string; // set when the session was started by a crawl schedule
+  accountId?: string; // the account whose network was crawled; unset only for sessions from before accounts
   error?: string;
+  settings?: CrawlSettings; // snapshot of the settings the latest run used
+}
+
+// A crawl waiting for or holding a browser in the crawl queue. Credentials are never stored
+// here; the worker reads them from the credential vault when it picks the crawl up.
+export interface QueuedCrawl {
+  id: string;
+  crawlSessionId: string;
+  accountId: string; // LinkedIn email; only one crawl per account runs at a time
+  status: 'queued' | 'running' | 'done';
+  settings: CrawlSettings;
+  resume: boolean;
+  attempts: number;
+  leaseOwner?: string; // worker holding the crawl, renewed by its heartbeat
+  leaseExpiresAt?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+// One update on a session's live progress stream (/api/crawl/sessions/[id]/stream)
+export interface CrawlProgressEvent {
+  type: 'progress' | 'status' | 'activity' | 'warning';
+  message: string;
+  timestamp: string;
+  progress?: number;
+  status?: CrawlSession['status'];
+  company?: string; // activity: the company being crawled
+  person?: string; // activity: the person (or profile URL) being crawled
+}
+
+export type CrawlEventLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type CrawlEventType =
+  | 'crawl' // start, finish and checkpoints
+  | 'login'
+  | 'navigation'
+  | 'pacing' // rate limiting and backoff
+  | 'selector' // selector strategies and extraction debug output
+  | 'llm'
+  | 'fixture'
+  | 'artifact' // failure screenshots, HTML and traces
+  | 'company'
+  | 'connection'
+  | 'job'
+  | 'profile';
+
+// A line of a session's crawl log (crawl_events), kept after the crawl for troubleshooting
+export interface CrawlEvent {
+  id: string;
+  crawlSessionId: string;
+  level: CrawlEventLevel;
+  type: CrawlEventType;
+  message: string;
+  url?: string;
+  payload?: Record<string, unknown>;
+  createdAt: string;
+}
+
+// A file saved under data/artifacts/<sessionId>/ for troubleshooting a crawl
+export interface CrawlArtifact {
+  file: string;
+  kind: 'screenshot' | 'html' | 'trace';
+  size: number;
+  createdAt: string;
+}
+
+export type ScheduledCrawlMode = Exclude<CrawlSession['mode'], 'data_export'>;
+
+// A crawl the server starts on its own at the times given by a cron expression
+export interface CrawlSchedule {
+  id: string;
+  name: string;
+  mode: ScheduledCrawlMode;
+  cron: string; // e.g. "0 9 * * 1" for Mondays at 9:00 (server time)
+  accountId: string; // LinkedIn email whose saved browser session the run reuses
+  settings: CrawlSettings; // server-side crawls can't read the browser's saved settings
+  enabled: boolean;
+  nextRunAt?: string;
+  lastRunAt?: string;
+  lastRunResult?: 'started' | 'skipped' | 'failed';
+  lastRunMessage?: string;
+  createdAt: string;
+}
+
+// A schedule as listed in the UI, with its next few run times and most recent sessions
+export interface CrawlScheduleSummary extends CrawlSchedule {
+  upcomingRuns: string[];
+  recentRuns: CrawlSession[];
 }
 
+export interface SecurityChallenge {
+  type: 'verification_code' | 'manual'; // manual: user completes the check in a headed browser
+  url: string;
+  message: string;
+  headless: boolean;
+}
+
+export type ChallengeResponse =
+  | { action: 'submit_code'; code: string }
+  | { action: 'open_browser' }
+  | { action: 'resolved' };
+
+// How a record was read off the page: the selector registry, or the LLM fallback when
+// no selector strategy matched
+export type ExtractionMethod = 'selector' | 'llm';
+
 export interface Connection {
   id: string;
   crawlSessionId: string;
@@ -32,19 +156,56 @@ export interface Connection {
   connectionDegree: 1 | 2;
   mutualConnection?: string;
   location?: string;
+  connectedOn?: string; // YYYY-MM-DD, from the LinkedIn data export
+  extractionMethod?: ExtractionMethod;
   createdAt: string;
 }
 
 export interface Company {
   id: string;
   name: string;
-  linkedinUrl: string;
+  linkedinUrl?: string; // missing for companies only known by name, e.g. from the LinkedIn data export
   logoUrl?: string;
   description?: string;
   industry?: string;
   size?: string;
   location?: string;
   website?: string;
+  headcount?: number; // employees on LinkedIn ("associated members")
+  headquarters?: string;
+  followerCount?: number;
+  detailsUpdatedAt?: string; // when the About page details were last read
+  atsProvider?: AtsProvider; // job board detected for the company, cached between crawls
+  atsSlug?: string;
+  extractionMethod?: ExtractionMethod;
+  createdAt: string;
+}
+
+// One role from a person's experience history, captured by a profile enrichment crawl.
+// Keyed by profile URL so every session showing the person can use it.
+export interface Position {
+  id: string;
+  profileUrl: string;
+  crawlSessionId: string;
+  companyName: string;
+  companyUrl?: string;
+  title: string;
+  startDate?: string; // YYYY-MM, or YYYY when LinkedIn only shows the year
+  endDate?: string;
+  isCurrent: boolean;
+  location?: string;
+  createdAt: string;
+}
+
+export interface Education {
+  id: string;
+  profileUrl: string;
+  crawlSessionId: string;
+  school: string;
+  degree?: string;
+  fieldOfStudy?: string;
+  startDate?: string;
+  endDate?: string;
   createdAt: string;
 }
 
@@ -53,12 +214,176 @@ export interface CompanyConnection {
   companyId: string;
   connectionId: string;
   crawlSessionId: string;
-  connectionPath: string; // e.g., "You -> John Smith" or "You -> Jane Doe -> John Smith"
+  connectionPath: string; // e.g., "You -> John Smith" or "You -> Jane Doe -> John Smith"; reads put the account owner in place of "You"
   createdAt: string;
 }
 
+// A company_connections row with its company and person, as compared between sessions
+export interface CompanyPath {
+  companyId: string;
+  companyName: string;
+  companyLinkedInUrl?: string;
+  companyLogoUrl?: string;
+  connectionName: string;
+  connectionProfileUrl: string;
+  connectionPath: string;
+}
+
+// A company reached in a session, with the people who connect us to it
+export interface DiffCompany {
+  id: string;
+  name: string;
+  linkedinUrl?: string;
+  logoUrl?: string;
+  paths: Array<{ name: string; profileUrl: string; connectionPath: string }>;
+}
+
+export interface DiffPerson {
+  name: string;
+  profileUrl: string;
+  headline?: string;
+  profileImageUrl?: string;
+  company?: string;
+  connectionDegree: 1 | 2;
+}
+
+export interface JobChange extends DiffPerson {
+  previousCompany: string;
+}
+
+// What changed in the network between an earlier session and a later one of the same mode
+export interface SessionDiff {
+  sessionId: string;
+  againstSessionId: string;
+  newCompanies: DiffCompany[]; // reachable now but not before
+  lostCompanies: DiffCompany[]; // reachable before but no longer
+  newPeople: DiffPerson[];
+  jobChanges: JobChange[]; // in both sessions, at a different company
+}
+
+export type AtsProvider = 'greenhouse' | 'lever' | 'ashby' | 'workable';
+export type JobSource = 'linkedin' | AtsProvider;
+
+export interface Job {
+  id: string;
+  crawlSessionId: string;
+  companyId: string;
+  source: JobSource;
+  externalId?: string; // the posting's ID on its source
+  title: string;
+  location?: string;
+  isRemote: boolean;
+  postedAt?: string; // YYYY-MM-DD
+  url: string;
+  createdAt: string;
+}
+
+// A job as listed for a session, with its company and AI score (when scored)
+export interface SessionJob extends Job {
+  companyName: string;
+  companyLinkedInUrl?: string;
+  companyLogoUrl?: string;
+  score?: number;
+  matchedSkills?: string[];
+  rationale?: string;
+}
+
+export interface SkillProfile {
+  skills: string[]; // e.g. ["React", "TypeScript", "Node.js", "GraphQL"]
+  remoteOnly: boolean;
+  notes?: string; // anything else the scorer should weigh, e.g. seniority or industries
+}
+
+export interface JobScore {
+  jobId: string;
+  score: number; // 0-100
+  matchedSkills: string[];
+  rationale: string;
+  model: string;
+  scoredAt: string;
+}
+
+export interface CrawlCheckpoint {
+  crawlSessionId: string;
+  currentPage: number; // search results page to resume from (1st Connections crawls)
+  currentOffset: number;
+  completedCompanies: string[]; // LinkedIn company URLs (or company ids for Job Postings) already processed
+  completedConnections: string[]; // profile URLs (or "friend -> person" keys) already processed
+  updatedAt: string;
+}
+
 export interface CrawlSettings {
   rateLimit: number; // milliseconds between requests
   maxConnections?: number;
+  maxSecondDegreePerConnection?: number; // friends of friends mode: connections analyzed per friend
+  maxPages?: number; // search result pages followed per search
+  maxJobsPerCompany?: number; // jobs mode: open roles collected per company
+  maxEnrichedProfiles?: number; // profile enrichment mode: profiles visited per session
+  captureFixtures?: boolean; // save extracted pages' HTML to data/fixtures for offline replay
+  llmFallback?: boolean; // read results with the OpenAI model when no selector matches
+  enrichCompanies?: boolean; // read each company's About page for industry, size and HQ (on unless false)
+  companyRefreshDays?: number; // re-read company details older than this
   headless: boolean;
-}
\ No newline at end of file
+}
+
+export interface SelectorStrategy {
+  name: string; // stable identifier recorded when this strategy matches
+  selector: string;
+}
+
+// Named selector strategies per extracted field, tried in order
+export interface SelectorRegistry {
+  version: string;
+  companySearch: {
+    card: SelectorStrategy[];
+    titleLink: SelectorStrategy[];
+    nameInLink: SelectorStrategy[];
+    description: SelectorStrategy[];
+    connectionInfo: SelectorStrategy[];
+  };
+  peopleSearch: {
+    card: SelectorStrategy[];
+    name: SelectorStrategy[];
+  };
+  memberCard: {
+    card: SelectorStrategy[];
+    name: SelectorStrategy[];
+    link: SelectorStrategy[];
+    headline: SelectorStrategy[];
+  };
+  profile: {
+    experienceItem: SelectorStrategy[];
+    experienceCompanyName: SelectorStrategy[];
+    experienceCompanyLink: SelectorStrategy[];
+    connectionsLink: SelectorStrategy[];
+  };
+  profileDetails: {
+    item: SelectorStrategy[]; // one entry on a profile's /details/experience or /details/education page
+    subItem: SelectorStrategy[]; // roles grouped under one company entry
+    text: SelectorStrategy[]; // the visible text lines inside an entry
+    companyLink: SelectorStrategy[];
+  };
+  companyAbout: {
+    details: SelectorStrategy[]; // the About page's <dl> of Website/Industry/Company size/Headquarters
+    topCardItem: SelectorStrategy[]; // "Software Development", "San Francisco, CA", "12K followers"
+  };
+  companyPage: {
+    profileLink: SelectorStrategy[];
+    jobsLink: SelectorStrategy[];
+    websiteLink: SelectorStrategy[];
+  };
+  jobSearch: {
+    card: SelectorStrategy[];
+    title: SelectorStrategy[];
+    link: SelectorStrategy[];
+    location: SelectorStrategy[];
+    postedDate: SelectorStrategy[];
+  };
+}
+
+export interface SelectorHit {
+  field: string; // e.g. "companySearch.card"
+  strategy: string;
+}
+
+export type FixturePageType = 'companySearch' | 'peopleSearch' | 'connectionsList' | 'profile' | 'profileDetails' | 'companyAbout' | 'companyPage' | 'jobSearch';